@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { activityActionLabels, activityActions, type ActivityAction } from "@shared/activity";
+import { throwIfResNotOk } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Activity,
+  Calendar as CalendarIcon,
+  Camera,
+  Download,
+  Edit,
+  FileUp,
+  Images,
+  KeyRound,
+  Plus,
+  Target,
+  Trash2,
+  X,
+  type LucideIcon,
+} from "lucide-react";
+
+export interface ActivityLog {
+  id: number;
+  userId: string;
+  action: ActivityAction;
+  description: string | null;
+  metadata?: any;
+  createdAt: string;
+}
+
+export interface ActivityLogPage {
+  logs: ActivityLog[];
+  nextCursor: string | null;
+  total: number;
+}
+
+const ACTION_ICONS: Record<ActivityAction, { icon: LucideIcon; className: string }> = {
+  weight_entry: { icon: Plus, className: "text-green-500" },
+  weight_edit: { icon: Edit, className: "text-amber-500" },
+  weight_delete: { icon: Trash2, className: "text-red-500" },
+  weight_import: { icon: FileUp, className: "text-green-500" },
+  photo_upload: { icon: Camera, className: "text-blue-500" },
+  scale_ingest: { icon: Activity, className: "text-purple-500" },
+  google_photos_import: { icon: Images, className: "text-blue-500" },
+  progress_photo_upload: { icon: Camera, className: "text-purple-500" },
+  progress_photo_delete: { icon: Trash2, className: "text-red-500" },
+  goal_set: { icon: Target, className: "text-purple-500" },
+  goal_achieved: { icon: Target, className: "text-purple-500" },
+  data_export: { icon: Download, className: "text-gray-500" },
+  api_token_created: { icon: KeyRound, className: "text-gray-500" },
+  api_token_revoked: { icon: KeyRound, className: "text-gray-500" },
+  api_token_used: { icon: KeyRound, className: "text-gray-500" },
+};
+
+export function ActivityIcon({ action }: { action: ActivityAction }) {
+  // Logs written by a newer server than this page was built with
+  const { icon: Icon, className } = ACTION_ICONS[action] ?? { icon: Activity, className: "text-gray-500" };
+  return <Icon className={`h-5 w-5 ${className}`} />;
+}
+
+const PAGE_SIZE = 25;
+const ALL_ACTIONS = "all";
+
+export default function ActivityLogPanel() {
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [action, setAction] = useState<ActivityAction | typeof ALL_ACTIONS>(ALL_ACTIONS);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Don't refetch on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const filters = {
+    from: range?.from ? new Date(new Date(range.from).setHours(0, 0, 0, 0)).toISOString() : undefined,
+    // Inclusive of the whole last day
+    to: range?.to ? new Date(new Date(range.to).setHours(23, 59, 59, 999)).toISOString() : undefined,
+    action: action === ALL_ACTIONS ? undefined : action,
+    q: query || undefined,
+  };
+
+  const filterParams = () => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    return params;
+  };
+
+  // Shares the "/api/activity-logs" prefix so existing invalidations refresh it
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/activity-logs", "history", filters],
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = filterParams();
+      params.set("limit", String(PAGE_SIZE));
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await fetch(`/api/activity-logs?${params}`, { credentials: "include" });
+      await throwIfResNotOk(res);
+      return (await res.json()) as ActivityLogPage;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { root: scrollRef.current, rootMargin: "100px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const logs = data?.pages.flatMap((page) => page.logs) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const hasFilters = !!(range?.from || action !== ALL_ACTIONS || query);
+
+  const clearFilters = () => {
+    setRange(undefined);
+    setAction(ALL_ACTIONS);
+    setSearch("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="justify-start font-normal">
+              <CalendarIcon className="h-4 w-4 mr-2" />
+              {range?.from
+                ? range.to
+                  ? `${format(range.from, "MMM d, yyyy")} – ${format(range.to, "MMM d, yyyy")}`
+                  : `From ${format(range.from, "MMM d, yyyy")}`
+                : "Date range"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={range}
+              onSelect={setRange}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+        <Select value={action} onValueChange={(value) => setAction(value as typeof action)}>
+          <SelectTrigger className="w-48 h-9" aria-label="Action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+            {activityActions.map((value) => (
+              <SelectItem key={value} value={value}>
+                {activityActionLabels[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="w-48 h-9"
+          placeholder="Search activity"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+        <Button variant="outline" size="sm" className="ml-auto" asChild>
+          <a href={`/api/activity-logs/export?${filterParams()}`} download>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      {!isLoading && (
+        <p className="text-xs text-muted-foreground">
+          {total} {total === 1 ? "action" : "actions"}
+        </p>
+      )}
+
+      <div ref={scrollRef} className="max-h-[32rem] overflow-y-auto space-y-3">
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="flex items-center space-x-3">
+              <Skeleton className="h-8 w-8 rounded-full" />
+              <div className="flex-1 space-y-2">
+                <Skeleton className="h-4 w-3/4" />
+                <Skeleton className="h-3 w-1/2" />
+              </div>
+            </div>
+          ))
+        ) : logs.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+            {hasFilters
+              ? "No activity matches these filters."
+              : "No recent activity. Add your first weight entry to get started!"}
+          </p>
+        ) : (
+          logs.map((log) => (
+            <div key={log.id} className="flex items-start space-x-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <div className="flex-shrink-0">
+                <ActivityIcon action={log.action} />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {log.description ?? activityActionLabels[log.action]}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {activityActionLabels[log.action] ?? log.action} ·{" "}
+                  {new Date(log.createdAt).toLocaleDateString()} at {new Date(log.createdAt).toLocaleTimeString()}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={sentinelRef} />
+        {isFetchingNextPage && <Skeleton className="h-16" />}
+      </div>
+    </div>
+  );
+}
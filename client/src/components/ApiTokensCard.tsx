@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+
+type ApiTokenScope = "entries:read" | "entries:write";
+
+interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface CreatedApiToken extends ApiToken {
+  token: string;
+}
+
+const SCOPES: { value: ApiTokenScope; label: string }[] = [
+  { value: "entries:read", label: "Read weight entries" },
+  { value: "entries:write", label: "Add, edit and delete weight entries" },
+];
+
+export default function ApiTokensCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["entries:write"]);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const { data: apiTokens = [], isLoading } = useQuery<ApiToken[]>({
+    queryKey: ["/api/api-tokens"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/api-tokens", { name, scopes });
+      return (await response.json()) as CreatedApiToken;
+    },
+    onSuccess: (apiToken) => {
+      setCreated(apiToken);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+    },
+    onError: (error) => handleError(error, "Failed to create API token"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      toast({ title: "Token revoked", description: "Requests using it will now be refused" });
+    },
+    onError: (error) => handleError(error, "Failed to revoke API token"),
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const copyToken = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.token);
+    toast({ title: "Copied", description: "The token is on your clipboard" });
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <KeyRound className="w-5 h-5" />
+          <span>API Tokens</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Log weights from scripts and automations by sending a token as{" "}
+          <code className="text-xs">Authorization: Bearer &lt;token&gt;</code> to <code className="text-xs">/api/weight-entries</code>, or
+          smart scale data to <code className="text-xs">/api/body-composition/&lt;vendor&gt;</code>.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {created && (
+          <div className="p-4 rounded-lg border border-green-200 bg-green-50 dark:bg-green-950 dark:border-green-800 space-y-2">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              Copy your new token now. It won't be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={created.token} className="font-mono text-xs" aria-label="New API token" />
+              <Button variant="outline" size="icon" onClick={copyToken} aria-label="Copy token">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div>
+            <Label htmlFor="api-token-name">Name</Label>
+            <Input
+              id="api-token-name"
+              placeholder="e.g. Home Assistant"
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            {SCOPES.map((scope) => (
+              <div key={scope.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`scope-${scope.value}`}
+                  checked={scopes.includes(scope.value)}
+                  onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                />
+                <Label htmlFor={`scope-${scope.value}`} className="text-sm font-normal">
+                  {scope.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Button type="submit" disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}>
+            {createMutation.isPending ? "Creating..." : "Create Token"}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading tokens...</p>
+          ) : apiTokens.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No API tokens yet.</p>
+          ) : (
+            apiTokens.map((apiToken) => (
+              <div
+                key={apiToken.id}
+                className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {apiToken.name} <span className="font-mono text-xs text-gray-500">{apiToken.prefix}…</span>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {apiToken.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Created {formatDistanceToNow(new Date(apiToken.createdAt), { addSuffix: true })} ·{" "}
+                    {apiToken.lastUsedAt
+                      ? `last used ${formatDistanceToNow(new Date(apiToken.lastUsedAt), { addSuffix: true })}`
+                      : "never used"}
+                  </p>
+                </div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" aria-label={`Revoke ${apiToken.name}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke "{apiToken.name}"?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Scripts using this token will stop working straight away. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => revokeMutation.mutate(apiToken.id)}>Revoke</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
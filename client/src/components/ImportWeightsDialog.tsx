@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { FileUp } from "lucide-react";
+
+interface ImportRowResult {
+  row: number;
+  status: "imported" | "duplicate" | "invalid";
+  errors?: string[];
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  summary: { total: number; imported: number; duplicates: number; invalid: number };
+  report: ImportRowResult[];
+}
+
+interface ImportWeightsDialogProps {
+  onImported: () => void;
+}
+
+const MAPPED_FIELDS = ["date", "weight", "unit", "notes"] as const;
+type MappedField = (typeof MAPPED_FIELDS)[number];
+
+// Let the server guess the column from its name
+const AUTO = "__auto";
+
+// Column names from the CSV header or the first JSON object, for the mapping selects
+function readColumns(format: "csv" | "json", text: string): string[] {
+  try {
+    if (format === "json") {
+      const data = JSON.parse(text);
+      return Array.isArray(data) && data[0] && typeof data[0] === "object" ? Object.keys(data[0]) : [];
+    }
+    const header = text.replace(/^\uFEFF/, "").split(/\r?\n/)[0] ?? "";
+    const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+      header.split(candidate).length > header.split(best).length ? candidate : best,
+    );
+    return header.split(delimiter).map((column) => column.trim().replace(/^"|"$/g, "")).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+export default function ImportWeightsDialog({ onImported }: ImportWeightsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<"csv" | "json">("csv");
+  const [data, setData] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<MappedField, string>>({
+    date: AUTO,
+    weight: AUTO,
+    unit: AUTO,
+    notes: AUTO,
+  });
+  const [defaultUnit, setDefaultUnit] = useState("lbs");
+  const [dateFormat, setDateFormat] = useState("auto");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const { toast } = useToast();
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/weight-entries/import", {
+        format,
+        data,
+        defaultUnit,
+        dateFormat,
+        dryRun,
+        mapping: Object.fromEntries(
+          MAPPED_FIELDS.filter((field) => mapping[field] !== AUTO).map((field) => [field, mapping[field]]),
+        ),
+      });
+      return (await response.json()) as ImportResult;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (!data.dryRun) {
+        onImported();
+        toast({
+          title: "Import complete",
+          description: `Imported ${data.summary.imported} of ${data.summary.total} rows`,
+        });
+      }
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Import failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (file: File | undefined) => {
+    setResult(null);
+    if (!file) return;
+    const text = await file.text();
+    const fileFormat = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+    setFileName(file.name);
+    setFormat(fileFormat);
+    setData(text);
+    setColumns(readColumns(fileFormat, text));
+    setMapping({ date: AUTO, weight: AUTO, unit: AUTO, notes: AUTO });
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setFileName("");
+      setData("");
+      setColumns([]);
+      setResult(null);
+    }
+  };
+
+  const problems = result?.report.filter((row) => row.status === "invalid").slice(0, 20) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1 flex items-center space-x-2">
+          <FileUp className="h-4 w-4" />
+          <span>Import History</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Weight History</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="import-file">CSV or JSON file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+            {fileName && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {fileName} ({format.toUpperCase()})
+              </p>
+            )}
+          </div>
+
+          {columns.length > 0 && (
+            <div className="grid grid-cols-2 gap-3">
+              {MAPPED_FIELDS.map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`import-${field}`} className="capitalize">{field} column</Label>
+                  <Select
+                    value={mapping[field]}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value })}
+                  >
+                    <SelectTrigger id={`import-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Detect</SelectItem>
+                      {columns.map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="import-default-unit">Default unit</Label>
+              <Select value={defaultUnit} onValueChange={setDefaultUnit}>
+                <SelectTrigger id="import-default-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lbs">lbs</SelectItem>
+                  <SelectItem value="kg">kg</SelectItem>
+                  <SelectItem value="st">st</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="import-date-format">Date format</Label>
+              <Select value={dateFormat} onValueChange={setDateFormat}>
+                <SelectTrigger id="import-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect</SelectItem>
+                  <SelectItem value="ymd">Year-month-day</SelectItem>
+                  <SelectItem value="mdy">Month/day/year</SelectItem>
+                  <SelectItem value="dmy">Day/month/year</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {result && (
+            <div className="rounded-lg bg-gray-50 dark:bg-gray-800 p-3 text-sm space-y-2">
+              <p className="font-medium">
+                {result.dryRun ? "Preview" : "Imported"}: {result.summary.imported} new,{" "}
+                {result.summary.duplicates} duplicates, {result.summary.invalid} invalid
+              </p>
+              {problems.length > 0 && (
+                <ul className="text-xs text-red-600 space-y-1">
+                  {problems.map((row) => (
+                    <li key={row.row}>
+                      Row {row.row}: {row.errors?.join("; ")}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!data || importMutation.isPending}
+            >
+              Preview
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => importMutation.mutate(false)}
+              disabled={!data || importMutation.isPending || (result !== null && !result.dryRun)}
+            >
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, errorMessage, fieldError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+interface PasswordSignInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Mode = "login" | "register";
+
+// Email and password sign-in, shown when the server runs AUTH_PROVIDER=local
+export default function PasswordSignInDialog({ open, onOpenChange }: PasswordSignInDialogProps) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<Mode>("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+
+  const signInMutation = useMutation({
+    mutationFn: async () => {
+      if (mode === "login") {
+        await apiRequest("POST", "/api/auth/login", { email, password });
+      } else {
+        await apiRequest("POST", "/api/auth/register", {
+          email,
+          password,
+          firstName: firstName || undefined,
+          lastName: lastName || undefined,
+        });
+      }
+    },
+    onSuccess: () => {
+      // The app switches to the dashboard once the user loads
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
+  const { error } = signInMutation;
+  const emailError = fieldError(error, "email");
+  const passwordError = fieldError(error, "password");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    signInMutation.mutate();
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as Mode);
+    signInMutation.reset();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{mode === "login" ? "Sign in to WeightWise" : "Create your account"}</DialogTitle>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={handleModeChange}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Sign In</TabsTrigger>
+            <TabsTrigger value="register">Create Account</TabsTrigger>
+          </TabsList>
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <TabsContent value="register" className="mt-0">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="first-name">First name</Label>
+                  <Input id="first-name" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="last-name">Last name</Label>
+                  <Input id="last-name" value={lastName} onChange={(e) => setLastName(e.target.value)} />
+                </div>
+              </div>
+            </TabsContent>
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                aria-invalid={!!emailError}
+              />
+              {emailError && <p className="text-xs text-red-600 mt-1">{emailError}</p>}
+            </div>
+            <div>
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                minLength={mode === "register" ? 8 : undefined}
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                aria-invalid={!!passwordError}
+              />
+              {passwordError ? (
+                <p className="text-xs text-red-600 mt-1">{passwordError}</p>
+              ) : (
+                mode === "register" && <p className="text-xs text-gray-500 mt-1">At least 8 characters</p>
+              )}
+            </div>
+            {error && !emailError && !passwordError && (
+              <p className="text-sm text-red-600">{errorMessage(error)}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={signInMutation.isPending}>
+              {signInMutation.isPending ? "Please wait..." : mode === "login" ? "Sign In" : "Create Account"}
+            </Button>
+          </form>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
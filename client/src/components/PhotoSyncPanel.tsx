@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { photoUrl } from "@shared/photos";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { RefreshCw } from "lucide-react";
+
+interface PhotoSyncState {
+  cursor: string | null;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastScanned: number;
+  lastQueued: number;
+  totalScanned: number;
+  totalQueued: number;
+}
+
+interface PhotoSyncStatus {
+  connected: boolean;
+  enabled: boolean;
+  state: PhotoSyncState | null;
+}
+
+interface PendingDetection {
+  id: number;
+  photoPath: string;
+  detectedWeight: string | null;
+  unit: string | null;
+  confidence: string | null;
+  takenAt: string | null;
+  createdAt: string;
+}
+
+function timeAgo(value: string) {
+  return formatDistanceToNow(new Date(value), { addSuffix: true });
+}
+
+export default function PhotoSyncPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status } = useQuery<PhotoSyncStatus>({
+    queryKey: ["/api/photo-sync"],
+  });
+
+  const { data: pending = [] } = useQuery<PendingDetection[]>({
+    queryKey: ["/api/photo-detections"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      await apiRequest("PATCH", "/api/photo-sync", { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/photo-sync"] });
+    },
+    onError: (error) => handleError(error, "Failed to update sync settings"),
+  });
+
+  const syncNowMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/photo-sync/run");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/photo-sync"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/photo-detections"] });
+    },
+    onError: (error) => handleError(error, "Failed to sync Google Photos"),
+  });
+
+  if (!status?.connected) return null;
+  const state = status.state;
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+            Automatic Sync
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="photo-sync-enabled" className="text-sm">
+              {status.enabled ? "On" : "Off"}
+            </Label>
+            <Switch
+              id="photo-sync-enabled"
+              checked={status.enabled}
+              onCheckedChange={(enabled) => settingsMutation.mutate(enabled)}
+              disabled={settingsMutation.isPending}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          New photos of your scale are picked up from Google Photos every half hour and wait here for you to confirm.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="text-sm space-y-1">
+            {state?.lastRunAt ? (
+              <p className="text-gray-900 dark:text-white">
+                Last checked {timeAgo(state.lastRunAt)}: {state.lastScanned} new{" "}
+                {state.lastScanned === 1 ? "photo" : "photos"}, {state.lastQueued} with a scale
+              </p>
+            ) : (
+              <p className="text-gray-600 dark:text-gray-400">Not synced yet.</p>
+            )}
+            {state && state.totalScanned > 0 && (
+              <p className="text-xs text-gray-500">
+                {state.totalScanned} photos checked and {state.totalQueued} weigh-ins found so far
+              </p>
+            )}
+            {state?.lastError && (
+              <p className="text-xs text-red-600">
+                Last sync failed: {state.lastError}
+                {state.lastSuccessAt && ` (last success ${timeAgo(state.lastSuccessAt)})`}
+              </p>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => syncNowMutation.mutate()}
+            disabled={syncNowMutation.isPending}
+            className="flex items-center space-x-2 shrink-0"
+          >
+            <RefreshCw className={`w-4 h-4 ${syncNowMutation.isPending ? "animate-spin" : ""}`} />
+            <span>Sync now</span>
+          </Button>
+        </div>
+
+        {pending.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              Waiting for review ({pending.length})
+            </p>
+            {pending.map((detection) => (
+              <PendingDetectionRow key={detection.id} detection={detection} onError={handleError} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PendingDetectionRow({
+  detection,
+  onError,
+}: {
+  detection: PendingDetection;
+  onError: (error: Error, description: string) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [weight, setWeight] = useState(detection.detectedWeight ?? "");
+  const [unit, setUnit] = useState(detection.unit ?? "lbs");
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/photo-detections/${detection.id}/confirm`, { weight, unit });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/photo-detections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({ title: "Success", description: `Weight entry saved: ${weight} ${unit}` });
+    },
+    onError: (error) => onError(error, "Failed to save weight entry"),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/photo-detections/${detection.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/photo-detections"] });
+    },
+    onError: (error) => onError(error, "Failed to discard photo"),
+  });
+
+  const busy = confirmMutation.isPending || discardMutation.isPending;
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <img
+        src={photoUrl(detection.photoPath, "small")}
+        alt="Scale photo"
+        className="w-16 h-16 object-cover rounded cursor-pointer"
+        onClick={() => window.open(photoUrl(detection.photoPath), "_blank")}
+      />
+      <div className="flex-1 space-y-2">
+        <p className="text-xs text-gray-500">
+          Taken {new Date(detection.takenAt ?? detection.createdAt).toLocaleString()}
+          {detection.confidence && ` · ${Math.round(parseFloat(detection.confidence) * 100)}% confidence`}
+        </p>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            step="0.1"
+            className="h-8 w-24"
+            aria-label="Weight"
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+          />
+          <Select value={unit} onValueChange={setUnit}>
+            <SelectTrigger className="h-8 w-20" aria-label="Unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lbs">lbs</SelectItem>
+              <SelectItem value="kg">kg</SelectItem>
+              <SelectItem value="st">st</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Button size="sm" onClick={() => confirmMutation.mutate()} disabled={!weight || busy}>
+          Confirm
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => discardMutation.mutate()} disabled={busy}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { differenceInCalendarDays, format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage, fieldError, throwIfResNotOk } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { photoUrl } from "@shared/photos";
+import { deltaUnit, fromGrams, type DisplayUnit, type DisplayWeight } from "@shared/units";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CheckCircle2, Columns2, ImagePlus, SplitSquareHorizontal, Trash2 } from "lucide-react";
+
+const POSES = ["front", "side", "back"] as const;
+type Pose = (typeof POSES)[number];
+
+export interface ProgressPhoto {
+  id: number;
+  photoPath: string;
+  pose: Pose;
+  weightEntryId: number | null;
+  takenAt: string;
+  notes: string | null;
+  // From the linked weigh-in, or the closest one within 3 days
+  weight: {
+    entryId: number;
+    recordedAt: string;
+    linked: boolean;
+    weightGrams: number;
+    display: DisplayWeight;
+  } | null;
+}
+
+// Weigh-ins a new photo can be linked to
+interface LinkableEntry {
+  id: number;
+  display: DisplayWeight;
+  recordedAt: string;
+}
+
+const poseLabel = (pose: Pose) => pose.charAt(0).toUpperCase() + pose.slice(1);
+const photoDate = (photo: ProgressPhoto) => format(new Date(photo.takenAt), "MMM d, yyyy");
+
+// "-4.2 lbs in 30 days", in the unit used for differences
+function weightDelta(before: ProgressPhoto, after: ProgressPhoto, displayUnit: DisplayUnit) {
+  const days = differenceInCalendarDays(new Date(after.takenAt), new Date(before.takenAt));
+  const period = `in ${days} ${days === 1 ? "day" : "days"}`;
+  if (!before.weight || !after.weight) return `No weigh-in to compare ${period}`;
+  const unit = deltaUnit(displayUnit);
+  const change = Math.round(fromGrams(after.weight.weightGrams - before.weight.weightGrams, unit) * 10) / 10;
+  return `${change > 0 ? "+" : ""}${change} ${unit} ${period}`;
+}
+
+export default function ProgressGallery({
+  displayUnit,
+  entries,
+}: {
+  displayUnit: DisplayUnit;
+  entries: LinkableEntry[];
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pose, setPose] = useState<Pose | "all">("all");
+  // Up to two photos picked for comparison, in the order they were picked
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  // Oldest first, so the timeline reads left to right
+  const { data: allPhotos = [], isLoading } = useQuery<ProgressPhoto[]>({
+    queryKey: ["/api/progress-photos"],
+  });
+  const photos = pose === "all" ? allPhotos : allPhotos.filter((photo) => photo.pose === pose);
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/progress-photos/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      setSelectedIds((ids) => ids.filter((selected) => selected !== id));
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-photos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+    },
+    onError: (error) => handleError(error, "Failed to delete photo"),
+  });
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) =>
+      ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id].slice(-2),
+    );
+  };
+
+  const selected = selectedIds
+    .map((id) => allPhotos.find((photo) => photo.id === id))
+    .filter((photo): photo is ProgressPhoto => photo !== undefined);
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+            Progress Photos
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={pose} onValueChange={(value) => setPose(value as Pose | "all")}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All poses</SelectItem>
+                {POSES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {poseLabel(value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <CompareDialog photos={allPhotos} initial={selected} displayUnit={displayUnit} />
+            <AddProgressPhotoDialog entries={entries} onError={handleError} />
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Pick two photos to compare them side by side, or open the comparison and choose any two dates.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading photos...</p>
+        ) : photos.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {allPhotos.length === 0
+              ? "No progress photos yet. Add one to start your timeline."
+              : `No ${pose} photos yet.`}
+          </p>
+        ) : (
+          <Carousel opts={{ align: "start" }} className="mx-10">
+            <CarouselContent>
+              {photos.map((photo) => {
+                const isSelected = selectedIds.includes(photo.id);
+                return (
+                  <CarouselItem key={photo.id} className="basis-1/2 md:basis-1/3 lg:basis-1/4">
+                    <div className="relative group">
+                      <img
+                        src={photoUrl(photo.photoPath, "medium")}
+                        alt={`${poseLabel(photo.pose)} progress photo, ${photoDate(photo)}`}
+                        className={`w-full aspect-[3/4] object-cover rounded-lg cursor-pointer ${isSelected ? "ring-4 ring-blue-500" : ""}`}
+                        onClick={() => toggleSelected(photo.id)}
+                      />
+                      {isSelected && (
+                        <CheckCircle2 className="absolute top-2 left-2 w-6 h-6 text-white fill-blue-500" />
+                      )}
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={() => {
+                          if (confirm("Delete this progress photo?")) deleteMutation.mutate(photo.id);
+                        }}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="mt-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 dark:text-white">{photoDate(photo)}</span>
+                        <Badge variant="secondary">{poseLabel(photo.pose)}</Badge>
+                      </div>
+                      <p className="text-gray-600 dark:text-gray-400">
+                        {photo.weight ? photo.weight.display.label : "No weigh-in nearby"}
+                      </p>
+                    </div>
+                  </CarouselItem>
+                );
+              })}
+            </CarouselContent>
+            <CarouselPrevious />
+            <CarouselNext />
+          </Carousel>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AddProgressPhotoDialog({
+  entries,
+  onError,
+}: {
+  entries: LinkableEntry[];
+  onError: (error: Error, description: string) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [pose, setPose] = useState<Pose>("front");
+  const [takenOn, setTakenOn] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  // "auto" leaves the photo unlinked, showing the closest weigh-in
+  const [entryId, setEntryId] = useState("auto");
+  const [notes, setNotes] = useState("");
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("image", file!);
+      formData.append("pose", pose);
+      // Noon local time, so the day doesn't shift across time zones
+      formData.append("takenAt", new Date(`${takenOn}T12:00:00`).toISOString());
+      if (entryId !== "auto") formData.append("weightEntryId", entryId);
+      if (notes.trim()) formData.append("notes", notes.trim());
+
+      const response = await fetch("/api/progress-photos", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      await throwIfResNotOk(response);
+      return (await response.json()) as ProgressPhoto;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-photos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      toast({ title: "Success", description: "Progress photo added" });
+      setOpen(false);
+      setFile(null);
+      setNotes("");
+      setEntryId("auto");
+    },
+    onError: (error) => onError(error, errorMessage(error)),
+  });
+  const takenAtError = fieldError(uploadMutation.error, "takenAt");
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="flex items-center space-x-2">
+          <ImagePlus className="w-4 h-4" />
+          <span>Add photo</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add a progress photo</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="progress-photo-file">Photo</Label>
+            <Input
+              id="progress-photo-file"
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/heic,image/heif"
+              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Pose</Label>
+              <Select value={pose} onValueChange={(value) => setPose(value as Pose)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POSES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {poseLabel(value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="progress-photo-date">Taken on</Label>
+              <Input
+                id="progress-photo-date"
+                type="date"
+                value={takenOn}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(event) => setTakenOn(event.target.value)}
+              />
+              {takenAtError && <p className="text-xs text-red-600">{takenAtError}</p>}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Weigh-in</Label>
+            <Select value={entryId} onValueChange={setEntryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Closest to the photo's date</SelectItem>
+                {entries.map((entry) => (
+                  <SelectItem key={entry.id} value={String(entry.id)}>
+                    {format(new Date(entry.recordedAt), "MMM d, yyyy")} · {entry.display.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="progress-photo-notes">Notes</Label>
+            <Input
+              id="progress-photo-notes"
+              value={notes}
+              maxLength={500}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => uploadMutation.mutate()}
+            disabled={!file || !takenOn || uploadMutation.isPending}
+          >
+            {uploadMutation.isPending ? "Uploading..." : "Add photo"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PhotoPicker({
+  label,
+  photos,
+  value,
+  onChange,
+}: {
+  label: string;
+  photos: ProgressPhoto[];
+  value: ProgressPhoto | undefined;
+  onChange: (id: number) => void;
+}) {
+  return (
+    <div className="space-y-1 flex-1">
+      <Label>{label}</Label>
+      <Select value={value ? String(value.id) : undefined} onValueChange={(id) => onChange(Number(id))}>
+        <SelectTrigger>
+          <SelectValue placeholder="Choose a date" />
+        </SelectTrigger>
+        <SelectContent>
+          {photos.map((photo) => (
+            <SelectItem key={photo.id} value={String(photo.id)}>
+              {photoDate(photo)} · {poseLabel(photo.pose)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Date and weight shown over a photo in the comparison
+function PhotoCaption({ photo, className = "" }: { photo: ProgressPhoto; className?: string }) {
+  return (
+    <div className={`absolute bottom-2 text-xs text-white bg-black bg-opacity-60 px-2 py-1 rounded ${className}`}>
+      {photoDate(photo)}
+      {photo.weight && ` · ${photo.weight.display.label}`}
+    </div>
+  );
+}
+
+function CompareDialog({
+  photos,
+  initial,
+  displayUnit,
+}: {
+  photos: ProgressPhoto[];
+  initial: ProgressPhoto[];
+  displayUnit: DisplayUnit;
+}) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<"side-by-side" | "slider">("side-by-side");
+  const [beforeId, setBeforeId] = useState<number>();
+  const [afterId, setAfterId] = useState<number>();
+  // How much of the "after" photo the slider reveals, from the left
+  const [reveal, setReveal] = useState(50);
+
+  // Starts from the photos picked in the timeline, older one first, or
+  // else the first and latest photo
+  const onOpenChange = (next: boolean) => {
+    if (next) {
+      const [first, second] =
+        initial.length === 2
+          ? [...initial].sort((a, b) => new Date(a.takenAt).getTime() - new Date(b.takenAt).getTime())
+          : [photos[0], photos[photos.length - 1]];
+      setBeforeId(first?.id);
+      setAfterId(second?.id);
+      setReveal(50);
+    }
+    setOpen(next);
+  };
+
+  const before = photos.find((photo) => photo.id === beforeId);
+  const after = photos.find((photo) => photo.id === afterId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={photos.length < 2} className="flex items-center space-x-2">
+          <Columns2 className="w-4 h-4" />
+          <span>Compare</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare progress</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-wrap items-end gap-3">
+          <PhotoPicker label="Before" photos={photos} value={before} onChange={setBeforeId} />
+          <PhotoPicker label="After" photos={photos} value={after} onChange={setAfterId} />
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as typeof mode)}
+          >
+            <ToggleGroupItem value="side-by-side" aria-label="Side by side">
+              <Columns2 className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="slider" aria-label="Slider">
+              <SplitSquareHorizontal className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {before && after && (
+          <div className="space-y-3">
+            <div className="flex justify-center">
+              <Badge className="text-sm">{weightDelta(before, after, displayUnit)}</Badge>
+            </div>
+            {mode === "side-by-side" ? (
+              <div className="grid grid-cols-2 gap-3">
+                {[before, after].map((photo, i) => (
+                  <div key={i} className="relative">
+                    <img
+                      src={photoUrl(photo.photoPath, "large")}
+                      alt={`${poseLabel(photo.pose)} progress photo, ${photoDate(photo)}`}
+                      className="w-full max-h-[60vh] object-contain rounded-lg bg-gray-100 dark:bg-gray-900"
+                    />
+                    <PhotoCaption photo={photo} className="left-2" />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="relative mx-auto max-w-md overflow-hidden rounded-lg bg-gray-100 dark:bg-gray-900">
+                  <img
+                    src={photoUrl(before.photoPath, "large")}
+                    alt={`Before, ${photoDate(before)}`}
+                    className="w-full aspect-[3/4] object-cover"
+                  />
+                  <img
+                    src={photoUrl(after.photoPath, "large")}
+                    alt={`After, ${photoDate(after)}`}
+                    className="absolute inset-0 w-full h-full object-cover"
+                    style={{ clipPath: `inset(0 ${100 - reveal}% 0 0)` }}
+                  />
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-white shadow"
+                    style={{ left: `${reveal}%` }}
+                  />
+                  <PhotoCaption photo={after} className="left-2" />
+                  <PhotoCaption photo={before} className="right-2" />
+                </div>
+                <Slider
+                  value={[reveal]}
+                  onValueChange={([value]) => setReveal(value)}
+                  min={0}
+                  max={100}
+                  step={1}
+                  className="mx-auto max-w-md"
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
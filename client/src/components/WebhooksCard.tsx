@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ChevronDown, ChevronRight, Copy, RotateCcw, Trash2, Webhook as WebhookIcon } from "lucide-react";
+
+type WebhookEvent =
+  | "weight_entry.created"
+  | "weight_entry.updated"
+  | "weight_entry.deleted"
+  | "photo.detected"
+  | "goal.achieved";
+
+interface Webhook {
+  id: number;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+interface CreatedWebhook extends Webhook {
+  secret: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  event: WebhookEvent;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  replayOf: number | null;
+  createdAt: string;
+}
+
+const EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: "weight_entry.created", label: "Weight entry added" },
+  { value: "weight_entry.updated", label: "Weight entry edited" },
+  { value: "weight_entry.deleted", label: "Weight entry deleted" },
+  { value: "photo.detected", label: "Weight read from a scale photo" },
+  { value: "goal.achieved", label: "Goal achieved" },
+];
+
+const STATUS_VARIANTS = {
+  succeeded: "secondary",
+  pending: "outline",
+  failed: "destructive",
+} as const;
+
+function timeAgo(value: string) {
+  return formatDistanceToNow(new Date(value), { addSuffix: true });
+}
+
+export default function WebhooksCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["weight_entry.created"]);
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/webhooks", { url, events });
+      return (await response.json()) as CreatedWebhook;
+    },
+    onSuccess: (webhook) => {
+      setCreated(webhook);
+      setUrl("");
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error) => handleError(error, "Failed to add webhook. Check the URL and events."),
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) => (checked ? [...current, event] : current.filter((e) => e !== event)));
+  };
+
+  const copySecret = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.secret);
+    toast({ title: "Copied", description: "The signing secret is on your clipboard" });
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <WebhookIcon className="w-5 h-5" />
+          <span>Webhooks</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Get a signed POST request when something happens in your account. Each request carries an{" "}
+          <code className="text-xs">X-WeightWise-Signature</code> header: an HMAC-SHA256 of{" "}
+          <code className="text-xs">timestamp.body</code> with your signing secret. Failed deliveries are retried with backoff.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {created && (
+          <div className="p-4 rounded-lg border border-green-200 bg-green-50 dark:bg-green-950 dark:border-green-800 space-y-2">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              Copy the signing secret now. It won't be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={created.secret} className="font-mono text-xs" aria-label="Signing secret" />
+              <Button variant="outline" size="icon" onClick={copySecret} aria-label="Copy secret">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div>
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://example.com/weightwise"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {EVENTS.map((event) => (
+              <div key={event.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`event-${event.value}`}
+                  checked={events.includes(event.value)}
+                  onCheckedChange={(checked) => toggleEvent(event.value, checked === true)}
+                />
+                <Label htmlFor={`event-${event.value}`} className="text-sm font-normal">
+                  {event.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Button type="submit" disabled={!url.trim() || events.length === 0 || createMutation.isPending}>
+            {createMutation.isPending ? "Adding..." : "Add Webhook"}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading webhooks...</p>
+          ) : webhooks.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No webhooks yet.</p>
+          ) : (
+            webhooks.map((webhook) => <WebhookRow key={webhook.id} webhook={webhook} onError={handleError} />)
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function WebhookRow({
+  webhook,
+  onError,
+}: {
+  webhook: Webhook;
+  onError: (error: Error, description: string) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState(false);
+  const deliveriesKey = [`/api/webhooks/${webhook.id}/deliveries`];
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: deliveriesKey,
+    enabled: expanded,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      await apiRequest("PATCH", `/api/webhooks/${webhook.id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error) => onError(error, "Failed to update webhook"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/webhooks/${webhook.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (error) => onError(error, "Failed to delete webhook"),
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      const response = await apiRequest("POST", `/api/webhooks/${webhook.id}/deliveries/${deliveryId}/replay`);
+      return (await response.json()) as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      toast({
+        title: delivery.status === "succeeded" ? "Delivered" : "Delivery failed",
+        description: delivery.status === "succeeded" ? "The event was sent again" : delivery.error ?? undefined,
+        variant: delivery.status === "succeeded" ? "default" : "destructive",
+      });
+    },
+    onError: (error) => onError(error, "Failed to replay delivery"),
+  });
+
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          type="button"
+          className="flex items-start gap-2 text-left min-w-0"
+          onClick={() => setExpanded((value) => !value)}
+          aria-expanded={expanded}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4 mt-0.5 shrink-0" /> : <ChevronRight className="w-4 h-4 mt-0.5 shrink-0" />}
+          <div className="min-w-0 space-y-1">
+            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{webhook.url}</p>
+            <div className="flex flex-wrap gap-1">
+              {webhook.events.map((event) => (
+                <Badge key={event} variant="secondary">
+                  {event}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </button>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            checked={webhook.enabled}
+            onCheckedChange={(enabled) => toggleMutation.mutate(enabled)}
+            disabled={toggleMutation.isPending}
+            aria-label={webhook.enabled ? "Disable webhook" : "Enable webhook"}
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" aria-label="Delete webhook">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  No more events will be sent to {webhook.url}, and its delivery log will be removed.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="space-y-2 pl-6">
+          {isLoading ? (
+            <p className="text-xs text-gray-500">Loading deliveries...</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-xs text-gray-500">No deliveries yet.</p>
+          ) : (
+            deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs">
+                <div className="space-y-0.5 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                    <span className="font-mono">{delivery.event}</span>
+                    {delivery.replayOf && <span className="text-gray-500">replay of #{delivery.replayOf}</span>}
+                  </div>
+                  <p className="text-gray-500 truncate">
+                    #{delivery.id} · {timeAgo(delivery.createdAt)} · {delivery.attempts}{" "}
+                    {delivery.attempts === 1 ? "attempt" : "attempts"}
+                    {delivery.error && ` · ${delivery.error}`}
+                    {delivery.nextAttemptAt && ` · retrying ${timeAgo(delivery.nextAttemptAt)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => replayMutation.mutate(delivery.id)}
+                  disabled={replayMutation.isPending}
+                  aria-label={`Replay delivery ${delivery.id}`}
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,37 +3,58 @@ import { Chart, registerables } from "chart.js";
 
 Chart.register(...registerables);
 
-interface WeightEntry {
-  weight: string;
+interface ChartPoint {
   recordedAt: string;
+  // Raw reading and smoothed trend, in `unit`
+  value: number;
+  trend: number;
 }
 
 interface WeightChartProps {
-  entries: WeightEntry[];
+  points: ChartPoint[];
+  // Weight unit, "%" or "" for unitless metrics like BMI
+  unit: string;
+  // What is plotted, e.g. "Body fat"
+  label?: string;
+  // Drawn as a dashed horizontal line when set, in `unit`
+  goalWeight?: number;
 }
 
-export default function WeightChart({ entries }: WeightChartProps) {
+// Above this many readings individual points are hidden to keep the line legible
+const MAX_VISIBLE_POINTS = 60;
+
+export default function WeightChart({ points, unit, label = "Weight", goalWeight }: WeightChartProps) {
   const chartRef = useRef<HTMLCanvasElement>(null);
   const chartInstance = useRef<Chart | null>(null);
 
   useEffect(() => {
-    if (!chartRef.current || entries.length === 0) return;
+    if (!chartRef.current || points.length === 0) return;
 
     // Destroy existing chart
     if (chartInstance.current) {
       chartInstance.current.destroy();
     }
 
-    // Sort entries by date (oldest first for chart)
-    const sortedEntries = [...entries]
-      .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime())
-      .slice(-30); // Show last 30 entries
+    // Sort by date (oldest first for chart)
+    const sortedPoints = [...points].sort(
+      (a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime()
+    );
+    // Include the year once the history spans more than one
+    const multiYear =
+      new Date(sortedPoints[0].recordedAt).getFullYear() !==
+      new Date(sortedPoints[sortedPoints.length - 1].recordedAt).getFullYear();
 
-    const labels = sortedEntries.map(entry => 
-      new Date(entry.recordedAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+    const labels = sortedPoints.map(point =>
+      new Date(point.recordedAt).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        ...(multiYear ? { year: "numeric" } : {}),
+      })
     );
-    
-    const data = sortedEntries.map(entry => parseFloat(entry.weight));
+
+    const data = sortedPoints.map(point => point.value);
+    const trendData = sortedPoints.map(point => point.trend);
+    const pointRadius = sortedPoints.length > MAX_VISIBLE_POINTS ? 0 : 4;
 
     const ctx = chartRef.current.getContext("2d");
     if (!ctx) return;
@@ -44,7 +65,7 @@ export default function WeightChart({ entries }: WeightChartProps) {
         labels,
         datasets: [
           {
-            label: "Weight (lbs)",
+            label: unit ? `${label} (${unit})` : label,
             data,
             borderColor: "hsl(207, 90%, 54%)",
             backgroundColor: "hsla(207, 90%, 54%, 0.1)",
@@ -53,8 +74,30 @@ export default function WeightChart({ entries }: WeightChartProps) {
             pointBackgroundColor: "hsl(207, 90%, 54%)",
             pointBorderColor: "#fff",
             pointBorderWidth: 2,
-            pointRadius: 4,
+            pointRadius,
           },
+          {
+            label: "Trend",
+            data: trendData,
+            borderColor: "hsl(262, 83%, 58%)",
+            borderWidth: 2,
+            tension: 0.4,
+            fill: false,
+            pointRadius: 0,
+          },
+          ...(goalWeight !== undefined
+            ? [
+                {
+                  label: "Goal",
+                  data: labels.map(() => goalWeight),
+                  borderColor: "hsl(142, 71%, 45%)",
+                  borderDash: [6, 6],
+                  borderWidth: 2,
+                  fill: false,
+                  pointRadius: 0,
+                },
+              ]
+            : []),
         ],
       },
       options: {
@@ -73,7 +116,12 @@ export default function WeightChart({ entries }: WeightChartProps) {
           },
           y: {
             beginAtZero: false,
-            min: data.length > 0 ? Math.min(...data) - 5 : 0,
+            // Stones need a much smaller margin than lbs or kg
+            min: data.length > 0 ? Math.max(0, Math.min(...data, goalWeight ?? Infinity) - (unit === "st" ? 0.5 : 5)) : 0,
+            title: {
+              display: true,
+              text: unit || label,
+            },
             grid: {
               color: "hsl(0, 0%, 90%)",
             },
@@ -92,9 +140,9 @@ export default function WeightChart({ entries }: WeightChartProps) {
         chartInstance.current.destroy();
       }
     };
-  }, [entries]);
+  }, [points, unit, label, goalWeight]);
 
-  if (entries.length === 0) {
+  if (points.length === 0) {
     return (
       <div className="w-full h-full flex items-center justify-center text-gray-500">
         <div className="text-center">
@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { DisplayWeight } from "@shared/units";
+import { errorMessage, throwIfResNotOk } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Activity, Calendar as CalendarIcon, Camera, Edit, FileUp, Scale, Trash2, X } from "lucide-react";
+
+export interface HistoryEntry {
+  id: number;
+  weight: string;
+  unit: string;
+  weightGrams: number;
+  display: DisplayWeight;
+  entryType: string;
+  notes?: string | null;
+  // Set on smart scale readings that include it
+  bodyFatPercent?: string | null;
+  recordedAt: string;
+}
+
+interface WeightEntryPage {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+  total: number;
+}
+
+interface WeightHistoryTableProps {
+  onEdit: (entry: HistoryEntry) => void;
+  onDelete: (id: number) => void;
+  isDeleting?: boolean;
+}
+
+const PAGE_SIZE = 25;
+const ALL_TYPES = "all";
+
+export default function WeightHistoryTable({ onEdit, onDelete, isDeleting }: WeightHistoryTableProps) {
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [entryType, setEntryType] = useState(ALL_TYPES);
+  const [search, setSearch] = useState("");
+  const [notesQuery, setNotesQuery] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Don't refetch on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setNotesQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const filters = {
+    from: range?.from ? new Date(new Date(range.from).setHours(0, 0, 0, 0)).toISOString() : undefined,
+    // Inclusive of the whole last day
+    to: range?.to ? new Date(new Date(range.to).setHours(23, 59, 59, 999)).toISOString() : undefined,
+    entryType: entryType === ALL_TYPES ? undefined : entryType,
+    q: notesQuery || undefined,
+  };
+
+  // Shares the "/api/weight-entries" prefix so existing invalidations refresh it
+  const { data, error, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/weight-entries", "history", filters],
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      for (const [key, value] of Object.entries({ ...filters, cursor: pageParam })) {
+        if (value) params.set(key, value);
+      }
+      const res = await fetch(`/api/weight-entries?${params}`, { credentials: "include" });
+      await throwIfResNotOk(res);
+      return (await res.json()) as WeightEntryPage;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { root: scrollRef.current, rootMargin: "100px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const hasFilters = !!(range?.from || entryType !== ALL_TYPES || notesQuery);
+
+  const clearFilters = () => {
+    setRange(undefined);
+    setEntryType(ALL_TYPES);
+    setSearch("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="justify-start font-normal">
+              <CalendarIcon className="h-4 w-4 mr-2" />
+              {range?.from
+                ? range.to
+                  ? `${format(range.from, "MMM d, yyyy")} – ${format(range.to, "MMM d, yyyy")}`
+                  : `From ${format(range.from, "MMM d, yyyy")}`
+                : "Date range"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={range}
+              onSelect={setRange}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+        <Select value={entryType} onValueChange={setEntryType}>
+          <SelectTrigger className="w-32 h-9" aria-label="Entry type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>All types</SelectItem>
+            <SelectItem value="manual">Manual</SelectItem>
+            <SelectItem value="photo">Photo</SelectItem>
+            <SelectItem value="import">Imported</SelectItem>
+            <SelectItem value="scale">Smart scale</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          className="w-40 h-9"
+          placeholder="Search notes"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {data && (
+        <p className="text-xs text-muted-foreground">
+          {total} {total === 1 ? "entry" : "entries"}
+        </p>
+      )}
+
+      <div ref={scrollRef} className="max-h-96 overflow-y-auto">
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10" />
+            ))}
+          </div>
+        ) : error && entries.length === 0 ? (
+          <p className="text-destructive text-center py-8">{errorMessage(error)}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            {hasFilters ? "No entries match these filters." : "No weight entries yet. Add your first entry!"}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Weight</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="w-20" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(entry.recordedAt).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <span className="flex items-center gap-2">
+                      {entry.entryType === "photo" ? (
+                        <Camera className="h-4 w-4 text-blue-600" />
+                      ) : entry.entryType === "import" ? (
+                        <FileUp className="h-4 w-4 text-gray-500" />
+                      ) : entry.entryType === "scale" ? (
+                        <Activity className="h-4 w-4 text-purple-600" />
+                      ) : (
+                        <Scale className="h-4 w-4 text-green-600" />
+                      )}
+                      {entry.display.label}
+                      {entry.bodyFatPercent && (
+                        <span className="text-xs text-muted-foreground">{entry.bodyFatPercent}% fat</span>
+                      )}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground max-w-[12rem] truncate">
+                    {entry.notes}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" onClick={() => onEdit(entry)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDelete(entry.id)}
+                        disabled={isDeleting}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <div ref={sentinelRef} />
+        {isFetchingNextPage && <Skeleton className="h-10 mt-2" />}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,56 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
-async function throwIfResNotOk(res: Response) {
+// Messages per field, keyed by the field's path, e.g. "weight" or "mapping.date"
+export type FieldErrors = Record<string, string[]>;
+
+// A failed API response. The message keeps the "<status>: <message>" form the
+// rest of the client matches on; `detail` is the server's message alone.
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly detail: string,
+    readonly code?: string,
+    readonly fieldErrors: FieldErrors = {},
+  ) {
+    super(`${status}: ${detail}`);
+    this.name = "ApiError";
+  }
+
+  // The first message for `field`, for showing next to a form input
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+}
+
+// The server answers errors as `{ code, message, fieldErrors? }`; anything else
+// (a proxy error page, say) is reported as its raw text
+export async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: { code?: unknown; message?: unknown; fieldErrors?: unknown } | undefined;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    if (body && typeof body.message === "string") {
+      const fieldErrors = typeof body.fieldErrors === "object" && body.fieldErrors ? (body.fieldErrors as FieldErrors) : {};
+      throw new ApiError(res.status, body.message, typeof body.code === "string" ? body.code : undefined, fieldErrors);
+    }
+    throw new ApiError(res.status, text);
   }
 }
 
+// The message to show for a failed request, without the status prefix
+export function errorMessage(error: Error) {
+  return error instanceof ApiError ? error.detail : error.message;
+}
+
+// The first message for `field` if `error` came from a failed request
+export function fieldError(error: Error | null | undefined, field: string) {
+  return error instanceof ApiError ? error.fieldError(field) : undefined;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -1,8 +1,9 @@
 import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { ApiError, apiRequest, errorMessage, fieldError, throwIfResNotOk } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,8 +17,22 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import WeightChart from "@/components/WeightChart";
 import FileUpload from "@/components/FileUpload";
+import ImportWeightsDialog from "@/components/ImportWeightsDialog";
+import PhotoSyncPanel from "@/components/PhotoSyncPanel";
+import ProgressGallery from "@/components/ProgressGallery";
+import ActivityLogPanel, { ActivityIcon, type ActivityLogPage } from "@/components/ActivityLogPanel";
+import WeightHistoryTable, { type HistoryEntry } from "@/components/WeightHistoryTable";
+import {
+  isDisplayUnit,
+  type DisplayUnit,
+  type DisplayWeight,
+  type WeightUnit,
+} from "@shared/units";
+import { photoUrl } from "@shared/photos";
 import { 
   Plus, 
   TrendingUp, 
@@ -27,12 +42,14 @@ import {
   Activity,
   Camera,
   Upload,
-  Trash2,
   Calendar,
-  Edit,
   Images,
   Link,
-  Unlink
+  Unlink,
+  Target,
+  Download,
+  CheckCircle2,
+  Settings
 } from "lucide-react";
 
 interface WeightEntry {
@@ -41,23 +58,87 @@ interface WeightEntry {
   weight: string;
   unit: string;
   entryType: string;
+  weightGrams: number;
+  // The weight in the user's display unit
+  display: DisplayWeight;
   photoPath?: string;
   notes?: string;
   recordedAt: string;
   createdAt: string;
 }
 
-interface ActivityLog {
+interface WeightEntryPage {
+  entries: WeightEntry[];
+  nextCursor: string | null;
+  total: number;
+}
+
+interface PhotoDetection {
   id: number;
-  userId: string;
-  action: string;
-  description: string;
-  metadata?: any;
-  createdAt: string;
+  photoPath: string;
+  detectedWeight: string | null;
+  unit: string | null;
+  confidence: string | null;
+  expiresAt: string;
+}
+
+interface Goal {
+  id: number;
+  startWeight: string;
+  targetWeight: string;
+  targetDate: string;
+  unit: string;
+  status: "active" | "achieved" | "abandoned";
+  achievedAt?: string;
+  progress: {
+    startWeight: DisplayWeight;
+    targetWeight: DisplayWeight;
+    currentWeight: DisplayWeight | null;
+    progressPercent: number;
+    rateUnit: WeightUnit;
+    requiredWeeklyRate: number | null;
+    actualWeeklyRate: number | null;
+    projectedCompletionDate: string | null;
+    onTrack: boolean;
+  };
+}
+
+interface WeightTrend {
+  unit: WeightUnit;
+  series: Array<{ entryId: number; recordedAt: string; weight: number; trend: number }>;
+  currentTrend: DisplayWeight | null;
+  weeklyRate: number | null;
+  rateUnit: WeightUnit;
+  deltas: Array<{ days: number; change: number | null }>;
+}
+
+type ChartMetric = "weight" | "bodyFatPercent" | "muscleMassGrams" | "waterPercent" | "boneMassGrams" | "bmi";
+
+interface MetricSeries {
+  metric: ChartMetric;
+  unit: string;
+  series: Array<{ entryId: number; recordedAt: string; value: number; trend: number }>;
+}
+
+const CHART_METRICS: { value: ChartMetric; label: string }[] = [
+  { value: "weight", label: "Weight" },
+  { value: "bodyFatPercent", label: "Body fat" },
+  { value: "muscleMassGrams", label: "Muscle mass" },
+  { value: "waterPercent", label: "Body water" },
+  { value: "boneMassGrams", label: "Bone mass" },
+  { value: "bmi", label: "BMI" },
+];
+
+// Formats a timestamp for a datetime-local input, in the browser's timezone
+function toDateTimeLocal(value: string) {
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
 }
 
 export default function Home() {
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
+  const [, navigate] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isAddingWeight, setIsAddingWeight] = useState(false);
@@ -66,6 +147,19 @@ export default function Home() {
   const [weightUnit, setWeightUnit] = useState("lbs");
   const [notes, setNotes] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [detection, setDetection] = useState<PhotoDetection | null>(null);
+  const [confirmedWeight, setConfirmedWeight] = useState("");
+  const [confirmedUnit, setConfirmedUnit] = useState("lbs");
+  const [editingEntry, setEditingEntry] = useState<HistoryEntry | null>(null);
+  const [editWeight, setEditWeight] = useState("");
+  const [editUnit, setEditUnit] = useState("lbs");
+  const [editNotes, setEditNotes] = useState("");
+  const [editRecordedAt, setEditRecordedAt] = useState("");
+  const [isSettingGoal, setIsSettingGoal] = useState(false);
+  const [goalWeight, setGoalWeight] = useState("");
+  const [goalUnit, setGoalUnit] = useState("lbs");
+  const [goalDate, setGoalDate] = useState("");
+  const displayUnit: DisplayUnit = isDisplayUnit(user?.displayUnit) ? user.displayUnit : "lbs";
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -82,30 +176,51 @@ export default function Home() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  // Fetch weight entries
-  const { data: weightEntries = [], isLoading: weightsLoading } = useQuery<WeightEntry[]>({
+  // Fetch the latest page of weight entries (the history table pages through the rest)
+  const { data: entriesPage } = useQuery<WeightEntryPage>({
     queryKey: ["/api/weight-entries"],
     retry: false,
   });
+  const weightEntries = entriesPage?.entries ?? [];
+
+  // Fetch smoothed trend (in the user's display unit)
+  const { data: trend } = useQuery<WeightTrend>({
+    queryKey: ["/api/analytics/trend"],
+    retry: false,
+  });
+
+  // Body-composition metrics come from smart scales; weight uses the trend above
+  const [chartMetric, setChartMetric] = useState<ChartMetric>("weight");
+  const { data: metricSeries } = useQuery<MetricSeries>({
+    queryKey: ["/api/analytics/body-composition", chartMetric],
+    enabled: chartMetric !== "weight",
+    retry: false,
+  });
 
-  // Fetch activity logs
-  const { data: activityLogs = [], isLoading: activityLoading } = useQuery<ActivityLog[]>({
+  // Fetch the latest activity (the Activity tab pages through the rest)
+  const { data: activityPage, isLoading: activityLoading } = useQuery<ActivityLogPage>({
     queryKey: ["/api/activity-logs"],
     retry: false,
   });
+  const activityLogs = activityPage?.logs ?? [];
+
+  // Fetch goals (with server-computed progress)
+  const { data: goals = [] } = useQuery<Goal[]>({
+    queryKey: ["/api/goals"],
+    retry: false,
+  });
 
   // Add weight entry mutation
   const addWeightMutation = useMutation({
     mutationFn: async (data: { weight: string; unit: string; notes?: string }) => {
-      return await apiRequest("/api/weight-entries", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-      });
+      return await apiRequest("POST", "/api/weight-entries", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-photos"] });
       setIsAddingWeight(false);
       setNewWeight("");
       setNotes("");
@@ -128,30 +243,79 @@ export default function Home() {
       }
       toast({
         title: "Error",
-        description: "Failed to add weight entry",
+        description: errorMessage(error),
         variant: "destructive",
       });
     },
   });
+  // Shown under the weight input, e.g. when it is out of range
+  const addWeightError = fieldError(addWeightMutation.error, "weight");
 
-  // Upload photo mutation
+  // Upload photo mutation - detects the weight, which the user then reviews
   const uploadPhotoMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append("image", file);
-      return await apiRequest("/api/upload-weight-photo", {
+
+      const response = await fetch("/api/upload-weight-photo", {
         method: "POST",
         body: formData,
+        credentials: "include",
       });
+
+      await throwIfResNotOk(response);
+      return (await response.json()) as { detection: PhotoDetection; message: string };
     },
     onSuccess: (data) => {
+      setDetection(data.detection);
+      setConfirmedWeight(data.detection.detectedWeight ?? "");
+      setConfirmedUnit(data.detection.unit ?? weightUnit);
+      if (!data.detection.detectedWeight) {
+        toast({
+          title: "Weight not detected",
+          description: "We couldn't read the scale. Please enter the weight shown in the photo.",
+        });
+      }
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        // Rate limits and the daily quota say when to try again
+        description: error instanceof ApiError && error.status === 429 ? error.detail : "Failed to upload photo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Confirm (or correct) a detected weight, creating the weight entry
+  const confirmDetectionMutation = useMutation({
+    mutationFn: async (data: { id: number; weight: string; unit: string }) => {
+      return await apiRequest("POST", `/api/photo-detections/${data.id}/confirm`, {
+        weight: data.weight,
+        unit: data.unit,
+      });
+    },
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
-      setIsUploadingPhoto(false);
-      setSelectedFile(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-photos"] });
+      handleUploadDialogChange(false);
       toast({
         title: "Success",
-        description: `Photo uploaded! Detected weight: ${data.detectedWeight} lbs`,
+        description: `Weight entry saved: ${confirmedWeight} ${confirmedUnit}`,
       });
     },
     onError: (error) => {
@@ -168,7 +332,171 @@ export default function Home() {
       }
       toast({
         title: "Error",
-        description: "Failed to upload photo",
+        description: "Failed to save weight entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Discard a detection without saving it
+  const discardDetectionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/photo-detections/${id}`);
+    },
+    onSuccess: () => {
+      handleUploadDialogChange(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to discard photo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Edit weight entry mutation
+  const updateWeightMutation = useMutation({
+    mutationFn: async (data: { id: number; weight: string; unit: string; notes: string | null; recordedAt: string }) => {
+      const { id, ...updates } = data;
+      return await apiRequest("PATCH", `/api/weight-entries/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-photos"] });
+      setEditingEntry(null);
+      toast({
+        title: "Success",
+        description: "Weight entry updated successfully!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update weight entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Display unit preference mutation
+  const updateDisplayUnitMutation = useMutation({
+    mutationFn: async (unit: DisplayUnit) => {
+      return await apiRequest("PATCH", "/api/user/preferences", { displayUnit: unit });
+    },
+    onSuccess: () => {
+      // Weights come back from the server already converted
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/body-composition"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-photos"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update display unit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Set goal mutation
+  const createGoalMutation = useMutation({
+    mutationFn: async (data: { targetWeight: string; unit: string; targetDate: string }) => {
+      return await apiRequest("POST", "/api/goals", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      setIsSettingGoal(false);
+      setGoalWeight("");
+      setGoalDate("");
+      toast({
+        title: "Success",
+        description: "Goal set. Good luck!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to set goal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Abandon goal mutation
+  const abandonGoalMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("PATCH", `/api/goals/${id}`, { status: "abandoned" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to abandon goal",
         variant: "destructive",
       });
     },
@@ -183,7 +511,11 @@ export default function Home() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/body-composition"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/progress-photos"] });
       toast({
         title: "Success",
         description: "Weight entry deleted successfully!",
@@ -223,16 +555,148 @@ export default function Home() {
     uploadPhotoMutation.mutate(selectedFile);
   };
 
+  const handleConfirmDetection = () => {
+    if (!detection || !confirmedWeight) return;
+    confirmDetectionMutation.mutate({
+      id: detection.id,
+      weight: confirmedWeight,
+      unit: confirmedUnit,
+    });
+  };
+
+  // Unconfirmed detections are left to expire on the server
+  function handleUploadDialogChange(open: boolean) {
+    setIsUploadingPhoto(open);
+    if (!open) {
+      setSelectedFile(null);
+      setDetection(null);
+      setConfirmedWeight("");
+    }
+  }
+
+  const handleEditWeight = (entry: HistoryEntry) => {
+    setEditingEntry(entry);
+    setEditWeight(parseFloat(entry.weight).toString());
+    setEditUnit(entry.unit);
+    setEditNotes(entry.notes ?? "");
+    setEditRecordedAt(toDateTimeLocal(entry.recordedAt));
+  };
+
+  const handleUpdateWeight = () => {
+    if (!editingEntry || !editWeight || !editRecordedAt) return;
+    updateWeightMutation.mutate({
+      id: editingEntry.id,
+      weight: editWeight,
+      unit: editUnit,
+      notes: editNotes || null,
+      recordedAt: new Date(editRecordedAt).toISOString(),
+    });
+  };
+
+  const handleSetGoal = () => {
+    if (!goalWeight || !goalDate) return;
+    createGoalMutation.mutate({
+      targetWeight: goalWeight,
+      unit: goalUnit,
+      targetDate: new Date(goalDate).toISOString(),
+    });
+  };
+
   const handleDeleteWeight = (id: number) => {
     if (confirm("Are you sure you want to delete this weight entry?")) {
       deleteWeightMutation.mutate(id);
     }
   };
 
+  const activeGoal = goals.find((goal) => goal.status === "active");
+  const chartLabel = CHART_METRICS.find((metric) => metric.value === chartMetric)!.label;
   const currentWeight = weightEntries[0];
-  const previousWeight = weightEntries[1];
-  const weightTrend = currentWeight && previousWeight ? 
-    parseFloat(currentWeight.weight) - parseFloat(previousWeight.weight) : 0;
+  // Smoothed change over the last week, so one noisy weigh-in doesn't flip the arrow
+  const weightTrend = trend?.weeklyRate ?? 0;
+
+  const photoUploadForm = detection ? (
+    <div className="space-y-4">
+      <img
+        src={photoUrl(detection.photoPath, "large")}
+        alt="Scale photo"
+        className="w-full max-h-48 object-contain rounded-lg bg-gray-100 dark:bg-gray-800"
+      />
+      {detection.detectedWeight ? (
+        <p className="text-sm text-muted-foreground">
+          Detected {detection.detectedWeight} {detection.unit ?? ""}
+          {detection.confidence && ` (${Math.round(parseFloat(detection.confidence) * 100)}% confidence)`}.
+          Check it against the photo and correct it if needed.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          We couldn't read the scale display. Enter the weight shown in the photo.
+        </p>
+      )}
+      <div className="grid grid-cols-3 gap-2">
+        <div className="col-span-2">
+          <Label htmlFor="detected-weight">Weight</Label>
+          <Input
+            id="detected-weight"
+            type="number"
+            step="0.1"
+            placeholder="Enter weight"
+            value={confirmedWeight}
+            onChange={(e) => setConfirmedWeight(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="detected-unit">Unit</Label>
+          <Select value={confirmedUnit} onValueChange={setConfirmedUnit}>
+            <SelectTrigger id="detected-unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lbs">lbs</SelectItem>
+              <SelectItem value="kg">kg</SelectItem>
+              <SelectItem value="st">st</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          onClick={() => discardDetectionMutation.mutate(detection.id)}
+          disabled={discardDetectionMutation.isPending || confirmDetectionMutation.isPending}
+          className="flex-1"
+        >
+          Discard
+        </Button>
+        <Button
+          onClick={handleConfirmDetection}
+          disabled={!confirmedWeight || confirmDetectionMutation.isPending}
+          className="flex-1"
+        >
+          {confirmDetectionMutation.isPending ? "Saving..." : "Confirm Weight"}
+        </Button>
+      </div>
+    </div>
+  ) : (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="photo">Select scale photo</Label>
+        <Input
+          id="photo"
+          type="file"
+          accept="image/*"
+          onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+        />
+      </div>
+      <Button 
+        onClick={handlePhotoUpload}
+        disabled={!selectedFile || uploadPhotoMutation.isPending}
+        className="w-full"
+      >
+        <Upload className="h-4 w-4 mr-2" />
+        {uploadPhotoMutation.isPending ? "Detecting..." : "Upload & Detect Weight"}
+      </Button>
+    </div>
+  );
 
   if (authLoading) {
     return (
@@ -265,14 +729,37 @@ export default function Home() {
               </p>
             </div>
           </div>
-          <Button
-            onClick={() => window.location.href = "/api/logout"}
-            variant="outline"
-            className="flex items-center space-x-2"
-          >
-            <LogOut className="h-4 w-4" />
-            <span>Logout</span>
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Select
+              value={displayUnit}
+              onValueChange={(unit) => updateDisplayUnitMutation.mutate(unit as DisplayUnit)}
+            >
+              <SelectTrigger className="w-36" aria-label="Display unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lbs">Pounds (lbs)</SelectItem>
+                <SelectItem value="kg">Kilograms (kg)</SelectItem>
+                <SelectItem value="st_lbs">Stones (st lb)</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => navigate("/settings")}
+              variant="outline"
+              size="icon"
+              aria-label="Settings"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => window.location.href = "/api/logout"}
+              variant="outline"
+              className="flex items-center space-x-2"
+            >
+              <LogOut className="h-4 w-4" />
+              <span>Logout</span>
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -294,11 +781,15 @@ export default function Home() {
 
         {/* Navigation Tabs */}
         <Tabs defaultValue="dashboard" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="dashboard" className="flex items-center space-x-2">
               <Scale className="w-4 h-4" />
               <span>Dashboard</span>
             </TabsTrigger>
+            <TabsTrigger value="progress" className="flex items-center space-x-2">
+              <Camera className="w-4 h-4" />
+              <span>Progress</span>
+            </TabsTrigger>
             <TabsTrigger value="photos" className="flex items-center space-x-2">
               <Images className="w-4 h-4" />
               <span>Google Photos</span>
@@ -320,7 +811,7 @@ export default function Home() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {currentWeight ? `${currentWeight.weight} ${currentWeight.unit}` : "No data"}
+                {currentWeight ? currentWeight.display.label : "No data"}
               </div>
               {weightTrend !== 0 && (
                 <p className={`text-xs flex items-center ${
@@ -331,7 +822,16 @@ export default function Home() {
                   ) : (
                     <TrendingDown className="h-3 w-3 mr-1" />
                   )}
-                  {Math.abs(weightTrend).toFixed(1)} lbs from last entry
+                  {Math.abs(weightTrend).toFixed(1)} {trend?.rateUnit} per week (trend)
+                </p>
+              )}
+              {trend && trend.deltas.some((delta) => delta.change !== null) && (
+                <p className="text-xs text-muted-foreground">
+                  {trend.deltas
+                    .filter((delta) => delta.change !== null)
+                    .map((delta) => `${delta.days}d: ${delta.change! > 0 ? "+" : ""}${delta.change!.toFixed(1)}`)
+                    .join(" · ")}{" "}
+                  {trend.rateUnit}
                 </p>
               )}
             </CardContent>
@@ -343,7 +843,7 @@ export default function Home() {
               <Calendar className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{weightEntries.length}</div>
+              <div className="text-2xl font-bold">{entriesPage?.total ?? 0}</div>
               <p className="text-xs text-muted-foreground">
                 Weight tracking entries
               </p>
@@ -356,7 +856,7 @@ export default function Home() {
               <Activity className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{activityLogs.length}</div>
+              <div className="text-2xl font-bold">{activityPage?.total ?? 0}</div>
               <p className="text-xs text-muted-foreground">
                 Actions logged
               </p>
@@ -364,6 +864,126 @@ export default function Home() {
           </Card>
         </div>
 
+        {/* Goal */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium flex items-center space-x-2">
+              <Target className="h-4 w-4" />
+              <span>Goal</span>
+            </CardTitle>
+            <Dialog open={isSettingGoal} onOpenChange={setIsSettingGoal}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  {activeGoal ? "Change Goal" : "Set Goal"}
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Set Goal Weight</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="goal-weight">Target weight</Label>
+                    <Input
+                      id="goal-weight"
+                      type="number"
+                      step="0.1"
+                      placeholder="Enter target weight"
+                      value={goalWeight}
+                      onChange={(e) => setGoalWeight(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="goal-unit">Unit</Label>
+                    <Select value={goalUnit} onValueChange={setGoalUnit}>
+                      <SelectTrigger id="goal-unit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="lbs">lbs</SelectItem>
+                        <SelectItem value="kg">kg</SelectItem>
+                        <SelectItem value="st">st</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="goal-date">Target date</Label>
+                    <Input
+                      id="goal-date"
+                      type="date"
+                      value={goalDate}
+                      onChange={(e) => setGoalDate(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    onClick={handleSetGoal}
+                    disabled={!goalWeight || !goalDate || createGoalMutation.isPending}
+                    className="w-full"
+                  >
+                    {createGoalMutation.isPending ? "Saving..." : "Set Goal"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </CardHeader>
+          <CardContent>
+            {activeGoal ? (
+              <div className="space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <div className="text-2xl font-bold">
+                    {activeGoal.progress.targetWeight.label}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    by {new Date(activeGoal.targetDate).toLocaleDateString()}
+                  </p>
+                </div>
+                <Progress value={activeGoal.progress.progressPercent} />
+                <p className="text-xs text-muted-foreground">
+                  {activeGoal.progress.progressPercent}% of the way from {activeGoal.progress.startWeight.label}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Needed per week</p>
+                    <p className="font-medium">
+                      {activeGoal.progress.requiredWeeklyRate !== null
+                        ? `${activeGoal.progress.requiredWeeklyRate > 0 ? "+" : ""}${activeGoal.progress.requiredWeeklyRate} ${activeGoal.progress.rateUnit}`
+                        : "—"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Your trend per week</p>
+                    <p className="font-medium">
+                      {activeGoal.progress.actualWeeklyRate !== null
+                        ? `${activeGoal.progress.actualWeeklyRate > 0 ? "+" : ""}${activeGoal.progress.actualWeeklyRate} ${activeGoal.progress.rateUnit}`
+                        : "Not enough data"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Projected</p>
+                    <p className={`font-medium ${activeGoal.progress.onTrack ? "text-green-600" : "text-red-600"}`}>
+                      {activeGoal.progress.projectedCompletionDate
+                        ? new Date(activeGoal.progress.projectedCompletionDate).toLocaleDateString()
+                        : "Not on course"}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => abandonGoalMutation.mutate(activeGoal.id)}
+                  disabled={abandonGoalMutation.isPending}
+                >
+                  Abandon goal
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No active goal. Set a target weight and date to see your projected progress.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Quick Actions */}
         <div className="flex flex-col sm:flex-row gap-4">
           <Dialog open={isAddingWeight} onOpenChange={setIsAddingWeight}>
@@ -387,7 +1007,9 @@ export default function Home() {
                     placeholder="Enter weight"
                     value={newWeight}
                     onChange={(e) => setNewWeight(e.target.value)}
+                    aria-invalid={!!addWeightError}
                   />
+                  {addWeightError && <p className="text-xs text-red-600 mt-1">{addWeightError}</p>}
                 </div>
                 <div>
                   <Label htmlFor="unit">Unit</Label>
@@ -398,6 +1020,7 @@ export default function Home() {
                     <SelectContent>
                       <SelectItem value="lbs">lbs</SelectItem>
                       <SelectItem value="kg">kg</SelectItem>
+                      <SelectItem value="st">st</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -421,7 +1044,7 @@ export default function Home() {
             </DialogContent>
           </Dialog>
 
-          <Dialog open={isUploadingPhoto} onOpenChange={setIsUploadingPhoto}>
+          <Dialog open={isUploadingPhoto} onOpenChange={handleUploadDialogChange}>
             <DialogTrigger asChild>
               <Button variant="outline" className="flex-1 flex items-center space-x-2">
                 <Camera className="h-4 w-4" />
@@ -430,39 +1053,75 @@ export default function Home() {
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Upload Scale Photo</DialogTitle>
+                <DialogTitle>{detection ? "Review Detected Weight" : "Upload Scale Photo"}</DialogTitle>
               </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="photo">Select scale photo</Label>
-                  <Input
-                    id="photo"
-                    type="file"
-                    accept="image/*"
-                    onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
-                  />
-                </div>
-                <Button 
-                  onClick={handlePhotoUpload}
-                  disabled={!selectedFile || uploadPhotoMutation.isPending}
-                  className="w-full"
-                >
-                  <Upload className="h-4 w-4 mr-2" />
-                  {uploadPhotoMutation.isPending ? "Uploading..." : "Upload & Detect Weight"}
-                </Button>
-              </div>
+              {photoUploadForm}
             </DialogContent>
           </Dialog>
+
+          <ImportWeightsDialog
+            onImported={() => {
+              queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+            }}
+          />
+
+          {/* Plain navigation so the browser streams the download to disk */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex-1 flex items-center space-x-2">
+                <Download className="h-4 w-4" />
+                <span>Export Data</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem asChild>
+                <a href="/api/export?format=zip" download>Everything, with photos (ZIP)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href="/api/export?format=json" download>All data (JSON)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href="/api/export?format=csv" download>Weight entries (CSV)</a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
 
         {/* Weight Chart */}
-        {weightEntries.length > 0 && (
+        {trend && trend.series.length > 0 && (
           <Card>
-            <CardHeader>
-              <CardTitle>Weight Progress</CardTitle>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>{chartMetric === "weight" ? "Weight" : chartLabel} Progress</CardTitle>
+              <Select value={chartMetric} onValueChange={(value) => setChartMetric(value as ChartMetric)}>
+                <SelectTrigger className="w-40 h-9" aria-label="Chart metric">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHART_METRICS.map((metric) => (
+                    <SelectItem key={metric.value} value={metric.value}>
+                      {metric.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
-              <WeightChart entries={weightEntries} />
+              {chartMetric === "weight" ? (
+                <WeightChart
+                  points={trend.series.map(({ recordedAt, weight, trend }) => ({ recordedAt, value: weight, trend }))}
+                  unit={trend.unit}
+                  goalWeight={activeGoal?.progress.targetWeight.value}
+                />
+              ) : metricSeries && metricSeries.series.length > 0 ? (
+                <WeightChart points={metricSeries.series} unit={metricSeries.unit} label={chartLabel} />
+              ) : (
+                <p className="text-muted-foreground text-center py-8">
+                  {metricSeries ? `No ${chartLabel.toLowerCase()} readings yet. They arrive with smart scale data.` : "Loading..."}
+                </p>
+              )}
             </CardContent>
           </Card>
         )}
@@ -472,48 +1131,76 @@ export default function Home() {
           {/* Weight Entries */}
           <Card>
             <CardHeader>
-              <CardTitle>Recent Weight Entries</CardTitle>
+              <CardTitle>Weight History</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              {weightsLoading ? (
-                Array.from({ length: 3 }).map((_, i) => (
-                  <Skeleton key={i} className="h-16" />
-                ))
-              ) : weightEntries.length === 0 ? (
-                <p className="text-muted-foreground text-center py-8">
-                  No weight entries yet. Add your first entry!
-                </p>
-              ) : (
-                weightEntries.slice(0, 5).map((entry) => (
-                  <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                    <div className="flex items-center space-x-3">
-                      {entry.entryType === "photo" ? (
-                        <Camera className="h-5 w-5 text-blue-600" />
-                      ) : (
-                        <Scale className="h-5 w-5 text-green-600" />
-                      )}
-                      <div>
-                        <p className="font-medium">{entry.weight} {entry.unit}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {new Date(entry.recordedAt).toLocaleDateString()}
-                          {entry.notes && ` • ${entry.notes}`}
-                        </p>
-                      </div>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDeleteWeight(entry.id)}
-                      disabled={deleteWeightMutation.isPending}
-                    >
-                      <Trash2 className="h-4 w-4 text-red-600" />
-                    </Button>
-                  </div>
-                ))
-              )}
+              <WeightHistoryTable
+                onEdit={handleEditWeight}
+                onDelete={handleDeleteWeight}
+                isDeleting={deleteWeightMutation.isPending}
+              />
             </CardContent>
           </Card>
 
+          {/* Edit Weight Entry */}
+          <Dialog open={!!editingEntry} onOpenChange={(open) => !open && setEditingEntry(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Edit Weight Entry</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="edit-weight">Weight</Label>
+                  <Input
+                    id="edit-weight"
+                    type="number"
+                    step="0.1"
+                    value={editWeight}
+                    onChange={(e) => setEditWeight(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-unit">Unit</Label>
+                  <Select value={editUnit} onValueChange={setEditUnit}>
+                    <SelectTrigger id="edit-unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="lbs">lbs</SelectItem>
+                      <SelectItem value="kg">kg</SelectItem>
+                      <SelectItem value="st">st</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="edit-recorded-at">Recorded at</Label>
+                  <Input
+                    id="edit-recorded-at"
+                    type="datetime-local"
+                    max={toDateTimeLocal(new Date().toISOString())}
+                    value={editRecordedAt}
+                    onChange={(e) => setEditRecordedAt(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-notes">Notes (optional)</Label>
+                  <Textarea
+                    id="edit-notes"
+                    value={editNotes}
+                    onChange={(e) => setEditNotes(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={handleUpdateWeight}
+                  disabled={!editWeight || !editRecordedAt || updateWeightMutation.isPending}
+                  className="w-full"
+                >
+                  {updateWeightMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
           {/* Activity Feed */}
           <Card>
             <CardHeader>
@@ -531,7 +1218,9 @@ export default function Home() {
               ) : (
                 activityLogs.slice(0, 5).map((log) => (
                   <div key={log.id} className="flex items-start space-x-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                    <Activity className="h-5 w-5 text-blue-600 mt-0.5" />
+                    <div className="mt-0.5">
+                      <ActivityIcon action={log.action} />
+                    </div>
                     <div className="flex-1">
                       <p className="text-sm">{log.description}</p>
                       <p className="text-xs text-muted-foreground">
@@ -576,7 +1265,9 @@ export default function Home() {
                             placeholder="Enter weight"
                             value={newWeight}
                             onChange={(e) => setNewWeight(e.target.value)}
+                            aria-invalid={!!addWeightError}
                           />
+                          {addWeightError && <p className="text-xs text-red-600 mt-1">{addWeightError}</p>}
                         </div>
                         <div>
                           <Label htmlFor="unit">Unit</Label>
@@ -587,6 +1278,7 @@ export default function Home() {
                             <SelectContent>
                               <SelectItem value="lbs">Pounds (lbs)</SelectItem>
                               <SelectItem value="kg">Kilograms (kg)</SelectItem>
+                              <SelectItem value="st">Stones (st)</SelectItem>
                             </SelectContent>
                           </Select>
                         </div>
@@ -610,7 +1302,7 @@ export default function Home() {
                     </DialogContent>
                   </Dialog>
 
-                  <Dialog open={isUploadingPhoto} onOpenChange={setIsUploadingPhoto}>
+                  <Dialog open={isUploadingPhoto} onOpenChange={handleUploadDialogChange}>
                     <DialogTrigger asChild>
                       <Button variant="outline" className="flex-1 flex items-center space-x-2">
                         <Camera className="h-4 w-4" />
@@ -619,27 +1311,9 @@ export default function Home() {
                     </DialogTrigger>
                     <DialogContent>
                       <DialogHeader>
-                        <DialogTitle>Upload Scale Photo</DialogTitle>
+                        <DialogTitle>{detection ? "Review Detected Weight" : "Upload Scale Photo"}</DialogTitle>
                       </DialogHeader>
-                      <div className="space-y-4">
-                        <div>
-                          <Label htmlFor="photo">Select scale photo</Label>
-                          <Input
-                            id="photo"
-                            type="file"
-                            accept="image/*"
-                            onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
-                          />
-                        </div>
-                        <Button 
-                          onClick={handlePhotoUpload}
-                          disabled={!selectedFile || uploadPhotoMutation.isPending}
-                          className="w-full"
-                        >
-                          <Upload className="h-4 w-4 mr-2" />
-                          {uploadPhotoMutation.isPending ? "Uploading..." : "Upload & Detect Weight"}
-                        </Button>
-                      </div>
+                      {photoUploadForm}
                     </DialogContent>
                   </Dialog>
                 </div>
@@ -647,6 +1321,11 @@ export default function Home() {
             </Card>
           </TabsContent>
 
+          {/* Progress Photos Tab */}
+          <TabsContent value="progress" className="space-y-6 mt-6">
+            <ProgressGallery displayUnit={displayUnit} entries={weightEntries} />
+          </TabsContent>
+
           {/* Google Photos Tab */}
           <TabsContent value="photos" className="space-y-6 mt-6">
             <GooglePhotosTab />
@@ -658,47 +1337,11 @@ export default function Home() {
               <CardHeader>
                 <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white flex items-center space-x-2">
                   <Activity className="w-5 h-5" />
-                  <span>Recent Activity</span>
+                  <span>Activity Log</span>
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {activityLoading ? (
-                  <div className="space-y-3">
-                    {Array.from({ length: 3 }).map((_, i) => (
-                      <div key={i} className="flex items-center space-x-3">
-                        <Skeleton className="h-8 w-8 rounded-full" />
-                        <div className="flex-1 space-y-2">
-                          <Skeleton className="h-4 w-3/4" />
-                          <Skeleton className="h-3 w-1/2" />
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                ) : activityLogs.length === 0 ? (
-                  <p className="text-gray-500 dark:text-gray-400 text-center py-8">
-                    No recent activity. Add your first weight entry to get started!
-                  </p>
-                ) : (
-                  <div className="space-y-3">
-                    {activityLogs.map((log) => (
-                      <div key={log.id} className="flex items-start space-x-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                        <div className="flex-shrink-0">
-                          {log.action === 'weight_entry' && <Plus className="h-5 w-5 text-green-500" />}
-                          {log.action === 'photo_upload' && <Camera className="h-5 w-5 text-blue-500" />}
-                          {log.action === 'weight_delete' && <Trash2 className="h-5 w-5 text-red-500" />}
-                        </div>
-                        <div className="flex-1">
-                          <p className="text-sm font-medium text-gray-900 dark:text-white">
-                            {log.description}
-                          </p>
-                          <p className="text-xs text-gray-500 dark:text-gray-400">
-                            {new Date(log.createdAt).toLocaleDateString()} at {new Date(log.createdAt).toLocaleTimeString()}
-                          </p>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <ActivityLogPanel />
               </CardContent>
             </Card>
           </TabsContent>
@@ -708,13 +1351,33 @@ export default function Home() {
   );
 }
 
+interface GooglePhoto {
+  id: string;
+  baseUrl: string;
+  filename?: string;
+  mediaMetadata?: { creationTime?: string };
+  // Already turned into a weight entry
+  imported?: boolean;
+}
+
+interface GooglePhotosResponse {
+  photos: GooglePhoto[];
+  connected: boolean;
+  needsAuth: boolean;
+}
+
+interface GooglePhotosImportResult {
+  summary: { total: number; imported: number; review: number; duplicates: number; unreadable: number; failed: number };
+}
+
 // Google Photos Tab Component
 function GooglePhotosTab() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   // Fetch Google Photos
-  const { data: photosData, isLoading: photosLoading } = useQuery({
+  const { data: photosData, isLoading: photosLoading } = useQuery<GooglePhotosResponse>({
     queryKey: ["/api/google-photos"],
     refetchInterval: 30000, // Refetch every 30 seconds
   });
@@ -757,6 +1420,7 @@ function GooglePhotosTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/google-photos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/photo-sync"] });
       toast({
         title: "Success",
         description: "Google Photos disconnected successfully",
@@ -782,6 +1446,56 @@ function GooglePhotosTab() {
     },
   });
 
+  // Read the weight off each selected scale photo
+  const importPhotosMutation = useMutation({
+    mutationFn: async (mediaItemIds: string[]) => {
+      const response = await apiRequest("POST", "/api/google-photos/import", { mediaItemIds });
+      return (await response.json()) as GooglePhotosImportResult;
+    },
+    onSuccess: ({ summary }) => {
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/google-photos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trend"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/photo-detections"] });
+      const skipped = [
+        summary.review && `${summary.review} to review`,
+        summary.duplicates && `${summary.duplicates} already imported`,
+        summary.unreadable && `${summary.unreadable} unreadable`,
+        summary.failed && `${summary.failed} failed`,
+      ].filter(Boolean);
+      toast({
+        title: summary.imported > 0 ? "Photos imported" : "Nothing imported",
+        description: `Imported ${summary.imported} of ${summary.total} photos${skipped.length ? ` (${skipped.join(", ")})` : ""}`,
+        variant: summary.imported > 0 || summary.review > 0 ? "default" : "destructive",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to import photos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]));
+  };
+
   return (
     <div className="space-y-6">
       {/* Connection Status */}
@@ -831,12 +1545,36 @@ function GooglePhotosTab() {
         </CardContent>
       </Card>
 
+      <PhotoSyncPanel />
+
       {/* Photos Grid */}
       <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
         <CardHeader>
-          <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">
-            Recent Photos (Last 30 Days)
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+              Recent Photos (Last 30 Days)
+            </CardTitle>
+            {photosData?.connected && (
+              <Button
+                size="sm"
+                onClick={() => importPhotosMutation.mutate(selectedIds)}
+                disabled={selectedIds.length === 0 || importPhotosMutation.isPending}
+                className="flex items-center space-x-2"
+              >
+                <Scale className="w-4 h-4" />
+                <span>
+                  {importPhotosMutation.isPending
+                    ? "Reading scales..."
+                    : `Import ${selectedIds.length || ""} weigh-in${selectedIds.length === 1 ? "" : "s"}`}
+                </span>
+              </Button>
+            )}
+          </div>
+          {photosData?.connected && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Select photos of your scale to record their weights on the day they were taken.
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           {photosLoading ? (
@@ -857,28 +1595,40 @@ function GooglePhotosTab() {
             </div>
           ) : (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-              {photosData?.photos?.map((photo: any) => (
-                <div key={photo.id} className="relative group">
-                  <img
-                    src={photo.baseUrl || `${photo.baseUrl}=w300-h300-c`}
-                    alt={photo.filename}
-                    className="w-full aspect-square object-cover rounded-lg hover:opacity-90 transition-opacity cursor-pointer"
-                    onClick={() => window.open(photo.baseUrl, '_blank')}
-                  />
-                  <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all rounded-lg flex items-center justify-center">
-                    <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                      <Button size="sm" variant="secondary">
-                        View
-                      </Button>
+              {photosData?.photos?.map((photo) => {
+                const selectable = photosData.connected && !photo.imported;
+                const selected = selectedIds.includes(photo.id);
+                return (
+                  <div key={photo.id} className="relative group">
+                    <img
+                      src={photo.baseUrl || `${photo.baseUrl}=w300-h300-c`}
+                      alt={photo.filename}
+                      className={`w-full aspect-square object-cover rounded-lg hover:opacity-90 transition-opacity cursor-pointer ${selected ? "ring-4 ring-blue-500" : ""}`}
+                      onClick={() => (selectable ? toggleSelected(photo.id) : window.open(photo.baseUrl, '_blank'))}
+                    />
+                    <div className="pointer-events-none absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all rounded-lg flex items-center justify-center">
+                      <div className="pointer-events-auto opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button size="sm" variant="secondary" onClick={() => window.open(photo.baseUrl, '_blank')}>
+                          View
+                        </Button>
+                      </div>
+                    </div>
+                    {selected && (
+                      <CheckCircle2 className="absolute top-2 left-2 w-6 h-6 text-white fill-blue-500" />
+                    )}
+                    {photo.imported && (
+                      <Badge variant="secondary" className="absolute top-2 right-2">
+                        Imported
+                      </Badge>
+                    )}
+                    <div className="absolute bottom-2 left-2 text-xs text-white bg-black bg-opacity-50 px-2 py-1 rounded">
+                      {photo.mediaMetadata?.creationTime && 
+                        new Date(photo.mediaMetadata.creationTime).toLocaleDateString()
+                      }
                     </div>
                   </div>
-                  <div className="absolute bottom-2 left-2 text-xs text-white bg-black bg-opacity-50 px-2 py-1 rounded">
-                    {photo.mediaMetadata?.creationTime && 
-                      new Date(photo.mediaMetadata.creationTime).toLocaleDateString()
-                    }
-                  </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </CardContent>
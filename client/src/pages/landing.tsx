@@ -1,8 +1,25 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import PasswordSignInDialog from "@/components/PasswordSignInDialog";
 import { Scale, Camera, TrendingDown, BarChart3, Target, Calendar } from "lucide-react";
 
 export default function Landing() {
+  const [signInOpen, setSignInOpen] = useState(false);
+  const { data: auth } = useQuery<{ provider: string }>({
+    queryKey: ["/api/auth/provider"],
+  });
+
+  // Built-in accounts sign in here; other providers redirect to their own page
+  const signIn = () => {
+    if (auth?.provider === "local") {
+      setSignInOpen(true);
+    } else {
+      window.location.href = '/api/login';
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
       {/* Header */}
@@ -15,7 +32,7 @@ export default function Landing() {
               </div>
               <h1 className="text-xl font-bold text-gray-900 dark:text-white">WeightWise</h1>
             </div>
-            <Button onClick={() => window.location.href = '/api/login'}>
+            <Button onClick={signIn}>
               Sign In
             </Button>
           </div>
@@ -36,7 +53,7 @@ export default function Landing() {
           <Button 
             size="lg" 
             className="text-lg px-8 py-3"
-            onClick={() => window.location.href = '/api/login'}
+            onClick={signIn}
           >
             Start Tracking Your Weight
           </Button>
@@ -146,13 +163,15 @@ export default function Landing() {
           <Button 
             size="lg" 
             className="text-lg px-8 py-3"
-            onClick={() => window.location.href = '/api/login'}
+            onClick={signIn}
           >
             Get Started for Free
           </Button>
         </div>
       </main>
 
+      <PasswordSignInDialog open={signInOpen} onOpenChange={setSignInOpen} />
+
       {/* Footer */}
       <footer className="bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -0,0 +1,32 @@
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import ApiTokensCard from "@/components/ApiTokensCard";
+import WebhooksCard from "@/components/WebhooksCard";
+import { ArrowLeft, Settings as SettingsIcon } from "lucide-react";
+
+export default function Settings() {
+  const [, navigate] = useLocation();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <SettingsIcon className="h-8 w-8 text-blue-600" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Settings</h1>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/")} className="flex items-center space-x-2">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to dashboard</span>
+          </Button>
+        </div>
+      </div>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <ApiTokensCard />
+        <WebhooksCard />
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
+import { clientIp, rateLimit } from "../../../lib/rateLimit";
 import { safeQuery } from "../../../lib/safeQuery";
 
+const SUBSCRIBE_LIMIT = 5;
+const SUBSCRIBE_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
 export async function POST(req: NextRequest) {
+  const retryAfter = await rateLimit(`subscribe:ip:${clientIp(req)}`, SUBSCRIBE_LIMIT, SUBSCRIBE_WINDOW_MS);
+  if (retryAfter !== null) {
+    return NextResponse.json(
+      { error: "rate_limited" },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } },
+    );
+  }
+
   const body = await req.json();
   const email = typeof body.email === "string" ? body.email : "";
   if (!email.includes("@")) {
@@ -0,0 +1,32 @@
+import type { NextRequest } from "next/server";
+import { safeQuery } from "./safeQuery";
+
+// Counts `key` in the app's rate_limits table (see server/rateLimit.ts in
+// the app), so a limit holds across serverless instances. Returns how many
+// seconds to wait once `max` requests have been made in the current window,
+// or null while under it. If the database can't be reached requests are let
+// through, as in the app.
+export async function rateLimit(key: string, max: number, windowMs: number): Promise<number | null> {
+  const now = new Date();
+  const resetAt = new Date(now.getTime() + windowMs);
+  try {
+    // Both CASEs see the row as it was, so an ended window restarts as one
+    const [counter] = await safeQuery(
+      `INSERT INTO rate_limits (key, count, reset_at) VALUES ($1, 1, $2::timestamp)
+       ON CONFLICT (key) DO UPDATE SET
+         count = CASE WHEN rate_limits.reset_at <= $3::timestamp THEN 1 ELSE rate_limits.count + 1 END,
+         reset_at = CASE WHEN rate_limits.reset_at <= $3::timestamp THEN $2::timestamp ELSE rate_limits.reset_at END
+       RETURNING count, ceil(extract(epoch FROM rate_limits.reset_at - $3::timestamp))::int AS retry_after`,
+      [key, resetAt.toISOString(), now.toISOString()],
+    );
+    return counter.count <= max ? null : Math.max(1, counter.retry_after);
+  } catch (error) {
+    console.warn("Rate limit store unavailable, allowing request", error);
+    return null;
+  }
+}
+
+// The client's address as reported by the hosting proxy
+export function clientIp(req: NextRequest) {
+  return req.ip ?? req.headers.get("x-forwarded-for")?.split(",")[0].trim() ?? "unknown";
+}
@@ -0,0 +1,19 @@
+-- Canonical mass for weight entries and a per-user display unit.
+-- Run this before `npm run db:push` on databases that already have weight
+-- entries, so existing rows get weight_grams before it becomes NOT NULL.
+
+ALTER TABLE weight_entries ADD COLUMN IF NOT EXISTS weight_grams integer;
+
+UPDATE weight_entries
+SET weight_grams = ROUND(
+  weight * CASE unit
+    WHEN 'kg' THEN 1000
+    WHEN 'st' THEN 6350.29318
+    ELSE 453.59237
+  END
+)
+WHERE weight_grams IS NULL;
+
+ALTER TABLE weight_entries ALTER COLUMN weight_grams SET NOT NULL;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS display_unit varchar(6) DEFAULT 'lbs';
@@ -0,0 +1,29 @@
+-- Activity log actions become the activity_action enum (shared/activity.ts).
+-- Run this before `npm run db:push` on databases that already have activity
+-- logs: push can't convert the varchar column on its own. The cast fails if
+-- any row holds an action missing from the enum; fix or delete those first.
+
+DO $$ BEGIN
+  CREATE TYPE activity_action AS ENUM (
+    'weight_entry',
+    'weight_edit',
+    'weight_delete',
+    'weight_import',
+    'photo_upload',
+    'scale_ingest',
+    'google_photos_import',
+    'progress_photo_upload',
+    'progress_photo_delete',
+    'goal_set',
+    'goal_achieved',
+    'data_export',
+    'api_token_created',
+    'api_token_revoked',
+    'api_token_used'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE activity_logs
+  ALTER COLUMN action SET DATA TYPE activity_action USING action::activity_action;
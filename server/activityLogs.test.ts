@@ -0,0 +1,117 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ActivityAction } from "@shared/activity";
+import type { ActivityLog } from "@shared/schema";
+import { startTestServer, type TestServer } from "./testing/harness";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server?.close();
+});
+
+let userId: string;
+let nextUser = 0;
+
+beforeEach(() => {
+  // A user of their own per test, so each starts with an empty log
+  userId = `activity-user-${++nextUser}`;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Writes a log as if at `at`
+async function logAt(at: string, action: ActivityAction, description: string) {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(at));
+  const log = await server.storage.createActivityLog({ userId, action, description });
+  vi.useRealTimers();
+  return log;
+}
+
+async function list(query: Record<string, string>) {
+  const res = await server.request(`/api/activity-logs?${new URLSearchParams(query)}`, { userId });
+  expect(res.status).toBe(200);
+  return res.json() as Promise<{ logs: ActivityLog[]; nextCursor: string | null; total: number }>;
+}
+
+async function seed() {
+  return [
+    await logAt("2026-01-05T08:00:00Z", "weight_entry", "Manually added weight: 180.00 lbs"),
+    await logAt("2026-01-12T08:00:00Z", "photo_upload", "Uploaded a scale photo"),
+    await logAt("2026-01-19T08:00:00Z", "weight_entry", "Manually added weight: 178.50 lbs"),
+    await logAt("2026-01-26T08:00:00Z", "goal_set", "Set a goal of 170.00 lbs"),
+    await logAt("2026-02-02T08:00:00Z", "weight_delete", "Deleted weight entry: 178.50 lbs"),
+  ];
+}
+
+const ids = (logs: ActivityLog[]) => logs.map((log) => log.id);
+
+describe("GET /api/activity-logs", () => {
+  it("pages through the log newest first", async () => {
+    const logs = await seed();
+
+    const first = await list({ limit: "2" });
+    const second = await list({ limit: "2", cursor: first.nextCursor! });
+    const last = await list({ limit: "2", cursor: second.nextCursor! });
+
+    expect(ids(first.logs)).toEqual([logs[4].id, logs[3].id]);
+    expect(ids(second.logs)).toEqual([logs[2].id, logs[1].id]);
+    expect(ids(last.logs)).toEqual([logs[0].id]);
+    expect(last.nextCursor).toBeNull();
+    expect([first.total, second.total, last.total]).toEqual([5, 5, 5]);
+  });
+
+  it("filters by one or several actions", async () => {
+    const logs = await seed();
+
+    expect(ids((await list({ action: "weight_entry" })).logs)).toEqual([logs[2].id, logs[0].id]);
+    expect(ids((await list({ action: "goal_set,weight_delete" })).logs)).toEqual([logs[4].id, logs[3].id]);
+  });
+
+  it("filters by an inclusive date range", async () => {
+    const logs = await seed();
+
+    const page = await list({ from: "2026-01-12T08:00:00Z", to: "2026-01-26T08:00:00Z" });
+
+    expect(ids(page.logs)).toEqual([logs[3].id, logs[2].id, logs[1].id]);
+    expect(page.total).toBe(3);
+  });
+
+  it("searches descriptions, keeping the filters while paging", async () => {
+    const logs = await seed();
+
+    const first = await list({ q: "weight 178.50", limit: "1" });
+    const second = await list({ q: "weight 178.50", limit: "1", cursor: first.nextCursor! });
+
+    expect(ids(first.logs)).toEqual([logs[4].id]);
+    expect(ids(second.logs)).toEqual([logs[2].id]);
+    expect(second).toMatchObject({ nextCursor: null, total: 2 });
+  });
+
+  it("only lists the user's own activity", async () => {
+    await seed();
+
+    const res = await server.request("/api/activity-logs", { userId: "someone-else" });
+
+    expect(await res.json()).toMatchObject({ logs: [], total: 0 });
+  });
+
+  it.each([
+    // Keyed by the position of the unknown action in the list
+    ["an unknown action", { action: "weight_entry,hacked" }, "action.1"],
+    ["a limit over 200", { limit: "500" }, "limit"],
+    ["an invalid date", { from: "last tuesday" }, "from"],
+    ["a made-up cursor", { cursor: "not-a-cursor" }, "cursor"],
+  ])("rejects %s", async (_case, query, field) => {
+    const res = await server.request(`/api/activity-logs?${new URLSearchParams(query)}`, { userId });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: "validation_error", fieldErrors: { [field]: expect.any(Array) } });
+  });
+});
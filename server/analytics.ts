@@ -0,0 +1,144 @@
+import type { BodyCompositionMetric, WeightEntry } from "@shared/schema";
+import {
+  baseUnit,
+  deltaUnit,
+  formatWeight,
+  fromGrams,
+  type DisplayUnit,
+  type DisplayWeight,
+  type WeightUnit,
+} from "@shared/units";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Share of a new reading that goes into the trend per day elapsed
+const DAILY_SMOOTHING = 0.1;
+const DELTA_WINDOWS_DAYS = [7, 30, 90] as const;
+
+export interface TrendPoint {
+  entryId: number;
+  recordedAt: string;
+  // Raw reading and smoothed trend, both in `TrendAnalysis.unit`
+  weight: number;
+  trend: number;
+}
+
+export interface TrendAnalysis {
+  unit: WeightUnit;
+  series: TrendPoint[];
+  currentTrend: DisplayWeight | null;
+  // Trend change per week over the last 7 days, in `rateUnit`
+  weeklyRate: number | null;
+  rateUnit: WeightUnit;
+  // Trend change over each window, in `rateUnit`; null without data that old
+  deltas: Array<{ days: number; change: number | null }>;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Exponential moving average over irregularly spaced readings. The weight given
+// to each reading grows with the time since the previous one, so a week-long
+// gap isn't treated like a single day.
+function smoothWeights(points: Array<{ time: number; weight: number }>) {
+  const trend: number[] = [];
+  points.forEach((point, i) => {
+    if (i === 0) {
+      trend.push(point.weight);
+      return;
+    }
+    const days = Math.max(0, point.time - points[i - 1].time) / DAY_MS;
+    const alpha = 1 - Math.pow(1 - DAILY_SMOOTHING, Math.max(days, 1 / 24));
+    trend.push(trend[i - 1] + alpha * (point.weight - trend[i - 1]));
+  });
+  return trend;
+}
+
+// Trend value as of `time`: the last smoothed point at or before it
+function trendAt(points: Array<{ time: number; trend: number }>, time: number) {
+  let value: number | null = null;
+  for (const point of points) {
+    if (point.time > time) break;
+    value = point.trend;
+  }
+  return value;
+}
+
+// `entries` may be in any order; everything is computed in grams and converted
+// to the user's display unit at the end.
+export function computeTrend(
+  entries: WeightEntry[],
+  displayUnit: DisplayUnit,
+  now: Date = new Date(),
+): TrendAnalysis {
+  const unit = baseUnit(displayUnit);
+  const rateUnit = deltaUnit(displayUnit);
+
+  const sorted = entries
+    .filter((e) => e.recordedAt)
+    .sort((a, b) => a.recordedAt!.getTime() - b.recordedAt!.getTime());
+  const smoothed = smoothWeights(
+    sorted.map((e) => ({ time: e.recordedAt!.getTime(), weight: e.weightGrams })),
+  );
+  const points = sorted.map((e, i) => ({ time: e.recordedAt!.getTime(), trend: smoothed[i] }));
+
+  const latest = points.length ? points[points.length - 1] : null;
+  const changeSince = (days: number) => {
+    if (!latest) return null;
+    const before = trendAt(points, now.getTime() - days * DAY_MS);
+    return before === null ? null : latest.trend - before;
+  };
+
+  const weekChange = changeSince(7);
+
+  return {
+    unit,
+    series: sorted.map((e, i) => ({
+      entryId: e.id,
+      recordedAt: e.recordedAt!.toISOString(),
+      weight: round(fromGrams(e.weightGrams, unit)),
+      trend: round(fromGrams(smoothed[i], unit)),
+    })),
+    currentTrend: latest ? formatWeight(latest.trend, displayUnit) : null,
+    weeklyRate: weekChange === null ? null : round(fromGrams(weekChange, rateUnit)),
+    rateUnit,
+    deltas: DELTA_WINDOWS_DAYS.map((days) => {
+      const change = changeSince(days);
+      return { days, change: change === null ? null : round(fromGrams(change, rateUnit)) };
+    }),
+  };
+}
+
+export interface MetricSeries {
+  metric: BodyCompositionMetric;
+  // Display unit for masses, "%" for percentages and "" for BMI
+  unit: string;
+  series: Array<{ entryId: number; recordedAt: string; value: number; trend: number }>;
+}
+
+// One body-composition metric over time, smoothed like weight. Entries without
+// the metric are left out.
+export function computeMetricSeries(
+  entries: WeightEntry[],
+  metric: BodyCompositionMetric,
+  displayUnit: DisplayUnit,
+): MetricSeries {
+  const unit = baseUnit(displayUnit);
+  const isMass = metric === "muscleMassGrams" || metric === "boneMassGrams";
+
+  const readings = entries
+    .filter((e) => e.recordedAt && e[metric] !== null)
+    .map((e) => ({ entry: e, time: e.recordedAt!.getTime(), weight: Number(e[metric]) }))
+    .sort((a, b) => a.time - b.time);
+  const smoothed = smoothWeights(readings);
+  const toDisplay = (value: number) => round(isMass ? fromGrams(value, unit) : value, isMass ? 2 : 1);
+
+  return {
+    metric,
+    unit: isMass ? unit : metric === "bmi" ? "" : "%",
+    series: readings.map((r, i) => ({
+      entryId: r.entry.id,
+      recordedAt: r.entry.recordedAt!.toISOString(),
+      value: toDisplay(r.weight),
+      trend: toDisplay(smoothed[i]),
+    })),
+  };
+}
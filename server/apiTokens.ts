@@ -0,0 +1,75 @@
+import crypto from "crypto";
+import type { RequestHandler } from "express";
+import type { ApiToken, ApiTokenScope } from "@shared/schema";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+import { storage } from "./storage";
+
+// Marks tokens as ours, so secret scanners and users can recognise them
+const TOKEN_PREFIX = "ww_";
+const PREFIX_LENGTH = 10;
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The token the request was authenticated with, if any
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Tokens are 256 random bits, so a fast hash is enough to make a leaked
+// table useless
+export function hashApiToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// A new token with the hash and display prefix to store for it
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, PREFIX_LENGTH) };
+}
+
+// A token as shown to its owner, without the hash
+export function toApiTokenResponse({ tokenHash, ...apiToken }: ApiToken) {
+  return apiToken;
+}
+
+// Accepts `Authorization: Bearer <token>` with the given scope, and otherwise
+// falls back to the session check in `isAuthenticated`. Every use of a token
+// updates its last-used time and is written to the activity log.
+export function createApiTokenAuth(isAuthenticated: RequestHandler) {
+  return (scope: ApiTokenScope): RequestHandler =>
+    async (req, res, next) => {
+      const header = req.get("authorization");
+      if (!header?.startsWith("Bearer ")) {
+        return isAuthenticated(req, res, next);
+      }
+
+      try {
+        const apiToken = await storage.getApiTokenByHash(hashApiToken(header.slice("Bearer ".length).trim()));
+        if (!apiToken) {
+          throw new UnauthorizedError("Invalid API token");
+        }
+        if (!apiToken.scopes.includes(scope)) {
+          throw new ForbiddenError(`API token lacks the ${scope} scope`);
+        }
+
+        const path = req.originalUrl.split("?")[0];
+        await Promise.all([
+          storage.touchApiToken(apiToken.id, new Date()),
+          storage.createActivityLog({
+            userId: apiToken.userId,
+            action: "api_token_used",
+            description: `API token "${apiToken.name}" used for ${req.method} ${path}`,
+            metadata: { tokenId: apiToken.id, method: req.method, path },
+          }),
+        ]);
+
+        req.apiToken = apiToken;
+        req.userId = apiToken.userId;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+}
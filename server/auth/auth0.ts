@@ -1,43 +1,11 @@
 import Auth0Strategy from "passport-auth0";
 import passport from "passport";
-import session from "express-session";
 import type { Express, RequestHandler } from "express";
-import connectPg from "connect-pg-simple";
-import { storage } from "./storage";
+import { storage } from "../storage";
 import { google } from "googleapis";
-
-if (
-  !process.env.AUTH0_DOMAIN ||
-  !process.env.AUTH0_CLIENT_ID ||
-  !process.env.AUTH0_CLIENT_SECRET ||
-  !process.env.BASE_URL
-) {
-  throw new Error(
-    "Auth0 environment variables not provided. Please set AUTH0_DOMAIN, AUTH0_CLIENT_ID, AUTH0_CLIENT_SECRET, and BASE_URL"
-  );
-}
-
-export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
-    conString: process.env.DATABASE_URL,
-    createTableIfMissing: false,
-    ttl: sessionTtl,
-    tableName: "sessions",
-  });
-  return session({
-    secret: process.env.SESSION_SECRET!,
-    store: sessionStore,
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      httpOnly: true,
-      secure: true,
-      maxAge: sessionTtl,
-    },
-  });
-}
+import { logger } from "../logger";
+import type { AuthProvider } from "./index";
+import { getSession } from "./session";
 
 async function upsertUser(profile: any) {
   // Auth0 profile picture is in profile.picture
@@ -57,7 +25,7 @@ async function upsertUser(profile: any) {
   });
 }
 
-export async function setupAuth(app: Express) {
+async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(getSession());
   app.use(passport.initialize());
@@ -162,7 +130,7 @@ export async function setupAuth(app: Express) {
       const mediaItems = data.mediaItems || [];
       res.json(mediaItems);
     } catch (error: any) {
-      console.error("Error fetching Google Photos:", error);
+      logger.error("Error fetching Google Photos", { error });
       res
         .status(500)
         .json({
@@ -173,7 +141,7 @@ export async function setupAuth(app: Express) {
   });
 }
 
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
+const isAuthenticated: RequestHandler = async (req, res, next) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ message: "Unauthorized" });
   }
@@ -182,3 +150,23 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   // implement it.
   return next();
 };
+
+export function createAuth0AuthProvider(): AuthProvider {
+  if (
+    !process.env.AUTH0_DOMAIN ||
+    !process.env.AUTH0_CLIENT_ID ||
+    !process.env.AUTH0_CLIENT_SECRET ||
+    !process.env.BASE_URL
+  ) {
+    throw new Error(
+      "Auth0 environment variables not provided. Please set AUTH0_DOMAIN, AUTH0_CLIENT_ID, AUTH0_CLIENT_SECRET, and BASE_URL"
+    );
+  }
+
+  return {
+    name: "auth0",
+    setup: setupAuth,
+    isAuthenticated,
+    getUserId: (req) => (req.user as any)?.id,
+  };
+}
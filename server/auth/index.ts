@@ -0,0 +1,81 @@
+import type { Express, Request, RequestHandler } from "express";
+import { ForbiddenError, UnauthorizedError } from "../errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The signed-in user's id, set by the isAuthenticated middleware
+      userId?: string;
+    }
+  }
+}
+
+// A way of signing users in. Each provider keeps its own shape of `req.user`
+// and reports the app's user id for it, so routes never need to know which
+// provider is in use.
+export interface AuthProvider {
+  name: string;
+  // Installs sessions and the provider's /api/login, /api/logout and
+  // callback routes. Throws if the provider's configuration is missing.
+  setup(app: Express): Promise<void>;
+  // Responds 401 unless the request has a signed-in user
+  isAuthenticated: RequestHandler;
+  // The id of the signed-in user, as stored in users.id
+  getUserId(req: Request): string | undefined;
+}
+
+// Modules are imported on demand so only the selected provider's
+// dependencies and environment variables are needed
+const providers: Record<string, () => Promise<AuthProvider>> = {
+  replit: async () => (await import("./replit")).createReplitAuthProvider(),
+  auth0: async () => (await import("./auth0")).createAuth0AuthProvider(),
+  local: async () => (await import("./local")).createLocalAuthProvider(),
+  stub: async () => (await import("./stub")).createStubAuthProvider(),
+};
+
+export const authProviderNames = Object.keys(providers);
+
+// The provider named by AUTH_PROVIDER, Replit Auth by default
+export async function loadAuthProvider(name = process.env.AUTH_PROVIDER || "replit"): Promise<AuthProvider> {
+  const create = providers[name];
+  if (!create) {
+    throw new Error(`Unknown AUTH_PROVIDER "${name}". Use one of: ${authProviderNames.join(", ")}`);
+  }
+  const provider = await create();
+
+  return {
+    ...provider,
+    // Runs the provider's check, then records the normalized user id
+    isAuthenticated: (req, res, next) => {
+      provider.isAuthenticated(req, res, (error?: unknown) => {
+        if (error) return next(error);
+        const userId = provider.getUserId(req);
+        if (!userId) {
+          return next(new UnauthorizedError());
+        }
+        req.userId = userId;
+        next();
+      });
+    },
+  };
+}
+
+// The signed-in user's id. Only valid on routes behind isAuthenticated.
+export function getUserId(req: Request): string {
+  if (!req.userId) {
+    throw new Error("getUserId() called on a route without isAuthenticated");
+  }
+  return req.userId;
+}
+
+// ADMIN_USER_IDS lists, comma-separated, the users.id values allowed on the
+// /api/admin routes
+export function isAdmin(userId: string) {
+  const adminIds = (process.env.ADMIN_USER_IDS ?? "").split(",").map((id) => id.trim());
+  return adminIds.includes(userId);
+}
+
+// Responds 403 unless the signed-in user is an admin. Goes after isAuthenticated.
+export const requireAdmin: RequestHandler = (req, _res, next) => {
+  next(isAdmin(getUserId(req)) ? undefined : new ForbiddenError("Admins only"));
+};
@@ -0,0 +1,86 @@
+import crypto from "crypto";
+import passport from "passport";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import { passwordLoginSchema, passwordRegisterSchema, type User } from "@shared/schema";
+import { asyncHandler, ConflictError, UnauthorizedError } from "../errors";
+import { storage } from "../storage";
+import type { AuthProvider } from "./index";
+import { getDummyHash, hashPassword, verifyPassword } from "./password";
+import { getSession } from "./session";
+
+// Only the id lives in the session; the profile is read from storage per request
+interface LocalSessionUser {
+  id: string;
+}
+
+function signIn(req: Request, res: Response, next: NextFunction, user: User, status = 200) {
+  const sessionUser: LocalSessionUser = { id: user.id };
+  // passport regenerates the session here, so an earlier session id can't be reused
+  req.login(sessionUser, (error) => {
+    if (error) return next(error);
+    res.status(status).json(user);
+  });
+}
+
+async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  // The sign-in form is on the landing page
+  app.get("/api/login", (_req, res) => res.redirect("/"));
+
+  app.post("/api/auth/register", asyncHandler(async (req, res, next) => {
+    const { email, password, firstName, lastName } = passwordRegisterSchema.parse(req.body);
+    if (await storage.getUserByEmail(email)) {
+      throw new ConflictError("An account with this email already exists");
+    }
+
+    const user = await storage.createPasswordUser(
+      { id: crypto.randomUUID(), email, firstName, lastName },
+      await hashPassword(password),
+    );
+    signIn(req, res, next, user, 201);
+  }));
+
+  app.post("/api/auth/login", asyncHandler(async (req, res, next) => {
+    const { email, password } = passwordLoginSchema.parse(req.body);
+    const user = await storage.getUserByEmail(email);
+    const hash = user && (await storage.getPasswordHash(user.id));
+    // Unknown emails are checked against a dummy hash so the response time
+    // doesn't reveal which accounts exist
+    const valid = await verifyPassword(password, hash || (await getDummyHash()));
+    if (!user || !hash || !valid) {
+      throw new UnauthorizedError("Invalid email or password");
+    }
+    signIn(req, res, next, user);
+  }));
+
+  app.get("/api/logout", (req, res) => {
+    req.logout(() => {
+      req.session.destroy(() => res.redirect("/"));
+    });
+  });
+}
+
+const isAuthenticated: RequestHandler = (req, _res, next) => {
+  if (!req.isAuthenticated()) {
+    return next(new UnauthorizedError());
+  }
+  next();
+};
+
+// Email and password accounts kept in this app's own database, for running
+// without Replit or Auth0
+export function createLocalAuthProvider(): AuthProvider {
+  return {
+    name: "local",
+    setup: setupAuth,
+    isAuthenticated,
+    getUserId: (req) => (req.user as LocalSessionUser | undefined)?.id,
+  };
+}
@@ -0,0 +1,44 @@
+import crypto from "crypto";
+
+// scrypt cost parameters. They are stored with each hash, so raising them
+// later only affects new passwords.
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+function scrypt(password: string, salt: Buffer, keyBytes: number, n: number, r: number, p: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    // scrypt needs 128 * N * r bytes; Node's default limit is just below this
+    crypto.scrypt(password, salt, keyBytes, { N: n, r, p, maxmem: 256 * n * r }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+}
+
+// Hashes a password as "scrypt$N$r$p$salt$key", with salt and key in base64
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, KEY_BYTES, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+// Whether `password` matches a hash from hashPassword(). Hashes in any other
+// format never match.
+export async function verifyPassword(password: string, hash: string) {
+  const [scheme, n, r, p, salt, key] = hash.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length, Number(n), Number(r), Number(p));
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Compared against when an email is unknown, so a failed sign-in takes as
+// long whether or not the account exists
+let dummyHash: Promise<string> | undefined;
+export function getDummyHash() {
+  dummyHash ??= hashPassword(crypto.randomBytes(16).toString("hex"));
+  return dummyHash;
+}
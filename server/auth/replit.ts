@@ -2,16 +2,13 @@ import * as client from "openid-client";
 import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
-import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
-import connectPg from "connect-pg-simple";
-import { storage } from "./storage";
+import { storage } from "../storage";
 import { google } from 'googleapis';
-
-if (!process.env.REPLIT_DOMAINS) {
-  throw new Error("Environment variable REPLIT_DOMAINS not provided");
-}
+import { logger } from "../logger";
+import type { AuthProvider } from "./index";
+import { getSession } from "./session";
 
 const getOidcConfig = memoize(
   async () => {
@@ -23,28 +20,6 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
-    conString: process.env.DATABASE_URL,
-    createTableIfMissing: false,
-    ttl: sessionTtl,
-    tableName: "sessions",
-  });
-  return session({
-    secret: process.env.SESSION_SECRET!,
-    store: sessionStore,
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      httpOnly: true,
-      secure: true,
-      maxAge: sessionTtl,
-    },
-  });
-}
-
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
@@ -69,7 +44,7 @@ async function upsertUser(
 
 // Google Photos API setup (Photos Library API)
 
-export async function setupAuth(app: Express) {
+async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(getSession());
   app.use(passport.initialize());
@@ -171,13 +146,13 @@ export async function setupAuth(app: Express) {
       const mediaItems = data.mediaItems || [];
       res.json(mediaItems);
     } catch (error: any) {
-      console.error("Error fetching Google Photos:", error);
+      logger.error("Error fetching Google Photos", { error });
       res.status(500).json({ message: "Failed to fetch Google Photos", error: error.message });
     }
   });
 }
 
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
+const isAuthenticated: RequestHandler = async (req, res, next) => {
   const user = req.user as any;
 
   if (!req.isAuthenticated() || !user.expires_at) {
@@ -204,4 +179,18 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     res.status(401).json({ message: "Unauthorized" });
     return;
   }
-};
\ No newline at end of file
+};
+
+export function createReplitAuthProvider(): AuthProvider {
+  if (!process.env.REPLIT_DOMAINS) {
+    throw new Error("Environment variable REPLIT_DOMAINS not provided");
+  }
+
+  return {
+    name: "replit",
+    setup: setupAuth,
+    isAuthenticated,
+    // Replit's OpenID subject is the user id
+    getUserId: (req) => (req.user as any)?.claims?.sub,
+  };
+}
@@ -0,0 +1,41 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Cookie sessions shared by every provider that signs users in. Sessions are
+// kept in the sessions table, or in memory alongside STORAGE_PROVIDER=memory.
+export function getSession() {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("Environment variable SESSION_SECRET not provided");
+  }
+
+  let sessionStore: session.Store;
+  if (process.env.STORAGE_PROVIDER === "memory") {
+    const MemoryStore = createMemoryStore(session);
+    sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  } else {
+    const pgStore = connectPg(session);
+    sessionStore = new pgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: false,
+      ttl: SESSION_TTL_MS / 1000,
+      tableName: "sessions",
+    });
+  }
+
+  return session({
+    secret: process.env.SESSION_SECRET,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Self-hosted development usually runs over plain http
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+}
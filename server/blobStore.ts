@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface BlobInfo {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+// Where photo files live, addressed by flat keys such as "abc123.jpg". Local
+// disk for now; an S3-compatible bucket only needs another implementation.
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined when there is no such blob
+  get(key: string): Promise<StoredBlob | undefined>;
+  // Size and last change, or undefined when there is no such blob
+  stat(key: string): Promise<BlobInfo | undefined>;
+  // Every blob, in no particular order
+  list(): AsyncIterable<BlobInfo>;
+  // Missing blobs are ignored
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+// Keys are always a single path segment, so nothing outside the directory can
+// be named
+function checkKey(key: string) {
+  if (!key || key !== path.basename(key) || key.startsWith(".")) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  return key;
+}
+
+// One file per blob. The content type comes from the key's extension, since
+// files stored before keys had one can't record it.
+export class DiskBlobStore implements BlobStore {
+  constructor(readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async put(key: string, data: Buffer, _contentType: string) {
+    await fs.promises.writeFile(path.join(this.dir, checkKey(key)), data);
+  }
+
+  async get(key: string) {
+    try {
+      const data = await fs.promises.readFile(path.join(this.dir, checkKey(key)));
+      return { data, contentType: CONTENT_TYPES[path.extname(key)] ?? "application/octet-stream" };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async stat(key: string) {
+    try {
+      const stats = await fs.promises.stat(path.join(this.dir, checkKey(key)));
+      return stats.isFile() ? { key, size: stats.size, modifiedAt: stats.mtime } : undefined;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async *list() {
+    const dir = await fs.promises.opendir(this.dir);
+    for await (const entry of dir) {
+      if (!entry.isFile() || entry.name.startsWith(".")) continue;
+      const info = await this.stat(entry.name);
+      // Deleted since the directory was read
+      if (info) yield info;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.promises.unlink(path.join(this.dir, checkKey(key))).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+}
+
+// Blobs held in process, a stand-in for remote storage in tests
+export class MemoryBlobStore implements BlobStore {
+  private blobs = new Map<string, StoredBlob & { modifiedAt: Date }>();
+
+  async put(key: string, data: Buffer, contentType: string) {
+    this.blobs.set(checkKey(key), { data: Buffer.from(data), contentType, modifiedAt: new Date() });
+  }
+
+  async get(key: string) {
+    const blob = this.blobs.get(checkKey(key));
+    return blob && { data: Buffer.from(blob.data), contentType: blob.contentType };
+  }
+
+  async stat(key: string) {
+    const blob = this.blobs.get(checkKey(key));
+    return blob && { key, size: blob.data.length, modifiedAt: blob.modifiedAt };
+  }
+
+  async *list() {
+    for (const [key, blob] of Array.from(this.blobs)) {
+      yield { key, size: blob.data.length, modifiedAt: blob.modifiedAt };
+    }
+  }
+
+  async delete(key: string) {
+    this.blobs.delete(checkKey(key));
+  }
+}
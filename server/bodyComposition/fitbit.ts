@@ -0,0 +1,55 @@
+import { BadRequestError } from "../errors";
+import type { ScaleAdapter } from "./index";
+
+interface FitbitWeightLog {
+  logId?: number;
+  // Local date and time of the weigh-in, "2024-03-05" and "07:31:12"
+  date: string;
+  time?: string;
+  weight: number;
+  fat?: number;
+  bmi?: number;
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^\d{2}:\d{2}(:\d{2})?$/;
+
+// Fitbit's body weight log, `{ weight: [...] }`. Weights come back in the unit
+// of the Accept-Language the caller used, which the payload doesn't record, so
+// it is taken from the `unit` option and defaults to kilograms.
+export const fitbitAdapter: ScaleAdapter = {
+  vendor: "fitbit",
+  parse(payload: any, options) {
+    if (!Array.isArray(payload?.weight)) {
+      throw new BadRequestError("Expected a Fitbit weight log with a weight array");
+    }
+    const unit = options.unit ?? "kg";
+
+    return payload.weight.map((log: FitbitWeightLog) => {
+      const errors: string[] = [];
+      if (typeof log?.date !== "string" || !DATE.test(log.date)) {
+        errors.push(`Unrecognised date: ${String(log?.date ?? "")}`);
+      }
+      if (log?.time !== undefined && (typeof log.time !== "string" || !TIME.test(log.time))) {
+        errors.push(`Unrecognised time: ${String(log.time)}`);
+      }
+      if (typeof log?.weight !== "number") {
+        errors.push(`Unrecognised weight: ${String(log?.weight ?? "")}`);
+      }
+      // Taken as server local time, like dates without a zone in file imports
+      const recordedAt = new Date(`${log?.date}T${log?.time ?? "00:00:00"}`);
+      if (errors.length === 0 && isNaN(recordedAt.getTime())) {
+        errors.push(`Unrecognised date: ${log.date}`);
+      }
+      if (errors.length > 0) return { errors };
+
+      return {
+        recordedAt,
+        weight: log.weight,
+        unit,
+        bodyFatPercent: log.fat,
+        bmi: log.bmi,
+      };
+    });
+  },
+};
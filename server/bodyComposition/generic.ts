@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { weightUnits } from "@shared/units";
+import { BadRequestError } from "../errors";
+import type { ScaleAdapter } from "./index";
+
+// Our own format, for scales and bridges without an adapter of their own:
+// `{ measurements: [{ recordedAt, weight, unit?, bodyFatPercent?, ... }] }`.
+// Masses are in the measurement's unit.
+const measurementSchema = z.object({
+  recordedAt: z.coerce.date({ errorMap: () => ({ message: "recordedAt must be a date" }) }),
+  weight: z.number({ invalid_type_error: "weight must be a number", required_error: "weight is required" }),
+  unit: z.enum(weightUnits).optional(),
+  bodyFatPercent: z.number().optional(),
+  muscleMass: z.number().optional(),
+  waterPercent: z.number().optional(),
+  boneMass: z.number().optional(),
+  bmi: z.number().optional(),
+});
+
+export const genericAdapter: ScaleAdapter = {
+  vendor: "generic",
+  parse(payload: any, options) {
+    if (!Array.isArray(payload?.measurements)) {
+      throw new BadRequestError("Expected an object with a measurements array");
+    }
+
+    return payload.measurements.map((item: unknown) => {
+      const parsed = measurementSchema.safeParse(item);
+      if (!parsed.success) {
+        return { errors: parsed.error.issues.map((issue) => issue.message) };
+      }
+      return { ...parsed.data, unit: parsed.data.unit ?? options.unit ?? "kg" };
+    });
+  },
+};
@@ -0,0 +1,113 @@
+import { weightEntryInsertSchema, type InsertWeightEntry, type ScaleIngestQuery } from "@shared/schema";
+import { toGrams, type WeightUnit } from "@shared/units";
+import { BadRequestError } from "../errors";
+import { MAX_IMPORT_ROWS, markDuplicateEntries, type ImportPlan, type ImportRowResult } from "../weightImport";
+import { fitbitAdapter } from "./fitbit";
+import { genericAdapter } from "./generic";
+import { withingsAdapter } from "./withings";
+
+// One weigh-in as a scale reported it. Masses are in `unit`.
+export interface ScaleMeasurement {
+  recordedAt: Date;
+  weight: number;
+  unit: WeightUnit;
+  bodyFatPercent?: number;
+  muscleMass?: number;
+  waterPercent?: number;
+  boneMass?: number;
+  bmi?: number;
+}
+
+// A measurement, or why a record in the payload couldn't be read
+export type ParsedScaleRecord = ScaleMeasurement | { errors: string[] };
+
+export interface ScaleAdapterOptions {
+  // Unit to assume when the payload doesn't say
+  unit?: WeightUnit;
+}
+
+// Turns one vendor's JSON into measurements, one result per record in the
+// payload. Throws when the payload as a whole isn't in the vendor's format.
+export interface ScaleAdapter {
+  vendor: string;
+  parse(payload: unknown, options: ScaleAdapterOptions): ParsedScaleRecord[];
+}
+
+const adapters: Record<string, ScaleAdapter> = Object.fromEntries(
+  [withingsAdapter, fitbitAdapter, genericAdapter].map((adapter) => [adapter.vendor, adapter]),
+);
+
+export const scaleVendors = Object.keys(adapters);
+
+export function getScaleAdapter(vendor: string): ScaleAdapter | undefined {
+  return adapters[vendor];
+}
+
+const massGrams = (value: number | undefined, unit: WeightUnit) =>
+  value === undefined ? undefined : Math.round(toGrams(value, unit));
+
+// Reads a vendor payload into scale entries, reporting on every record and
+// marking weigh-ins already stored as duplicates, like a file import
+export async function planScaleIngest(
+  userId: string,
+  adapter: ScaleAdapter,
+  payload: unknown,
+  query: ScaleIngestQuery,
+): Promise<ImportPlan> {
+  const records = adapter.parse(payload, { unit: query.unit });
+  if (records.length === 0) {
+    throw new BadRequestError("No measurements to ingest");
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestError(`Ingestion is limited to ${MAX_IMPORT_ROWS} measurements at a time`);
+  }
+
+  const report: ImportRowResult[] = [];
+  const candidates: Array<{ result: ImportRowResult; entry: InsertWeightEntry }> = [];
+
+  records.forEach((record, index) => {
+    const result: ImportRowResult = { row: index + 1, status: "invalid" };
+    report.push(result);
+    if ("errors" in record) {
+      result.errors = record.errors;
+      return;
+    }
+
+    const validated = weightEntryInsertSchema.safeParse({
+      userId,
+      weight: record.weight,
+      unit: record.unit,
+      entryType: "scale",
+      recordedAt: record.recordedAt,
+      bodyFatPercent: record.bodyFatPercent,
+      muscleMassGrams: massGrams(record.muscleMass, record.unit),
+      waterPercent: record.waterPercent,
+      boneMassGrams: massGrams(record.boneMass, record.unit),
+      bmi: record.bmi,
+    });
+    if (!validated.success) {
+      result.errors = validated.error.issues.map((issue) => issue.message);
+      return;
+    }
+
+    Object.assign(result, {
+      recordedAt: record.recordedAt.toISOString(),
+      weight: validated.data.weight,
+      unit: record.unit,
+    });
+    candidates.push({ result, entry: validated.data });
+  });
+
+  const isDuplicate = await markDuplicateEntries(userId, candidates.map((c) => c.entry));
+  const entries: InsertWeightEntry[] = [];
+  candidates.forEach(({ result, entry }, i) => {
+    if (isDuplicate[i]) {
+      result.status = "duplicate";
+      return;
+    }
+    result.status = "imported";
+    entries.push(entry);
+  });
+
+  return { report, entries };
+}
@@ -0,0 +1,75 @@
+import { BadRequestError } from "../errors";
+import type { ParsedScaleRecord, ScaleAdapter, ScaleMeasurement } from "./index";
+
+// Measure types in a Withings Getmeas response that we keep. Masses are in kg.
+const WEIGHT = 1;
+const FAT_RATIO = 6;
+const MUSCLE_MASS = 76;
+const HYDRATION = 77;
+const BONE_MASS = 88;
+
+// Groups with category 2 are goals the user set, not weigh-ins
+const CATEGORY_MEASUREMENT = 1;
+
+interface WithingsMeasure {
+  value: number;
+  type: number;
+  // Power of ten to apply to `value`
+  unit: number;
+}
+
+interface WithingsMeasureGroup {
+  grpid?: number;
+  // Unix seconds
+  date: number;
+  category?: number;
+  measures: WithingsMeasure[];
+}
+
+function measureGroups(payload: any): WithingsMeasureGroup[] {
+  // Either the whole API response or just its `body`
+  const body = payload?.body ?? payload;
+  if (!Array.isArray(body?.measuregrps)) {
+    throw new BadRequestError("Expected a Withings Getmeas response with body.measuregrps");
+  }
+  return body.measuregrps;
+}
+
+function parseGroup(group: WithingsMeasureGroup): ParsedScaleRecord {
+  if (typeof group?.date !== "number" || !Array.isArray(group.measures)) {
+    return { errors: ["Measure group needs a date and measures"] };
+  }
+
+  const values = new Map<number, number>();
+  for (const measure of group.measures) {
+    if (typeof measure?.value === "number" && typeof measure.unit === "number") {
+      values.set(measure.type, measure.value * 10 ** measure.unit);
+    }
+  }
+  const weight = values.get(WEIGHT);
+  if (weight === undefined) {
+    return { errors: [group.grpid ? `Measure group ${group.grpid} has no weight` : "Measure group has no weight"] };
+  }
+
+  const hydration = values.get(HYDRATION);
+  const measurement: ScaleMeasurement = {
+    recordedAt: new Date(group.date * 1000),
+    weight,
+    unit: "kg",
+    bodyFatPercent: values.get(FAT_RATIO),
+    muscleMass: values.get(MUSCLE_MASS),
+    // Withings reports body water as a mass
+    waterPercent: hydration === undefined ? undefined : (hydration / weight) * 100,
+    boneMass: values.get(BONE_MASS),
+  };
+  return measurement;
+}
+
+export const withingsAdapter: ScaleAdapter = {
+  vendor: "withings",
+  parse(payload) {
+    return measureGroups(payload)
+      .filter((group) => (group?.category ?? CATEGORY_MEASUREMENT) === CATEGORY_MEASUREMENT)
+      .map(parseGroup);
+  },
+};
@@ -0,0 +1,16 @@
+// Time source and timer for background jobs, replaceable in tests
+export interface Clock {
+  now(): Date;
+  // Calls `callback` every `ms` until the returned function is called
+  every(ms: number, callback: () => void): () => void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  every(ms, callback) {
+    const timer = setInterval(callback, ms);
+    // Don't keep the process alive just for background jobs
+    timer.unref();
+    return () => clearInterval(timer);
+  },
+};
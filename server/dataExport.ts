@@ -0,0 +1,218 @@
+import archiver from "archiver";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { Writable } from "stream";
+import type { ActivityLog, ActivityLogFilters, ProgressPhoto, User, WeightEntry } from "@shared/schema";
+import { activityActionLabels } from "@shared/activity";
+import { photoFileName } from "@shared/photos";
+import { formatWeight, isDisplayUnit } from "@shared/units";
+import { storage } from "./storage";
+import { photoStore } from "./uploads";
+
+export const exportFormats = ["csv", "json", "zip"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+// Bumped when the layout of exported files changes
+const EXPORT_VERSION = 3;
+
+const CSV_COLUMNS = [
+  "id",
+  "recorded_at",
+  "weight",
+  "unit",
+  "weight_grams",
+  "display_weight",
+  "entry_type",
+  "notes",
+  "photo_path",
+  "created_at",
+  "body_fat_percent",
+  "muscle_mass_grams",
+  "water_percent",
+  "bone_mass_grams",
+  "bmi",
+] as const;
+
+const ACTIVITY_CSV_COLUMNS = ["id", "created_at", "action", "action_label", "description", "metadata"] as const;
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  zip: "application/zip",
+};
+
+export function exportFileName(format: ExportFormat, now: Date = new Date()) {
+  return `weightwise-export-${now.toISOString().slice(0, 10)}.${format}`;
+}
+
+export function activityExportFileName(now: Date = new Date()) {
+  return `weightwise-activity-${now.toISOString().slice(0, 10)}.csv`;
+}
+
+function csvField(value: unknown) {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Spreadsheets run text starting with these as a formula, so user-written
+  // text like notes could run one on whoever opens the export. A leading
+  // quote makes it plain text. Numbers are left alone.
+  if (typeof value !== "number" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* weightEntriesCsv(user: User, onEntry?: (entry: WeightEntry) => void) {
+  const displayUnit = isDisplayUnit(user.displayUnit) ? user.displayUnit : "lbs";
+  yield CSV_COLUMNS.join(",") + "\n";
+  for await (const entry of storage.streamWeightEntries(user.id)) {
+    onEntry?.(entry);
+    yield [
+      entry.id,
+      entry.recordedAt,
+      entry.weight,
+      entry.unit,
+      entry.weightGrams,
+      formatWeight(entry.weightGrams, displayUnit).label,
+      entry.entryType,
+      entry.notes,
+      entry.photoPath,
+      entry.createdAt,
+      entry.bodyFatPercent,
+      entry.muscleMassGrams,
+      entry.waterPercent,
+      entry.boneMassGrams,
+      entry.bmi,
+    ]
+      .map(csvField)
+      .join(",") + "\n";
+  }
+}
+
+async function* activityLogsCsv(userId: string, filters: ActivityLogFilters) {
+  yield ACTIVITY_CSV_COLUMNS.join(",") + "\n";
+  for await (const log of storage.streamActivityLogs(userId, filters)) {
+    yield [
+      log.id,
+      log.createdAt,
+      log.action,
+      activityActionLabels[log.action],
+      log.description,
+      log.metadata === null ? null : JSON.stringify(log.metadata),
+    ]
+      .map(csvField)
+      .join(",") + "\n";
+  }
+}
+
+// Writes `[item,item,...]` without holding the whole array in memory
+async function* jsonArray<T>(items: AsyncIterable<T>, onItem?: (item: T) => void) {
+  let first = true;
+  yield "[";
+  for await (const item of items) {
+    onItem?.(item);
+    yield (first ? "\n  " : ",\n  ") + JSON.stringify(item);
+    first = false;
+  }
+  yield first ? "]" : "\n]";
+}
+
+async function* fullJson(user: User) {
+  const goals = await storage.getGoals(user.id);
+  yield `{\n"version": ${EXPORT_VERSION},\n"exportedAt": ${JSON.stringify(new Date())},\n`;
+  yield `"user": ${JSON.stringify({ id: user.id, email: user.email, displayUnit: user.displayUnit })},\n`;
+  yield `"goals": ${JSON.stringify(goals)},\n"weightEntries": `;
+  yield* jsonArray(storage.streamWeightEntries(user.id));
+  yield `,\n"progressPhotos": `;
+  yield* jsonArray<ProgressPhoto>(storage.streamProgressPhotos(user.id));
+  yield `,\n"activityLogs": `;
+  yield* jsonArray<ActivityLog>(storage.streamActivityLogs(user.id));
+  yield "\n}\n";
+}
+
+async function writeZip(user: User, output: Writable) {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const done = pipeline(archive, output);
+  const counts = { weightEntries: 0, progressPhotos: 0, activityLogs: 0, goals: 0, photos: 0 };
+  const photoPaths = new Set<string>();
+  const missingPhotos: string[] = [];
+
+  // Entries are appended one after another, so each stream finishes (and the
+  // counts are filled in) before the next starts.
+  const appendStream = (source: AsyncIterable<string>, name: string) =>
+    new Promise<void>((resolve, reject) => {
+      const stream = Readable.from(source);
+      stream.once("end", resolve).once("error", reject);
+      archive.once("error", reject);
+      archive.append(stream, { name });
+    });
+
+  await appendStream(
+    weightEntriesCsv(user, (entry) => {
+      counts.weightEntries++;
+      if (entry.photoPath) photoPaths.add(entry.photoPath);
+    }),
+    "weight_entries.csv",
+  );
+  await appendStream(
+    jsonArray<ProgressPhoto>(storage.streamProgressPhotos(user.id), (photo) => {
+      counts.progressPhotos++;
+      photoPaths.add(photo.photoPath);
+    }),
+    "progress_photos.json",
+  );
+  await appendStream(
+    jsonArray<ActivityLog>(storage.streamActivityLogs(user.id), () => counts.activityLogs++),
+    "activity_logs.json",
+  );
+
+  const goals = await storage.getGoals(user.id);
+  counts.goals = goals.length;
+  archive.append(JSON.stringify(goals, null, 2), { name: "goals.json" });
+
+  const photoFiles: string[] = [];
+  for (const photoPath of Array.from(photoPaths)) {
+    const fileName = photoFileName(photoPath);
+    const photo = await photoStore.get(fileName);
+    if (!photo) {
+      missingPhotos.push(photoPath);
+      continue;
+    }
+    // One photo in memory at a time: wait until the archive has taken it
+    await new Promise((resolve, reject) => {
+      archive.once("entry", resolve).once("error", reject);
+      archive.append(photo.data, { name: `photos/${fileName}` });
+    });
+    photoFiles.push(`photos/${fileName}`);
+    counts.photos++;
+  }
+
+  const manifest = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: { id: user.id, email: user.email, displayUnit: user.displayUnit },
+    counts,
+    files: ["weight_entries.csv", "progress_photos.json", "activity_logs.json", "goals.json", ...photoFiles],
+    // Photos referenced by entries or progress photos whose files no longer exist
+    missingPhotos,
+  };
+  archive.append(JSON.stringify(manifest, null, 2), { name: "manifest.json" });
+
+  await archive.finalize();
+  await done;
+}
+
+// Streams the user's data to `output` in the requested format.
+export async function writeExport(user: User, format: ExportFormat, output: Writable) {
+  if (format === "zip") {
+    await writeZip(user, output);
+  } else if (format === "csv") {
+    await pipeline(Readable.from(weightEntriesCsv(user)), output);
+  } else {
+    await pipeline(Readable.from(fullJson(user)), output);
+  }
+}
+
+// Streams the user's activity log matching `filters` as CSV, oldest first.
+export async function writeActivityLogCsv(userId: string, filters: ActivityLogFilters, output: Writable) {
+  await pipeline(Readable.from(activityLogsCsv(userId, filters)), output);
+}
@@ -0,0 +1,139 @@
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from "express";
+import { ZodError } from "zod";
+import { logger } from "./logger";
+
+// Messages per field, keyed by the field's path, e.g. "weight" or "mapping.date"
+export type FieldErrors = Record<string, string[]>;
+
+// An error with a status and a machine-readable code, returned to the client
+// as `{ code, message, fieldErrors? }`. Anything else thrown from a route is
+// logged and answered with a generic 500.
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): { code: string; message: string; fieldErrors?: FieldErrors } {
+    return { code: this.code, message: this.message };
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    readonly fieldErrors: FieldErrors = {},
+  ) {
+    super(400, "validation_error", message);
+  }
+
+  // The first issue becomes the message, and every issue with a path is
+  // listed under its field
+  static fromZod(error: ZodError) {
+    const fieldErrors: FieldErrors = {};
+    for (const issue of error.issues) {
+      if (issue.path.length === 0) continue;
+      const field = issue.path.join(".");
+      (fieldErrors[field] ??= []).push(issue.message);
+    }
+    return new ValidationError(error.issues[0]?.message || "Invalid request", fieldErrors);
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), fieldErrors: this.fieldErrors };
+  }
+}
+
+// A request that is well-formed but can't be acted on as sent
+export class BadRequestError extends ApiError {
+  constructor(message: string) {
+    super(400, "bad_request", message);
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Unauthorized") {
+    super(401, "unauthorized", message);
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = "Forbidden") {
+    super(403, "forbidden", message);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "Not found") {
+    super(404, "not_found", message);
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(409, "conflict", message);
+  }
+}
+
+// Sent with a Retry-After header telling the client when to try again
+export class TooManyRequestsError extends ApiError {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number,
+    code = "rate_limited",
+  ) {
+    super(429, code, message);
+  }
+}
+
+// Lets a route handler throw or reject instead of answering errors itself;
+// whatever it throws goes to `errorHandler`
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+// Turns anything passed to next() into an ApiError response
+function toApiError(err: any): ApiError | null {
+  if (err instanceof ApiError) return err;
+  if (err instanceof ZodError) return ValidationError.fromZod(err);
+  // Errors from express.json() and multer carry their own client status
+  const status = err?.status ?? err?.statusCode;
+  if (typeof status === "number" && status >= 400 && status < 500) {
+    if (err.type === "entity.parse.failed") return new ApiError(400, "invalid_json", "Request body is not valid JSON");
+    if (err.type === "entity.too.large") return new ApiError(413, "payload_too_large", "Request body is too large");
+    return new ApiError(status, err.code ? String(err.code).toLowerCase() : "bad_request", err.message);
+  }
+  if (err?.name === "MulterError") {
+    return new ApiError(400, err.code.toLowerCase(), err.message);
+  }
+  return null;
+}
+
+// Final error middleware. Client errors are answered as thrown; anything else
+// is logged and hidden behind a generic message.
+export function errorHandler(): ErrorRequestHandler {
+  return (err, _req, res, next) => {
+    const apiError = toApiError(err);
+    if (!apiError) {
+      logger.error("Unhandled error", { error: err });
+    }
+    // Streaming responses can only be cut short
+    if (res.headersSent) {
+      return next(err);
+    }
+    if (apiError instanceof TooManyRequestsError) {
+      res.set("Retry-After", String(apiError.retryAfterSeconds));
+    }
+    res
+      .status(apiError?.status ?? 500)
+      .json(apiError ?? { code: "internal_error", message: "Something went wrong. Please try again." });
+  };
+}
@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, TEST_USER_ID, type TestServer } from "./testing/harness";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server?.close();
+});
+
+function send(method: string, urlPath: string, body: unknown, userId?: string) {
+  return server.request(urlPath, {
+    method,
+    userId,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const inAMonth = () => new Date(Date.now() + 30 * DAY).toISOString();
+
+async function createGoal(body: Record<string, unknown> = {}) {
+  const res = await send("POST", "/api/goals", {
+    startWeight: "200",
+    targetWeight: "180",
+    unit: "lbs",
+    targetDate: inAMonth(),
+    ...body,
+  });
+  expect(res.status).toBe(200);
+  return res.json();
+}
+
+const invalidWeights: [string, unknown, string][] = [
+  ["not a number", "abc", "must be a number"],
+  ["negative", -5, "must be positive"],
+  ["zero", "0", "must be positive"],
+  ["too large", 99999, "must be less than 1000"],
+];
+
+const invalidDates: [string, unknown, string][] = [
+  ["not a date", "next spring", "Target date must be a valid date"],
+  ["null", null, "Enter a target date"],
+  ["a boolean", true, "Enter a target date"],
+  ["in the past", "2020-01-01", "Target date can't be in the past"],
+];
+
+describe("POST /api/goals", () => {
+  it("accepts weights as numbers or numeric strings, stored to two places", async () => {
+    const goal = await createGoal({ startWeight: 200.456, targetWeight: "180" });
+
+    expect(goal).toMatchObject({ userId: TEST_USER_ID, startWeight: "200.46", targetWeight: "180.00", status: "active" });
+  });
+
+  it("starts from the latest weigh-in when no start weight is given", async () => {
+    await send("POST", "/api/weight-entries", { weight: "190.5" }, "weighed-in");
+
+    const goal = { targetWeight: "180", unit: "lbs", targetDate: inAMonth() };
+    const res = await send("POST", "/api/goals", goal, "weighed-in");
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).startWeight).toBe("190.50");
+  });
+
+  it("asks for a start weight when there are no weigh-ins", async () => {
+    const res = await send("POST", "/api/goals", { targetWeight: "180", targetDate: inAMonth() }, "new-user");
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ startWeight: ["Enter a start weight"] });
+  });
+
+  it.each(invalidWeights)("rejects a target weight that is %s", async (_case, targetWeight, message) => {
+    const res = await send("POST", "/api/goals", { startWeight: "200", targetWeight, targetDate: inAMonth() });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ targetWeight: [`Target weight ${message}`] });
+  });
+
+  it.each(invalidWeights)("rejects a start weight that is %s", async (_case, startWeight, message) => {
+    const res = await send("POST", "/api/goals", { startWeight, targetWeight: "180", targetDate: inAMonth() });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ startWeight: [`Start weight ${message}`] });
+  });
+
+  it.each(invalidDates)("rejects a target date that is %s", async (_case, targetDate, message) => {
+    const res = await send("POST", "/api/goals", { startWeight: "200", targetWeight: "180", targetDate });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ targetDate: [message] });
+  });
+
+  it("doesn't store a rejected goal or replace the active one", async () => {
+    const active = await createGoal();
+
+    await send("POST", "/api/goals", { startWeight: "200", targetWeight: "abc", targetDate: inAMonth() });
+
+    const goals = await server.storage.getGoals(TEST_USER_ID);
+    expect(goals.find((goal) => goal.id === active.id)?.status).toBe("active");
+    expect(goals.some((goal) => goal.targetWeight === "NaN")).toBe(false);
+  });
+});
+
+describe("PATCH /api/goals/:id", () => {
+  it("updates the target", async () => {
+    const goal = await createGoal();
+    const targetDate = new Date(Date.now() + 60 * DAY);
+
+    const res = await send("PATCH", `/api/goals/${goal.id}`, {
+      targetWeight: 175,
+      targetDate: targetDate.toISOString(),
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ targetWeight: "175.00", targetDate: targetDate.toISOString() });
+  });
+
+  it.each(invalidWeights)("rejects a target weight that is %s", async (_case, targetWeight, message) => {
+    const goal = await createGoal();
+
+    const res = await send("PATCH", `/api/goals/${goal.id}`, { targetWeight });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ targetWeight: [`Target weight ${message}`] });
+    expect((await server.storage.getGoal(goal.id, TEST_USER_ID))?.targetWeight).toBe("180.00");
+  });
+
+  it.each(invalidDates)("rejects a target date that is %s", async (_case, targetDate, message) => {
+    const goal = await createGoal();
+
+    const res = await send("PATCH", `/api/goals/${goal.id}`, { targetDate });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ targetDate: [message] });
+  });
+
+  it("returns 404 for another user's goal", async () => {
+    const goal = await createGoal();
+
+    const res = await send("PATCH", `/api/goals/${goal.id}`, { targetWeight: "150" }, "intruder");
+
+    expect(res.status).toBe(404);
+  });
+});
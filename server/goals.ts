@@ -0,0 +1,152 @@
+import type { Goal, WeightEntry } from "@shared/schema";
+import {
+  deltaUnit,
+  formatWeight,
+  fromGrams,
+  isWeightUnit,
+  toGrams,
+  type DisplayUnit,
+  type DisplayWeight,
+  type WeightUnit,
+} from "@shared/units";
+import { storage } from "./storage";
+import { webhookDispatcher } from "./webhooks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+// Entries from this window feed the actual trend
+const TREND_WINDOW_DAYS = 30;
+
+// Weights are in the user's display unit; rates are in `rateUnit`
+export interface GoalProgress {
+  startWeight: DisplayWeight;
+  targetWeight: DisplayWeight;
+  currentWeight: DisplayWeight | null;
+  // 0-100, how much of the distance from start to target has been covered
+  progressPercent: number;
+  rateUnit: WeightUnit;
+  // Change per week needed to hit the target date
+  requiredWeeklyRate: number | null;
+  // Change per week over the last 30 days, from a least-squares fit
+  actualWeeklyRate: number | null;
+  projectedCompletionDate: string | null;
+  onTrack: boolean;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+function goalGrams(goal: Goal) {
+  const unit = isWeightUnit(goal.unit) ? goal.unit : "lbs";
+  return {
+    start: toGrams(parseFloat(goal.startWeight), unit),
+    target: toGrams(parseFloat(goal.targetWeight), unit),
+  };
+}
+
+// Slope of weight over time per week, or null with too little data
+function weeklyTrend(points: Array<{ time: number; weight: number }>) {
+  if (points.length < 2) return null;
+  const meanT = points.reduce((s, p) => s + p.time, 0) / points.length;
+  const meanW = points.reduce((s, p) => s + p.weight, 0) / points.length;
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.time - meanT) * (p.weight - meanW);
+    den += (p.time - meanT) ** 2;
+  }
+  if (den === 0) return null;
+  return (num / den) * WEEK_MS;
+}
+
+export function isGoalReached(goal: Goal, currentGrams: number) {
+  const { start, target } = goalGrams(goal);
+  return target < start ? currentGrams <= target : currentGrams >= target;
+}
+
+// Works in grams internally, so entries and the goal may each be in any unit.
+export function computeGoalProgress(
+  goal: Goal,
+  entries: WeightEntry[],
+  displayUnit: DisplayUnit,
+  now: Date = new Date(),
+): GoalProgress {
+  const { start, target } = goalGrams(goal);
+  const rateUnit = deltaUnit(displayUnit);
+
+  const points = entries
+    .filter((e) => e.recordedAt)
+    .map((e) => ({ time: e.recordedAt!.getTime(), weight: e.weightGrams }))
+    .sort((a, b) => a.time - b.time);
+  const current = points.length ? points[points.length - 1].weight : null;
+
+  const distance = start - target;
+  const progressPercent =
+    current === null || distance === 0
+      ? 0
+      : Math.min(100, Math.max(0, ((start - current) / distance) * 100));
+
+  const weeksLeft = (goal.targetDate.getTime() - now.getTime()) / WEEK_MS;
+  const requiredWeeklyRate =
+    current === null || weeksLeft <= 0 ? null : (target - current) / weeksLeft;
+
+  const recent = points.filter((p) => p.time >= now.getTime() - TREND_WINDOW_DAYS * DAY_MS);
+  const actualWeeklyRate = weeklyTrend(recent);
+
+  // Project forward only while the trend is heading towards the target
+  let projectedCompletionDate: string | null = null;
+  if (current !== null && isGoalReached(goal, current)) {
+    projectedCompletionDate = now.toISOString();
+  } else if (current !== null && actualWeeklyRate && Math.sign(actualWeeklyRate) === Math.sign(target - current)) {
+    const weeks = (target - current) / actualWeeklyRate;
+    projectedCompletionDate = new Date(now.getTime() + weeks * WEEK_MS).toISOString();
+  }
+
+  const onTrack =
+    projectedCompletionDate !== null && new Date(projectedCompletionDate) <= goal.targetDate;
+
+  const toRate = (gramsPerWeek: number | null) =>
+    gramsPerWeek === null ? null : round(fromGrams(gramsPerWeek, rateUnit));
+
+  return {
+    startWeight: formatWeight(start, displayUnit),
+    targetWeight: formatWeight(target, displayUnit),
+    currentWeight: current === null ? null : formatWeight(current, displayUnit),
+    progressPercent: round(progressPercent, 1),
+    rateUnit,
+    requiredWeeklyRate: toRate(requiredWeeklyRate),
+    actualWeeklyRate: toRate(actualWeeklyRate),
+    projectedCompletionDate,
+    onTrack,
+  };
+}
+
+// Marks active goals as achieved once the latest weight reaches the target.
+// Call after anything that adds or changes weight entries.
+export async function markAchievedGoals(userId: string) {
+  const activeGoals = (await storage.getGoals(userId)).filter((g) => g.status === "active");
+  if (activeGoals.length === 0) return [];
+
+  const [latest] = await storage.getWeightEntries(userId, 1);
+  if (!latest) return [];
+
+  const achieved: Goal[] = [];
+  for (const goal of activeGoals) {
+    if (!isGoalReached(goal, latest.weightGrams)) continue;
+
+    const updated = await storage.updateGoal(goal.id, userId, {
+      status: "achieved",
+      achievedAt: new Date(),
+    });
+    if (!updated) continue;
+    achieved.push(updated);
+
+    await storage.createActivityLog({
+      userId,
+      action: "goal_achieved",
+      description: `Reached goal weight: ${goal.targetWeight} ${goal.unit}`,
+      metadata: { goalId: goal.id, entryId: latest.id },
+    });
+    await webhookDispatcher.emit(userId, "goal.achieved", { goal: updated, entryId: latest.id });
+  }
+  return achieved;
+}
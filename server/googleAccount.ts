@@ -0,0 +1,144 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import type { SessionData } from "express-session";
+import { OAuth2Client, type Credentials } from "google-auth-library";
+import { BadRequestError } from "./errors";
+import { logger } from "./logger";
+import { storage } from "./storage";
+import { decryptToken, encryptToken } from "./tokenCrypto";
+
+export const GOOGLE_PROVIDER = "google";
+
+// Google Photos API scopes
+export const GOOGLE_PHOTOS_SCOPES = [
+  'https://www.googleapis.com/auth/photoslibrary.readonly'
+];
+
+// A fresh client per user, so one user's credentials are never set on a
+// client another request is using
+export function createGoogleOAuthClient() {
+  return new OAuth2Client(
+    process.env.GOOGLE_CLIENT_ID || "mock-client-id",
+    process.env.GOOGLE_CLIENT_SECRET || "mock-client-secret",
+    process.env.GOOGLE_REDIRECT_URI || "http://localhost:5000/api/auth/google/callback"
+  );
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // The Google connect flow this session started, checked by the callback
+    googleOAuth?: { state: string; userId: string; expiresAt: number };
+  }
+}
+
+// How long the user has to finish connecting on Google's side
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Sessions come from the sign-in provider; stub authentication has none
+const sessionOf = (req: Request) => req.session as (Request["session"] & Partial<SessionData>) | undefined;
+
+// A random OAuth `state` for `userId` connecting their Google account,
+// remembered in their session for the callback to check
+export function createGoogleOAuthState(req: Request, userId: string) {
+  const session = sessionOf(req);
+  if (!session) {
+    throw new BadRequestError("Connecting Google Photos needs a signed-in session");
+  }
+  const state = crypto.randomBytes(24).toString("base64url");
+  session.googleOAuth = { state, userId, expiresAt: Date.now() + OAUTH_STATE_TTL_MS };
+  return state;
+}
+
+// Throws unless `state` is the one this session was given for `userId`.
+// Each state works once.
+export function checkGoogleOAuthState(req: Request, userId: string, state: unknown) {
+  const session = sessionOf(req);
+  const pending = session?.googleOAuth;
+  if (session) delete session.googleOAuth;
+
+  const expected = Buffer.from(pending?.state ?? "");
+  const actual = Buffer.from(typeof state === "string" ? state : "");
+  if (
+    !pending ||
+    pending.userId !== userId ||
+    pending.expiresAt < Date.now() ||
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    throw new BadRequestError("Google authorization expired or didn't come from this session. Try connecting again.");
+  }
+}
+
+// Encrypts and stores tokens from the OAuth callback or a refresh. Google only
+// sends a refresh token on first consent, so an existing one is kept otherwise.
+export async function saveGoogleTokens(userId: string, tokens: Credentials) {
+  if (!tokens.access_token) {
+    throw new Error("Google did not return an access token");
+  }
+
+  await storage.upsertConnectedAccount({
+    userId,
+    provider: GOOGLE_PROVIDER,
+    accessToken: encryptToken(tokens.access_token),
+    ...(tokens.refresh_token && { refreshToken: encryptToken(tokens.refresh_token) }),
+    ...(tokens.scope && { scope: tokens.scope }),
+    expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
+  });
+}
+
+// Google rejects refresh tokens the user has revoked or that have expired
+function isInvalidGrant(error: any) {
+  return error?.response?.data?.error === "invalid_grant";
+}
+
+// An authorised client for the user's Google account, with the access token
+// refreshed first if it has expired. Returns null when the user hasn't
+// connected an account or needs to connect it again.
+export async function getGoogleClient(userId: string): Promise<OAuth2Client | null> {
+  const account = await storage.getConnectedAccount(userId, GOOGLE_PROVIDER);
+  if (!account) return null;
+
+  const client = createGoogleOAuthClient();
+  client.setCredentials({
+    access_token: decryptToken(account.accessToken),
+    refresh_token: account.refreshToken ? decryptToken(account.refreshToken) : null,
+    expiry_date: account.expiresAt?.getTime() ?? null,
+    scope: account.scope ?? undefined,
+  });
+
+  const previousToken = client.credentials.access_token;
+  try {
+    // Refreshes when the token is expired or about to be
+    await client.getAccessToken();
+  } catch (error) {
+    if (isInvalidGrant(error) || !account.refreshToken) {
+      await storage.deleteConnectedAccount(userId, GOOGLE_PROVIDER);
+      return null;
+    }
+    throw error;
+  }
+
+  if (client.credentials.access_token !== previousToken) {
+    await saveGoogleTokens(userId, client.credentials);
+  }
+  return client;
+}
+
+// Revokes the user's grant with Google and forgets the tokens. Returns false
+// when no account was connected.
+export async function disconnectGoogle(userId: string) {
+  const account = await storage.getConnectedAccount(userId, GOOGLE_PROVIDER);
+  if (!account) return false;
+
+  // Revoking the refresh token also revokes access tokens issued from it
+  const token = decryptToken(account.refreshToken ?? account.accessToken);
+  try {
+    await createGoogleOAuthClient().revokeToken(token);
+  } catch (error) {
+    // Already revoked or expired; still remove it here
+    logger.error("Error revoking Google token", { error });
+  }
+
+  await storage.deleteConnectedAccount(userId, GOOGLE_PROVIDER);
+  return true;
+}
@@ -0,0 +1,91 @@
+import type { OAuth2Client } from "google-auth-library";
+
+const MEDIA_ITEMS_URL = "https://photoslibrary.googleapis.com/v1/mediaItems";
+const PAGE_SIZE = 100;
+// Stops a huge backlog from being listed in one go
+const MAX_LISTED_ITEMS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PhotosMediaItem {
+  id: string;
+  baseUrl: string;
+  mimeType?: string;
+  mediaMetadata?: { creationTime?: string };
+}
+
+// The parts of the Google Photos Library API the server uses. Background sync
+// and imports take this rather than an OAuth client, so they can be driven by
+// a fake library.
+export interface PhotosClient {
+  getMediaItem(id: string): Promise<PhotosMediaItem>;
+  // Photos created strictly after `since`, oldest first
+  listPhotosSince(since: Date): Promise<PhotosMediaItem[]>;
+  // Image bytes, scaled to fit within `maxSize` pixels
+  download(item: PhotosMediaItem, maxSize: number): Promise<Buffer>;
+}
+
+export function creationTime(item: PhotosMediaItem) {
+  const time = item.mediaMetadata?.creationTime ? new Date(item.mediaMetadata.creationTime) : null;
+  return time && !isNaN(time.getTime()) ? time : null;
+}
+
+// The API filters by calendar date only
+function toGoogleDate(date: Date) {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+export function createGooglePhotosClient(auth: OAuth2Client): PhotosClient {
+  return {
+    async getMediaItem(id) {
+      const { data } = await auth.request<PhotosMediaItem>({
+        url: `${MEDIA_ITEMS_URL}/${encodeURIComponent(id)}`,
+      });
+      return data;
+    },
+
+    async listPhotosSince(since) {
+      const items: PhotosMediaItem[] = [];
+      let pageToken: string | undefined;
+      do {
+        const { data } = await auth.request<{ mediaItems?: PhotosMediaItem[]; nextPageToken?: string }>({
+          url: `${MEDIA_ITEMS_URL}:search`,
+          method: "POST",
+          data: {
+            pageSize: PAGE_SIZE,
+            pageToken,
+            filters: {
+              mediaTypeFilter: { mediaTypes: ["PHOTO"] },
+              // A day either side covers timezone differences; the exact
+              // cut-off is applied below
+              dateFilter: {
+                ranges: [
+                  {
+                    startDate: toGoogleDate(new Date(since.getTime() - DAY_MS)),
+                    endDate: toGoogleDate(new Date(Date.now() + DAY_MS)),
+                  },
+                ],
+              },
+            },
+          },
+        });
+        items.push(...(data.mediaItems ?? []));
+        pageToken = data.nextPageToken;
+      } while (pageToken && items.length < MAX_LISTED_ITEMS);
+
+      return items
+        .filter((item) => {
+          const time = creationTime(item);
+          return time !== null && time > since;
+        })
+        .sort((a, b) => creationTime(a)!.getTime() - creationTime(b)!.getTime());
+    },
+
+    async download(item, maxSize) {
+      const { data } = await auth.request<ArrayBuffer>({
+        url: `${item.baseUrl}=w${maxSize}-h${maxSize}`,
+        responseType: "arraybuffer",
+      });
+      return Buffer.from(data);
+    },
+  };
+}
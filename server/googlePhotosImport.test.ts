@@ -0,0 +1,109 @@
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startTestServer, type TestServer } from "./testing/harness";
+import { createFakePhotosLibrary, type FakePhotosLibrary } from "./testing/fakes";
+import type { ScaleReading } from "./ocr";
+
+// The real reader, unless a test gives it a reading to return
+vi.mock("./ocr", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./ocr")>();
+  return { ...actual, readScaleDisplay: vi.fn(actual.readScaleDisplay) };
+});
+
+const TAKEN_AT = "2026-03-01T07:30:00.000Z";
+
+let server: TestServer;
+let importGooglePhotos: typeof import("./googlePhotosImport").importGooglePhotos;
+let readScaleDisplay: typeof import("./ocr").readScaleDisplay;
+let scalePhoto: Buffer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  ({ importGooglePhotos } = await import("./googlePhotosImport"));
+  ({ readScaleDisplay } = await import("./ocr"));
+  scalePhoto = await sharp(path.join(import.meta.dirname, "ocr/fixtures/lcd-kg-straight.svg")).jpeg().toBuffer();
+});
+
+afterAll(async () => {
+  await server?.close();
+});
+
+let userId: string;
+let library: FakePhotosLibrary;
+let nextUser = 0;
+
+beforeEach(async () => {
+  userId = `import-user-${++nextUser}`;
+  await server.storage.upsertUser({ id: userId });
+  library = createFakePhotosLibrary();
+  library.add({ id: "scale", mimeType: "image/jpeg", mediaMetadata: { creationTime: TAKEN_AT } }, scalePhoto);
+});
+
+function reading(overrides: Partial<ScaleReading>): ScaleReading {
+  return {
+    weight: 72.4,
+    unit: "kg",
+    confidence: 0.94,
+    plausible: true,
+    displayBox: { x: 0, y: 0, width: 10, height: 10 },
+    rawText: "72.4kg",
+    ...overrides,
+  };
+}
+
+const pendingDetections = () => server.storage.getPendingPhotoDetections(userId, new Date());
+
+describe("importGooglePhotos", () => {
+  it("adds a confident reading to the history, dated when the photo was taken", async () => {
+    const [result] = await importGooglePhotos(library, userId, ["scale"], "lbs");
+
+    expect(result).toMatchObject({ status: "imported", entry: { weight: "72.40", unit: "kg", entryType: "photo" } });
+    expect(result.entry!.recordedAt).toEqual(new Date(TAKEN_AT));
+    expect(await server.storage.getImportedMediaIds(userId, "google_photos", ["scale"])).toEqual(["scale"]);
+  });
+
+  it("queues an uncertain reading for review instead of adding it", async () => {
+    vi.mocked(readScaleDisplay).mockResolvedValueOnce(reading({ weight: 188.2, unit: null, confidence: 0.45 }));
+
+    const [result] = await importGooglePhotos(library, userId, ["scale"], "lbs");
+
+    expect(result.status).toBe("review");
+    expect(await server.storage.getWeightEntries(userId)).toEqual([]);
+    expect(await pendingDetections()).toMatchObject([
+      { mediaId: "scale", source: "google_photos", detectedWeight: "188.20", unit: "lbs", takenAt: new Date(TAKEN_AT) },
+    ]);
+  });
+
+  it("doesn't queue a photo that is already waiting for review", async () => {
+    vi.mocked(readScaleDisplay).mockResolvedValueOnce(reading({ confidence: 0.45 }));
+    await importGooglePhotos(library, userId, ["scale"], "lbs");
+
+    const [result] = await importGooglePhotos(library, userId, ["scale"], "lbs");
+
+    expect(result).toMatchObject({ status: "duplicate", message: "Already waiting for review" });
+    expect(library.downloads).toEqual(["scale"]);
+  });
+
+  it("rejects a reading outside the plausible range", async () => {
+    vi.mocked(readScaleDisplay).mockResolvedValueOnce(
+      reading({ weight: 1824, unit: "lbs", confidence: 0.29, plausible: false }),
+    );
+
+    const [result] = await importGooglePhotos(library, userId, ["scale"], "lbs");
+
+    expect(result.status).toBe("unreadable");
+    expect(await server.storage.getWeightEntries(userId)).toEqual([]);
+    expect(await pendingDetections()).toEqual([]);
+  });
+
+  it("rejects a photo dated in the future", async () => {
+    const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    library.add({ id: "future", mimeType: "image/jpeg", mediaMetadata: { creationTime: future } }, scalePhoto);
+
+    const [result] = await importGooglePhotos(library, userId, ["future"], "lbs");
+
+    expect(result.status).toBe("unreadable");
+    expect(await server.storage.getWeightEntries(userId)).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { weightEntryInsertSchema, type PhotoDetection, type WeightEntry } from "@shared/schema";
+import type { WeightUnit } from "@shared/units";
+import { creationTime, type PhotosClient } from "./googlePhotos";
+import { logger } from "./logger";
+import { readScaleDisplay } from "./ocr";
+import { detectionExpiry, plausibleReading, SYNCED_DETECTION_TTL_MS } from "./photoDetections";
+import { storage } from "./storage";
+import { removeUpload, saveUpload } from "./uploads";
+import { webhookDispatcher } from "./webhooks";
+
+export const GOOGLE_PHOTOS_SOURCE = "google_photos";
+
+// Large enough for the scale reader, which works on a 1600px copy anyway
+export const SCALE_PHOTO_SIZE = 2048;
+// Readings less certain than this are queued for the user to check rather
+// than added to their history
+const MIN_IMPORT_CONFIDENCE = 0.6;
+
+export interface PhotoImportResult {
+  mediaItemId: string;
+  // "review": queued as a photo detection for the user to confirm
+  status: "imported" | "review" | "duplicate" | "unreadable" | "failed";
+  entry?: WeightEntry;
+  detection?: PhotoDetection;
+  message?: string;
+}
+
+async function importMediaItem(
+  client: PhotosClient,
+  userId: string,
+  mediaItemId: string,
+  fallbackUnit: WeightUnit,
+): Promise<PhotoImportResult> {
+  const item = await client.getMediaItem(mediaItemId);
+  if (!item.mimeType?.startsWith("image/")) {
+    return { mediaItemId, status: "failed", message: "Only photos can be imported" };
+  }
+
+  const recordedAt = creationTime(item);
+  if (!recordedAt) {
+    return { mediaItemId, status: "failed", message: "Photo has no creation time" };
+  }
+
+  const { photoPath, photo } = await saveUpload(await client.download(item, SCALE_PHOTO_SIZE));
+  try {
+    const reading = plausibleReading(await readScaleDisplay(photo));
+    const validated =
+      reading &&
+      weightEntryInsertSchema.safeParse({
+        userId,
+        weight: reading.weight,
+        // Scales without a unit label read in the user's own unit
+        unit: reading.unit ?? fallbackUnit,
+        entryType: "photo",
+        photoPath,
+        recordedAt,
+      });
+    if (!reading || !validated?.success) {
+      await removeUpload(photoPath);
+      return { mediaItemId, status: "unreadable", message: "Could not read a weight from this photo" };
+    }
+
+    if (reading.confidence < MIN_IMPORT_CONFIDENCE) {
+      const detection = await storage.createPhotoDetection({
+        userId,
+        photoPath,
+        detectedWeight: validated.data.weight,
+        unit: validated.data.unit,
+        confidence: reading.confidence.toString(),
+        displayBox: reading.displayBox,
+        source: GOOGLE_PHOTOS_SOURCE,
+        mediaId: mediaItemId,
+        takenAt: recordedAt,
+        expiresAt: detectionExpiry(new Date(), SYNCED_DETECTION_TTL_MS),
+      });
+      await webhookDispatcher.emit(userId, "photo.detected", { detection });
+      return { mediaItemId, status: "review", detection, message: "Check the weight read off this photo" };
+    }
+
+    const entry = await storage.createImportedMediaEntry(validated.data, GOOGLE_PHOTOS_SOURCE, mediaItemId);
+    return { mediaItemId, status: "imported", entry };
+  } catch (error) {
+    await removeUpload(photoPath);
+    throw error;
+  }
+}
+
+// Reads a weight off each selected photo and records it at the time the photo
+// was taken. Uncertain readings are queued for review instead. Items are
+// handled one at a time to keep memory use flat, and a failure only affects
+// its own item.
+export async function importGooglePhotos(
+  client: PhotosClient,
+  userId: string,
+  mediaItemIds: string[],
+  fallbackUnit: WeightUnit,
+): Promise<PhotoImportResult[]> {
+  const uniqueIds = Array.from(new Set(mediaItemIds));
+  const alreadyImported = new Set(await storage.getImportedMediaIds(userId, GOOGLE_PHOTOS_SOURCE, uniqueIds));
+  const alreadyQueued = new Set(await storage.getQueuedMediaIds(userId, GOOGLE_PHOTOS_SOURCE, uniqueIds));
+
+  const results: PhotoImportResult[] = [];
+  for (const mediaItemId of uniqueIds) {
+    if (alreadyImported.has(mediaItemId)) {
+      results.push({ mediaItemId, status: "duplicate", message: "Already imported" });
+      continue;
+    }
+    if (alreadyQueued.has(mediaItemId)) {
+      results.push({ mediaItemId, status: "duplicate", message: "Already waiting for review" });
+      continue;
+    }
+    try {
+      results.push(await importMediaItem(client, userId, mediaItemId, fallbackUnit));
+    } catch (error: any) {
+      logger.error("Error importing Google Photos item", { mediaItemId, error });
+      results.push({ mediaItemId, status: "failed", message: "Failed to import this photo" });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,86 @@
+import sharp from "sharp";
+import { thumbnailSizes, type ThumbnailSize } from "@shared/photos";
+import { BadRequestError } from "./errors";
+
+// Longest side of a stored photo. Phone cameras stay at full size; the scale
+// reader needs the detail.
+const MAX_DIMENSION = 4096;
+const JPEG_QUALITY = 88;
+const THUMBNAIL_QUALITY = 80;
+
+export type ImageType = "jpeg" | "png" | "webp" | "heif";
+
+// HEIF containers (HEIC photos from iPhones, and AVIF) name their brand right
+// after the "ftyp" box header
+const HEIF_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1", "avif"]);
+
+// What an upload is, from its first bytes rather than the name or Content-Type
+// the client sent. Returns undefined for anything that isn't a photo we accept.
+export function detectImageType(data: Buffer): ImageType | undefined {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "jpeg";
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png";
+  }
+  if (data.length >= 12 && data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") {
+    return "webp";
+  }
+  if (data.length >= 12 && data.toString("latin1", 4, 8) === "ftyp" && HEIF_BRANDS.has(data.toString("latin1", 8, 12))) {
+    return "heif";
+  }
+  return undefined;
+}
+
+export interface NormalizedImage {
+  // Upright JPEG with no metadata
+  photo: Buffer;
+  thumbnails: Record<ThumbnailSize, Buffer>;
+}
+
+// Makes a thumbnail of a photo. Normalized photos are already upright;
+// rotate() turns older, unprocessed uploads the right way up too.
+export function makeThumbnail(photo: Buffer, size: ThumbnailSize) {
+  const dimension = thumbnailSizes[size];
+  return sharp(photo)
+    .rotate()
+    .resize({ width: dimension, height: dimension, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: THUMBNAIL_QUALITY })
+    .toBuffer();
+}
+
+// Checks that `data` is a photo and re-encodes it as an upright JPEG, which
+// drops EXIF (including GPS position) and anything else riding along in the
+// file, then makes its thumbnails
+export async function normalizeImage(data: Buffer): Promise<NormalizedImage> {
+  const type = detectImageType(data);
+  if (!type) {
+    throw new BadRequestError("Only JPEG, PNG, WebP and HEIC photos are allowed");
+  }
+
+  let photo: Buffer;
+  try {
+    // Re-encoding without withMetadata() writes no EXIF, XMP or ICC data;
+    // rotate() first applies the EXIF orientation so the photo stays upright
+    photo = await sharp(data)
+      .rotate()
+      .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+      .toBuffer();
+  } catch {
+    // Corrupt files, and HEIC when libvips was built without an HEVC decoder
+    throw new BadRequestError(
+      type === "heif"
+        ? "This HEIC photo couldn't be read. Try exporting it as JPEG."
+        : "This photo couldn't be read",
+    );
+  }
+
+  const sizes = Object.keys(thumbnailSizes) as ThumbnailSize[];
+  const thumbnails = await Promise.all(sizes.map((size) => makeThumbnail(photo, size)));
+  return {
+    photo,
+    thumbnails: Object.fromEntries(sizes.map((size, i) => [size, thumbnails[i]])) as Record<ThumbnailSize, Buffer>,
+  };
+}
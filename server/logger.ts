@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import type { RequestHandler } from "express";
+
+export const logLevels = ["debug", "info", "warn", "error", "silent"] as const;
+export type LogLevel = (typeof logLevels)[number];
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Field names whose values never reach the logs. Matched case-insensitively
+// against any part of the name, so "token" also covers "accessToken".
+const DEFAULT_DENY = [
+  "password",
+  "secret",
+  "token",
+  "authorization",
+  "cookie",
+  "session",
+  "email",
+  "firstname",
+  "lastname",
+  "profileimageurl",
+  "notes",
+];
+// Exact field names logged even though they match the deny list
+const DEFAULT_ALLOW = ["tokenId", "sessionId"];
+
+const REDACTED = "[redacted]";
+// Nested values below this depth are dropped rather than walked
+const MAX_DEPTH = 6;
+// Incoming request ids are reused only if they look like one of ours
+const REQUEST_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger that adds `fields` to every line
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  // Added to the default deny and allow lists
+  deny?: string[];
+  allow?: string[];
+  // Where finished lines go, one JSON object per line
+  write?: (line: string) => void;
+}
+
+// Fields of the request being handled, added to every line logged during it
+const requestContext = new AsyncLocalStorage<LogFields>();
+
+const listFromEnv = (value: string | undefined) =>
+  value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean) ?? [];
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const threshold = logLevels.indexOf(options.level ?? "info");
+  const deny = [...DEFAULT_DENY, ...(options.deny ?? [])].map((name) => name.toLowerCase());
+  const allow = new Set([...DEFAULT_ALLOW, ...(options.allow ?? [])]);
+  const write = options.write ?? ((line: string) => process.stdout.write(line + "\n"));
+
+  const isDenied = (key: string) => !allow.has(key) && deny.some((name) => key.toLowerCase().includes(name));
+
+  function sanitize(value: unknown, depth: number): unknown {
+    if (value instanceof Error) {
+      return sanitize(
+        { name: value.name, message: value.message, code: (value as any).code, stack: value.stack },
+        depth,
+      );
+    }
+    if (value instanceof Date) return value.toISOString();
+    if (value === null || typeof value !== "object") return value;
+    if (depth >= MAX_DEPTH) return "[truncated]";
+    if (Array.isArray(value)) return value.map((item) => sanitize(item, depth + 1));
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [key, isDenied(key) ? REDACTED : sanitize(item, depth + 1)]),
+    );
+  }
+
+  function build(bound: LogFields): Logger {
+    const emit = (level: LogLevel, message: string, fields?: LogFields) => {
+      if (logLevels.indexOf(level) < threshold) return;
+      const line = {
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...(sanitize({ ...requestContext.getStore(), ...bound, ...fields }, 0) as LogFields),
+      };
+      write(JSON.stringify(line));
+    };
+
+    return {
+      debug: (message, fields) => emit("debug", message, fields),
+      info: (message, fields) => emit("info", message, fields),
+      warn: (message, fields) => emit("warn", message, fields),
+      error: (message, fields) => emit("error", message, fields),
+      child: (fields) => build({ ...bound, ...fields }),
+    };
+  }
+
+  return build({});
+}
+
+// Configured by LOG_LEVEL, LOG_REDACT (extra field names to hide) and
+// LOG_REDACT_ALLOW (field names to show despite the deny list)
+export const logger = createLogger({
+  level: logLevels.find((level) => level === process.env.LOG_LEVEL),
+  deny: listFromEnv(process.env.LOG_REDACT),
+  allow: listFromEnv(process.env.LOG_REDACT_ALLOW),
+});
+
+// Gives each request an id, echoed in X-Request-Id and attached to every line
+// logged while handling it, and logs one summary line per API request. Bodies
+// are never logged.
+export function requestLogger(log: Logger = logger): RequestHandler {
+  return (req, res, next) => {
+    const start = process.hrtime.bigint();
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    res.on("finish", () => {
+      if (!req.originalUrl.startsWith("/api")) return;
+      const status = res.statusCode;
+      const fields = {
+        requestId,
+        method: req.method,
+        // The matched pattern, e.g. /api/goals/:id, so ids stay out of the logs
+        route: req.route ? req.baseUrl + req.route.path : req.originalUrl.split("?")[0],
+        status,
+        durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e4) / 100,
+        userId: req.userId,
+      };
+      if (status >= 500) log.error("request completed", fields);
+      else if (status >= 400) log.warn("request completed", fields);
+      else log.info("request completed", fields);
+    });
+
+    requestContext.run({ requestId }, next);
+  };
+}
@@ -0,0 +1,775 @@
+import type {
+  User,
+  UpsertUser,
+  UserPreferences,
+  WeightEntry,
+  InsertWeightEntry,
+  UpdateWeightEntry,
+  WeightEntryQuery,
+  WeightEntryPage,
+  PhotoDetection,
+  InsertPhotoDetection,
+  Goal,
+  InsertGoal,
+  UpdateGoal,
+  ActivityLog,
+  InsertActivityLog,
+  ActivityLogFilters,
+  ActivityLogQuery,
+  ActivityLogPage,
+  ConnectedAccount,
+  UpsertConnectedAccount,
+  ImportedMedia,
+  PhotoSyncState,
+  UpsertPhotoSyncState,
+  PhotoCleanupRun,
+  InsertPhotoCleanupRun,
+  ProgressPhoto,
+  InsertProgressPhoto,
+  UpdateProgressPhoto,
+  ProgressPhotoPose,
+  ApiToken,
+  InsertApiToken,
+  Webhook,
+  InsertWebhook,
+  UpdateWebhook,
+  WebhookDelivery,
+  InsertWebhookDelivery,
+} from "@shared/schema";
+import {
+  decodeActivityCursor,
+  decodeEntryCursor,
+  encodeActivityCursor,
+  encodeEntryCursor,
+  entryGrams,
+  type IStorage,
+} from "./storage";
+
+// Postgres hands decimal columns back as fixed-point strings ("180.50")
+const decimal = (value: string | null | undefined, scale = 2) =>
+  value === null || value === undefined ? null : parseFloat(value).toFixed(scale);
+
+// Newest recordedAt first, then highest id, like the database listing
+function byRecordedAtDesc(a: WeightEntry, b: WeightEntry) {
+  return b.recordedAt!.getTime() - a.recordedAt!.getTime() || b.id - a.id;
+}
+
+// Keeps everything in process memory. Selected with STORAGE_PROVIDER=memory so
+// the server and route tests run without a database; data is lost on restart.
+// Rows are copied in and out so callers can't mutate what's stored.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  // Password hashes by user id
+  private passwordHashes = new Map<string, string>();
+  private weightEntries = new Map<number, WeightEntry>();
+  private photoDetections = new Map<number, PhotoDetection>();
+  private goals = new Map<number, Goal>();
+  private activityLogs = new Map<number, ActivityLog>();
+  // Keyed by `${userId}:${provider}`
+  private connectedAccounts = new Map<string, ConnectedAccount>();
+  // Keyed by `${userId}:${source}:${mediaId}`
+  private importedMedia = new Map<string, ImportedMedia>();
+  private photoSyncStates = new Map<string, PhotoSyncState>();
+  private photoCleanupRuns = new Map<number, PhotoCleanupRun>();
+  private progressPhotos = new Map<number, ProgressPhoto>();
+  private apiTokens = new Map<number, ApiToken>();
+  private webhooks = new Map<number, Webhook>();
+  private webhookDeliveries = new Map<number, WebhookDelivery>();
+  private nextId = {
+    weightEntries: 1,
+    photoDetections: 1,
+    goals: 1,
+    activityLogs: 1,
+    connectedAccounts: 1,
+    importedMedia: 1,
+    photoCleanupRuns: 1,
+    progressPhotos: 1,
+    apiTokens: 1,
+    webhooks: 1,
+    webhookDeliveries: 1,
+  };
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && { ...user };
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = this.users.get(userData.id);
+    const now = new Date();
+    const user: User = existing
+      ? { ...existing, ...userData, updatedAt: now }
+      : {
+          email: null,
+          firstName: null,
+          lastName: null,
+          profileImageUrl: null,
+          displayUnit: "lbs",
+          createdAt: now,
+          ...userData,
+          updatedAt: now,
+        };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    const user = { ...existing, ...preferences, updatedAt: new Date() };
+    this.users.set(id, user);
+    return { ...user };
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((user) => user.email === email);
+    return user && { ...user };
+  }
+
+  // Email/password sign-in
+  async createPasswordUser(userData: UpsertUser, passwordHash: string): Promise<User> {
+    // Mirrors the primary key and unique email constraints
+    if (this.users.has(userData.id) || (userData.email && (await this.getUserByEmail(userData.email)))) {
+      throw new Error("User already exists");
+    }
+    const user = await this.upsertUser(userData);
+    this.passwordHashes.set(user.id, passwordHash);
+    return user;
+  }
+
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    return this.passwordHashes.get(userId);
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    this.passwordHashes.set(userId, passwordHash);
+  }
+
+  // Weight tracking operations
+  private insertWeightEntry(entry: InsertWeightEntry): WeightEntry {
+    const now = new Date();
+    const weightEntry: WeightEntry = {
+      id: this.nextId.weightEntries++,
+      userId: entry.userId,
+      weight: decimal(entry.weight)!,
+      unit: entry.unit ?? "lbs",
+      weightGrams: entryGrams(entry.weight, entry.unit),
+      entryType: entry.entryType ?? "manual",
+      photoPath: entry.photoPath ?? null,
+      notes: entry.notes ?? null,
+      bodyFatPercent: decimal(entry.bodyFatPercent, 1),
+      muscleMassGrams: entry.muscleMassGrams ?? null,
+      waterPercent: decimal(entry.waterPercent, 1),
+      boneMassGrams: entry.boneMassGrams ?? null,
+      bmi: decimal(entry.bmi, 1),
+      recordedAt: entry.recordedAt ?? now,
+      createdAt: now,
+    };
+    this.weightEntries.set(weightEntry.id, weightEntry);
+    return { ...weightEntry };
+  }
+
+  private userWeightEntries(userId: string) {
+    return Array.from(this.weightEntries.values()).filter((entry) => entry.userId === userId);
+  }
+
+  async createWeightEntry(entry: InsertWeightEntry): Promise<WeightEntry> {
+    return this.insertWeightEntry(entry);
+  }
+
+  async getWeightEntries(userId: string, limit: number = 50): Promise<WeightEntry[]> {
+    return this.userWeightEntries(userId)
+      .sort(byRecordedAtDesc)
+      .slice(0, limit)
+      .map((entry) => ({ ...entry }));
+  }
+
+  async listWeightEntries(userId: string, query: WeightEntryQuery): Promise<WeightEntryPage> {
+    const q = query.q?.toLowerCase();
+    const matching = this.userWeightEntries(userId)
+      .filter(
+        (entry) =>
+          (!query.from || entry.recordedAt! >= query.from) &&
+          (!query.to || entry.recordedAt! <= query.to) &&
+          (!query.entryType || entry.entryType === query.entryType) &&
+          (!q || (entry.notes ?? "").toLowerCase().includes(q)),
+      )
+      .sort(byRecordedAtDesc);
+
+    let start = 0;
+    if (query.cursor) {
+      const after = decodeEntryCursor(query.cursor);
+      const afterTime = after.recordedAt.getTime();
+      start = matching.findIndex((entry) => {
+        const time = entry.recordedAt!.getTime();
+        return time < afterTime || (time === afterTime && entry.id < after.id);
+      });
+      if (start === -1) start = matching.length;
+    }
+
+    const entries = matching.slice(start, start + query.limit).map((entry) => ({ ...entry }));
+    const hasMore = start + query.limit < matching.length;
+    return {
+      entries,
+      nextCursor: hasMore ? encodeEntryCursor(entries[entries.length - 1]) : null,
+      total: matching.length,
+    };
+  }
+
+  async getWeightEntry(id: number, userId: string): Promise<WeightEntry | undefined> {
+    const entry = this.weightEntries.get(id);
+    return entry && entry.userId === userId ? { ...entry } : undefined;
+  }
+
+  async updateWeightEntry(id: number, userId: string, updates: UpdateWeightEntry): Promise<WeightEntry | undefined> {
+    const existing = this.weightEntries.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+
+    const entry: WeightEntry = { ...existing };
+    if (updates.weight !== undefined) entry.weight = decimal(updates.weight)!;
+    if (updates.unit !== undefined) entry.unit = updates.unit;
+    if (updates.notes !== undefined) entry.notes = updates.notes;
+    if (updates.recordedAt !== undefined) entry.recordedAt = updates.recordedAt;
+    if (updates.weight !== undefined || updates.unit !== undefined) {
+      entry.weightGrams = entryGrams(entry.weight, entry.unit);
+    }
+    this.weightEntries.set(id, entry);
+    return { ...entry };
+  }
+
+  async deleteWeightEntry(id: number, userId: string): Promise<boolean> {
+    const entry = this.weightEntries.get(id);
+    if (!entry || entry.userId !== userId) return false;
+    this.weightEntries.delete(id);
+    // Mirrors the foreign keys' ON DELETE SET NULL
+    this.photoDetections.forEach((detection) => {
+      if (detection.weightEntryId === id) detection.weightEntryId = null;
+    });
+    this.importedMedia.forEach((media) => {
+      if (media.weightEntryId === id) media.weightEntryId = null;
+    });
+    this.progressPhotos.forEach((photo) => {
+      if (photo.weightEntryId === id) photo.weightEntryId = null;
+    });
+    return true;
+  }
+
+  async getWeightEntriesBetween(userId: string, from: Date, to: Date): Promise<WeightEntry[]> {
+    return this.userWeightEntries(userId)
+      .filter((entry) => entry.recordedAt! >= from && entry.recordedAt! <= to)
+      .map((entry) => ({ ...entry }));
+  }
+
+  async *streamWeightEntries(userId: string): AsyncIterable<WeightEntry> {
+    for (const entry of this.userWeightEntries(userId).sort((a, b) => a.id - b.id)) {
+      yield { ...entry };
+    }
+  }
+
+  async importWeightEntries(entries: InsertWeightEntry[], log: InsertActivityLog): Promise<WeightEntry[]> {
+    // Nothing here can fail part way, so this is as atomic as the database version
+    const inserted = entries.map((entry) => this.insertWeightEntry(entry));
+    await this.createActivityLog(log);
+    return inserted;
+  }
+
+  async getImportedMediaIds(userId: string, source: string, mediaIds: string[]): Promise<string[]> {
+    return mediaIds.filter((mediaId) => this.importedMedia.has(`${userId}:${source}:${mediaId}`));
+  }
+
+  async createImportedMediaEntry(entry: InsertWeightEntry, source: string, mediaId: string): Promise<WeightEntry> {
+    const key = `${entry.userId}:${source}:${mediaId}`;
+    if (this.importedMedia.has(key)) {
+      throw new Error(`Media item ${mediaId} has already been imported`);
+    }
+    const weightEntry = this.insertWeightEntry(entry);
+    this.importedMedia.set(key, {
+      id: this.nextId.importedMedia++,
+      userId: entry.userId,
+      source,
+      mediaId,
+      weightEntryId: weightEntry.id,
+      createdAt: new Date(),
+    });
+    return weightEntry;
+  }
+
+  // Scale photo detections awaiting review
+  async createPhotoDetection(detection: InsertPhotoDetection): Promise<PhotoDetection> {
+    const photoDetection: PhotoDetection = {
+      id: this.nextId.photoDetections++,
+      userId: detection.userId,
+      photoPath: detection.photoPath,
+      detectedWeight: decimal(detection.detectedWeight),
+      unit: detection.unit ?? null,
+      confidence: decimal(detection.confidence),
+      displayBox: detection.displayBox ?? null,
+      status: "pending",
+      weightEntryId: null,
+      source: detection.source ?? null,
+      mediaId: detection.mediaId ?? null,
+      takenAt: detection.takenAt ?? null,
+      expiresAt: detection.expiresAt,
+      createdAt: new Date(),
+    };
+    this.photoDetections.set(photoDetection.id, photoDetection);
+    return { ...photoDetection };
+  }
+
+  async getPhotoDetection(id: number, userId: string): Promise<PhotoDetection | undefined> {
+    const detection = this.photoDetections.get(id);
+    return detection && detection.userId === userId ? { ...detection } : undefined;
+  }
+
+  async confirmPhotoDetection(id: number, userId: string, weightEntryId: number): Promise<PhotoDetection | undefined> {
+    const existing = this.photoDetections.get(id);
+    if (!existing || existing.userId !== userId || existing.status !== "pending") return undefined;
+    const detection = { ...existing, status: "confirmed", weightEntryId };
+    this.photoDetections.set(id, detection);
+    return { ...detection };
+  }
+
+  async deletePhotoDetection(id: number, userId: string): Promise<boolean> {
+    const detection = this.photoDetections.get(id);
+    if (!detection || detection.userId !== userId) return false;
+    return this.photoDetections.delete(id);
+  }
+
+  async deleteExpiredPhotoDetections(now: Date): Promise<PhotoDetection[]> {
+    const expired = Array.from(this.photoDetections.values()).filter(
+      (detection) => detection.status === "pending" && detection.expiresAt < now,
+    );
+    expired.forEach((detection) => this.photoDetections.delete(detection.id));
+    return expired;
+  }
+
+  async getPendingPhotoDetections(userId: string, now: Date): Promise<PhotoDetection[]> {
+    return Array.from(this.photoDetections.values())
+      .filter((detection) => detection.userId === userId && detection.status === "pending" && detection.expiresAt > now)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime() || b.id - a.id)
+      .map((detection) => ({ ...detection }));
+  }
+
+  async getQueuedMediaIds(userId: string, source: string, mediaIds: string[]): Promise<string[]> {
+    const queued = new Set(
+      Array.from(this.photoDetections.values())
+        .filter((detection) => detection.userId === userId && detection.source === source)
+        .map((detection) => detection.mediaId),
+    );
+    return mediaIds.filter((mediaId) => queued.has(mediaId));
+  }
+
+  async ownsPhoto(userId: string, photoPaths: string[]): Promise<boolean> {
+    const owned = (item: { userId: string; photoPath: string | null }) =>
+      item.userId === userId && item.photoPath !== null && photoPaths.includes(item.photoPath);
+    return (
+      Array.from(this.weightEntries.values()).some(owned) ||
+      Array.from(this.progressPhotos.values()).some(owned) ||
+      Array.from(this.photoDetections.values()).some(owned)
+    );
+  }
+
+  async getReferencedPhotoPaths(photoPaths: string[]): Promise<string[]> {
+    const referenced = new Set<string>();
+    for (const entry of Array.from(this.weightEntries.values())) {
+      if (entry.photoPath) referenced.add(entry.photoPath);
+    }
+    for (const photo of Array.from(this.progressPhotos.values())) {
+      referenced.add(photo.photoPath);
+    }
+    for (const detection of Array.from(this.photoDetections.values())) {
+      if (detection.status === "pending") referenced.add(detection.photoPath);
+    }
+    return Array.from(new Set(photoPaths)).filter((photoPath) => referenced.has(photoPath));
+  }
+
+  // Body progress photos
+  async createProgressPhoto(photo: InsertProgressPhoto): Promise<ProgressPhoto> {
+    const saved: ProgressPhoto = {
+      weightEntryId: null,
+      notes: null,
+      ...photo,
+      id: this.nextId.progressPhotos++,
+      createdAt: new Date(),
+    };
+    this.progressPhotos.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  async getProgressPhotos(userId: string, pose?: ProgressPhotoPose): Promise<ProgressPhoto[]> {
+    return Array.from(this.progressPhotos.values())
+      .filter((photo) => photo.userId === userId && (!pose || photo.pose === pose))
+      .sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime() || a.id - b.id)
+      .map((photo) => ({ ...photo }));
+  }
+
+  async *streamProgressPhotos(userId: string): AsyncIterable<ProgressPhoto> {
+    const photos = Array.from(this.progressPhotos.values()).filter((photo) => photo.userId === userId);
+    for (const photo of photos.sort((a, b) => a.id - b.id)) {
+      yield { ...photo };
+    }
+  }
+
+  async getProgressPhoto(id: number, userId: string): Promise<ProgressPhoto | undefined> {
+    const photo = this.progressPhotos.get(id);
+    return photo && photo.userId === userId ? { ...photo } : undefined;
+  }
+
+  async updateProgressPhoto(id: number, userId: string, updates: UpdateProgressPhoto): Promise<ProgressPhoto | undefined> {
+    const existing = this.progressPhotos.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const photo: ProgressPhoto = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+    };
+    this.progressPhotos.set(id, photo);
+    return { ...photo };
+  }
+
+  async deleteProgressPhoto(id: number, userId: string): Promise<ProgressPhoto | undefined> {
+    const photo = this.progressPhotos.get(id);
+    if (!photo || photo.userId !== userId) return undefined;
+    this.progressPhotos.delete(id);
+    return { ...photo };
+  }
+
+  // Goals
+  async createGoal(goal: InsertGoal): Promise<Goal> {
+    const now = new Date();
+    const created: Goal = {
+      id: this.nextId.goals++,
+      userId: goal.userId,
+      startWeight: decimal(goal.startWeight)!,
+      targetWeight: decimal(goal.targetWeight)!,
+      targetDate: goal.targetDate,
+      unit: goal.unit ?? "lbs",
+      status: goal.status ?? "active",
+      achievedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.goals.set(created.id, created);
+    return { ...created };
+  }
+
+  async getGoals(userId: string): Promise<Goal[]> {
+    return Array.from(this.goals.values())
+      .filter((goal) => goal.userId === userId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime() || b.id - a.id)
+      .map((goal) => ({ ...goal }));
+  }
+
+  async getGoal(id: number, userId: string): Promise<Goal | undefined> {
+    const goal = this.goals.get(id);
+    return goal && goal.userId === userId ? { ...goal } : undefined;
+  }
+
+  async updateGoal(id: number, userId: string, updates: UpdateGoal & { achievedAt?: Date | null }): Promise<Goal | undefined> {
+    const existing = this.goals.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+
+    const goal: Goal = { ...existing, updatedAt: new Date() };
+    if (updates.startWeight !== undefined) goal.startWeight = decimal(updates.startWeight)!;
+    if (updates.targetWeight !== undefined) goal.targetWeight = decimal(updates.targetWeight)!;
+    if (updates.targetDate !== undefined) goal.targetDate = updates.targetDate;
+    if (updates.unit !== undefined) goal.unit = updates.unit;
+    if (updates.status !== undefined) goal.status = updates.status;
+    if (updates.achievedAt !== undefined) goal.achievedAt = updates.achievedAt;
+    this.goals.set(id, goal);
+    return { ...goal };
+  }
+
+  async deleteGoal(id: number, userId: string): Promise<boolean> {
+    const goal = this.goals.get(id);
+    if (!goal || goal.userId !== userId) return false;
+    return this.goals.delete(id);
+  }
+
+  // Activity logs
+  async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
+    const activityLog: ActivityLog = {
+      id: this.nextId.activityLogs++,
+      userId: log.userId,
+      action: log.action,
+      description: log.description ?? null,
+      metadata: log.metadata ?? null,
+      createdAt: new Date(),
+    };
+    this.activityLogs.set(activityLog.id, activityLog);
+    return { ...activityLog };
+  }
+
+  // Oldest first. Stands in for Postgres full-text search by requiring every
+  // word of `q` somewhere in the description, without stemming.
+  private matchingActivityLogs(userId: string, filters: ActivityLogFilters) {
+    const words = filters.q?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    return Array.from(this.activityLogs.values())
+      .filter(
+        (log) =>
+          log.userId === userId &&
+          (!filters.action?.length || filters.action.includes(log.action)) &&
+          (!filters.from || log.createdAt! >= filters.from) &&
+          (!filters.to || log.createdAt! <= filters.to) &&
+          words.every((word) => (log.description ?? "").toLowerCase().includes(word)),
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async listActivityLogs(userId: string, query: ActivityLogQuery): Promise<ActivityLogPage> {
+    const matching = this.matchingActivityLogs(userId, query).reverse();
+    let start = 0;
+    if (query.cursor) {
+      const afterId = decodeActivityCursor(query.cursor);
+      start = matching.findIndex((log) => log.id < afterId);
+      if (start === -1) start = matching.length;
+    }
+
+    const logs = matching.slice(start, start + query.limit).map((log) => ({ ...log }));
+    const hasMore = start + query.limit < matching.length;
+    return {
+      logs,
+      nextCursor: hasMore ? encodeActivityCursor(logs[logs.length - 1]) : null,
+      total: matching.length,
+    };
+  }
+
+  async *streamActivityLogs(userId: string, filters: ActivityLogFilters = {}): AsyncIterable<ActivityLog> {
+    for (const log of this.matchingActivityLogs(userId, filters)) {
+      yield { ...log };
+    }
+  }
+
+  // OAuth accounts
+  async upsertConnectedAccount(account: UpsertConnectedAccount): Promise<ConnectedAccount> {
+    const key = `${account.userId}:${account.provider}`;
+    const existing = this.connectedAccounts.get(key);
+    const now = new Date();
+    const connected: ConnectedAccount = {
+      id: existing?.id ?? this.nextId.connectedAccounts++,
+      userId: account.userId,
+      provider: account.provider,
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken === undefined ? existing?.refreshToken ?? null : account.refreshToken,
+      scope: account.scope === undefined ? existing?.scope ?? null : account.scope,
+      expiresAt: account.expiresAt === undefined ? existing?.expiresAt ?? null : account.expiresAt,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.connectedAccounts.set(key, connected);
+    return { ...connected };
+  }
+
+  async getConnectedAccount(userId: string, provider: string): Promise<ConnectedAccount | undefined> {
+    const account = this.connectedAccounts.get(`${userId}:${provider}`);
+    return account && { ...account };
+  }
+
+  async deleteConnectedAccount(userId: string, provider: string): Promise<boolean> {
+    return this.connectedAccounts.delete(`${userId}:${provider}`);
+  }
+
+  async getConnectedAccountUserIds(provider: string): Promise<string[]> {
+    return Array.from(this.connectedAccounts.values())
+      .filter((account) => account.provider === provider)
+      .map((account) => account.userId);
+  }
+
+  // Background photo sync
+  async getPhotoSyncState(userId: string): Promise<PhotoSyncState | undefined> {
+    const state = this.photoSyncStates.get(userId);
+    return state && { ...state };
+  }
+
+  async upsertPhotoSyncState(state: UpsertPhotoSyncState): Promise<PhotoSyncState> {
+    const existing = this.photoSyncStates.get(state.userId);
+    const saved: PhotoSyncState = {
+      enabled: true,
+      cursor: null,
+      lastRunAt: null,
+      lastSuccessAt: null,
+      lastError: null,
+      lastScanned: 0,
+      lastQueued: 0,
+      totalScanned: 0,
+      totalQueued: 0,
+      ...existing,
+      ...Object.fromEntries(Object.entries(state).filter(([, value]) => value !== undefined)),
+      userId: state.userId,
+      updatedAt: new Date(),
+    };
+    this.photoSyncStates.set(state.userId, saved);
+    return { ...saved };
+  }
+
+  // Sweeps for unreferenced photo files
+  async createPhotoCleanupRun(run: InsertPhotoCleanupRun): Promise<PhotoCleanupRun> {
+    const saved: PhotoCleanupRun = {
+      finishedAt: null,
+      filesScanned: 0,
+      filesRemoved: 0,
+      bytesReclaimed: 0,
+      error: null,
+      ...run,
+      id: this.nextId.photoCleanupRuns++,
+    };
+    this.photoCleanupRuns.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  async getPhotoCleanupRuns(limit: number): Promise<PhotoCleanupRun[]> {
+    return Array.from(this.photoCleanupRuns.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime() || b.id - a.id)
+      .slice(0, limit)
+      .map((run) => ({ ...run }));
+  }
+
+  async getPhotoCleanupTotals() {
+    const runs = Array.from(this.photoCleanupRuns.values());
+    return {
+      runs: runs.length,
+      filesRemoved: runs.reduce((sum, run) => sum + run.filesRemoved, 0),
+      bytesReclaimed: runs.reduce((sum, run) => sum + run.bytesReclaimed, 0),
+    };
+  }
+
+  // Personal API tokens
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const apiToken: ApiToken = {
+      id: this.nextId.apiTokens++,
+      lastUsedAt: null,
+      createdAt: new Date(),
+      ...token,
+      scopes: [...token.scopes],
+    };
+    this.apiTokens.set(apiToken.id, apiToken);
+    return { ...apiToken };
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((apiToken) => apiToken.userId === userId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime() || b.id - a.id)
+      .map((apiToken) => ({ ...apiToken }));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const apiToken = Array.from(this.apiTokens.values()).find((apiToken) => apiToken.tokenHash === tokenHash);
+    return apiToken && { ...apiToken };
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    const apiToken = this.apiTokens.get(id);
+    if (apiToken) apiToken.lastUsedAt = usedAt;
+  }
+
+  async deleteApiToken(id: number, userId: string): Promise<ApiToken | undefined> {
+    const apiToken = this.apiTokens.get(id);
+    if (!apiToken || apiToken.userId !== userId) return undefined;
+    this.apiTokens.delete(id);
+    return apiToken;
+  }
+
+  // Webhooks
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const now = new Date();
+    const created: Webhook = {
+      id: this.nextId.webhooks++,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+      ...webhook,
+      events: [...webhook.events],
+    };
+    this.webhooks.set(created.id, created);
+    return { ...created };
+  }
+
+  async getWebhooks(userId: string): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter((webhook) => webhook.userId === userId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime() || b.id - a.id)
+      .map((webhook) => ({ ...webhook }));
+  }
+
+  async getWebhook(id: number, userId: string): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    return webhook && webhook.userId === userId ? { ...webhook } : undefined;
+  }
+
+  async updateWebhook(id: number, userId: string, updates: UpdateWebhook): Promise<Webhook | undefined> {
+    const existing = this.webhooks.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const webhook: Webhook = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+      updatedAt: new Date(),
+    };
+    this.webhooks.set(id, webhook);
+    return { ...webhook };
+  }
+
+  async deleteWebhook(id: number, userId: string): Promise<boolean> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook || webhook.userId !== userId) return false;
+    this.webhooks.delete(id);
+    // Mirrors ON DELETE CASCADE
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(delivery.id);
+    }
+    return true;
+  }
+
+  async getWebhooksForEvent(userId: string, event: string): Promise<Webhook[]> {
+    return (await this.getWebhooks(userId)).filter((webhook) => webhook.enabled && webhook.events.includes(event));
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const created: WebhookDelivery = {
+      id: this.nextId.webhookDeliveries++,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      nextAttemptAt: null,
+      deliveredAt: null,
+      replayOf: null,
+      createdAt: new Date(),
+      ...delivery,
+    };
+    this.webhookDeliveries.set(created.id, created);
+    return { ...created };
+  }
+
+  async getWebhookDelivery(id: number, userId: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    return delivery && delivery.userId === userId ? { ...delivery } : undefined;
+  }
+
+  async getWebhookDeliveries(webhookId: number, userId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.webhookId === webhookId && delivery.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map((delivery) => ({ ...delivery }));
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) return undefined;
+    const delivery: WebhookDelivery = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return { ...delivery };
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.status === "pending" && delivery.nextAttemptAt && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime() || a.id - b.id)
+      .slice(0, limit)
+      .map((delivery) => ({ ...delivery }));
+  }
+}
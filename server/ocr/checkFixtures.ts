@@ -0,0 +1,37 @@
+// Regression check for the scale display decoder. Runs every fixture in
+// ./fixtures through readScaleDisplay and compares it with manifest.json.
+//   npm run ocr:fixtures
+import fs from "fs";
+import path from "path";
+import type { WeightUnit } from "@shared/units";
+import { readScaleDisplay } from "./index";
+
+interface Fixture {
+  file: string;
+  weight: number;
+  unit: WeightUnit | null;
+}
+
+const fixturesDir = path.join(import.meta.dirname, "fixtures");
+const fixtures: Fixture[] = JSON.parse(
+  fs.readFileSync(path.join(fixturesDir, "manifest.json"), "utf8"),
+);
+
+async function main() {
+  let failures = 0;
+  for (const fixture of fixtures) {
+    const reading = await readScaleDisplay(path.join(fixturesDir, fixture.file));
+    const ok = reading?.weight === fixture.weight && reading.unit === fixture.unit;
+    if (!ok) failures++;
+
+    const got = reading
+      ? `${reading.weight} ${reading.unit ?? "?"} (confidence ${reading.confidence})`
+      : "no reading";
+    console.log(`${ok ? "ok  " : "FAIL"} ${fixture.file}: expected ${fixture.weight} ${fixture.unit ?? "?"}, got ${got}`);
+  }
+
+  console.log(`\n${fixtures.length - failures}/${fixtures.length} fixtures decoded correctly`);
+  return failures;
+}
+
+main().then((failures) => process.exit(failures ? 1 : 0));
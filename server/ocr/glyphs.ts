@@ -0,0 +1,68 @@
+import type { BinaryImage } from "./image";
+import type { Blob } from "./segments";
+
+// 5x7 templates for the letters scales use to print units, each stretched to
+// its own bounding box. "l" is recognised by shape alone (a thin bar).
+const LETTER_TEMPLATES: Record<string, string[]> = {
+  k: ["X....", "X....", "X..XX", "X.X..", "XX...", "X.X..", "X..XX"],
+  g: ["XXXXX", "X...X", "X...X", "XXXXX", "....X", "....X", "XXXXX"],
+  b: ["X....", "X....", "XXXXX", "X...X", "X...X", "X...X", "XXXXX"],
+  s: ["XXXXX", "X....", "X....", "XXXXX", "....X", "....X", "XXXXX"],
+  t: [".X...", ".X...", "XXXXX", ".X...", ".X...", ".X...", ".XXXX"],
+};
+
+const GRID_WIDTH = 5;
+const GRID_HEIGHT = 7;
+const MAX_DISTANCE = 10;
+
+export function classifyLetter(image: BinaryImage, cell: Blob) {
+  const w = cell.x1 - cell.x0 + 1;
+  const h = cell.y1 - cell.y0 + 1;
+
+  if (w / h < 0.3) return { letter: "l", confidence: 0.9 };
+
+  const sample: number[] = [];
+  for (let gy = 0; gy < GRID_HEIGHT; gy++) {
+    for (let gx = 0; gx < GRID_WIDTH; gx++) {
+      const x0 = Math.floor(cell.x0 + (gx * w) / GRID_WIDTH);
+      const x1 = Math.max(x0, Math.floor(cell.x0 + ((gx + 1) * w) / GRID_WIDTH) - 1);
+      const y0 = Math.floor(cell.y0 + (gy * h) / GRID_HEIGHT);
+      const y1 = Math.max(y0, Math.floor(cell.y0 + ((gy + 1) * h) / GRID_HEIGHT) - 1);
+      let on = 0;
+      let total = 0;
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          on += image.data[y * image.width + x];
+          total++;
+        }
+      }
+      sample.push(on / total);
+    }
+  }
+
+  let best = { letter: "", distance: Infinity };
+  for (const [letter, rows] of Object.entries(LETTER_TEMPLATES)) {
+    let distance = 0;
+    rows.join("").split("").forEach((pixel, i) => {
+      distance += Math.abs((pixel === "X" ? 1 : 0) - sample[i]);
+    });
+    if (distance < best.distance) best = { letter, distance };
+  }
+
+  if (best.distance > MAX_DISTANCE) return null;
+  return { letter: best.letter, confidence: 1 - best.distance / (MAX_DISTANCE * 2) };
+}
+
+export function unitFromLetters(letters: string) {
+  switch (letters) {
+    case "kg":
+      return "kg" as const;
+    case "lb":
+    case "lbs":
+      return "lbs" as const;
+    case "st":
+      return "st" as const;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,170 @@
+import sharp from "sharp";
+
+// 8-bit single channel image, row-major
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// 1 = foreground (display ink), 0 = background
+export interface BinaryImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// "dark" for LCD digits on a light panel, "light" for LED/backlit digits on a dark panel
+export type Polarity = "dark" | "light";
+
+// Maps a point in a resampled image back into the source image
+export interface SampleTransform {
+  originX: number;
+  originY: number;
+  // Source pixels per output pixel
+  scale: number;
+  // Skew angle of the display in radians
+  angle: number;
+  // Horizontal shear applied around `shearCenter` to straighten italic digits
+  shear: number;
+  shearCenter: number;
+}
+
+export function mapToSource(t: SampleTransform, u: number, v: number) {
+  const cos = Math.cos(t.angle);
+  const sin = Math.sin(t.angle);
+  const p = (u + t.shear * (v - t.shearCenter)) * t.scale;
+  const q = v * t.scale;
+  return {
+    x: t.originX + p * cos - q * sin,
+    y: t.originY + p * sin + q * cos,
+  };
+}
+
+// Loads an image upright (EXIF orientation applied), flattened, greyscale and
+// contrast-stretched, no wider than `maxWidth`. `scale` converts returned
+// pixel coordinates back to the upright original.
+export async function loadGrayscale(input: string | Buffer, maxWidth: number) {
+  const metadata = await sharp(input).metadata();
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const originalWidth = (rotated ? metadata.height : metadata.width) ?? 0;
+  const originalHeight = (rotated ? metadata.width : metadata.height) ?? 0;
+
+  const { data, info } = await sharp(input)
+    .rotate()
+    .flatten({ background: "#ffffff" })
+    .resize({ width: maxWidth, withoutEnlargement: true })
+    .greyscale()
+    .normalise()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels = new Uint8Array(info.width * info.height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = data[i * info.channels];
+  }
+
+  return {
+    image: { width: info.width, height: info.height, data: pixels } as GrayImage,
+    scale: originalWidth / info.width,
+    originalWidth,
+    originalHeight,
+  };
+}
+
+// Local mean threshold, robust to the uneven lighting of phone photos.
+export function adaptiveThreshold(
+  image: GrayImage,
+  radius: number,
+  offset: number,
+  polarity: Polarity,
+): BinaryImage {
+  const { width, height, data } = image;
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum =
+        integral[y1 * stride + x1] -
+        integral[y0 * stride + x1] -
+        integral[y1 * stride + x0] +
+        integral[y0 * stride + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      const value = data[y * width + x];
+      out[y * width + x] =
+        polarity === "dark" ? (value < mean - offset ? 1 : 0) : value > mean + offset ? 1 : 0;
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+// Bilinear resample of a rotated/sheared window of `image`.
+export function resample(
+  image: GrayImage,
+  transform: SampleTransform,
+  width: number,
+  height: number,
+): GrayImage {
+  const out = new Uint8Array(width * height);
+  const { data } = image;
+  const maxX = image.width - 1;
+  const maxY = image.height - 1;
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const { x, y } = mapToSource(transform, u, v);
+      const cx = Math.min(Math.max(x, 0), maxX);
+      const cy = Math.min(Math.max(y, 0), maxY);
+      const x0 = Math.floor(cx);
+      const y0 = Math.floor(cy);
+      const x1 = Math.min(x0 + 1, maxX);
+      const y1 = Math.min(y0 + 1, maxY);
+      const fx = cx - x0;
+      const fy = cy - y0;
+      const top = data[y0 * image.width + x0] * (1 - fx) + data[y0 * image.width + x1] * fx;
+      const bottom = data[y1 * image.width + x0] * (1 - fx) + data[y1 * image.width + x1] * fx;
+      out[v * width + u] = Math.round(top * (1 - fy) + bottom * fy);
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+// Estimates the italic slant of a digit band by finding the shear that makes
+// vertical strokes line up, i.e. maximises the peakiness of the column histogram.
+export function estimateShear(image: BinaryImage, bandTop: number, bandBottom: number) {
+  const center = (bandTop + bandBottom) / 2;
+  let best = { shear: 0, score: -1 };
+
+  for (let step = -16; step <= 16; step++) {
+    const shear = step * 0.025;
+    const columns = new Float64Array(image.width);
+    for (let v = Math.max(0, bandTop); v < Math.min(image.height, bandBottom); v++) {
+      for (let u = 0; u < image.width; u++) {
+        if (!image.data[v * image.width + u]) continue;
+        const x = Math.round(u - shear * (v - center));
+        if (x >= 0 && x < image.width) columns[x]++;
+      }
+    }
+    let score = 0;
+    for (let x = 0; x < columns.length; x++) score += columns[x] * columns[x];
+    if (score > best.score) best = { shear, score };
+  }
+
+  return best.shear;
+}
@@ -0,0 +1,253 @@
+import {
+  adaptiveThreshold,
+  estimateShear,
+  loadGrayscale,
+  mapToSource,
+  resample,
+  type GrayImage,
+  type Polarity,
+  type SampleTransform,
+} from "./image";
+import {
+  decodeDigit,
+  findBlobs,
+  findDecimalPoint,
+  findDigitRows,
+  mergeIntoCells,
+  type Blob,
+  type DigitRow,
+} from "./segments";
+import { classifyLetter, unitFromLetters } from "./glyphs";
+import type { WeightUnit } from "@shared/units";
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScaleReading {
+  weight: number;
+  // null when the display shows no recognisable unit label
+  unit: WeightUnit | null;
+  // 0..1, combines digit clarity, unit detection and plausibility
+  confidence: number;
+  // Whether the weight is a believable body weight in its unit (pounds when
+  // there is none). Implausible readings are still returned, at a lower
+  // confidence, but are almost always misreads.
+  plausible: boolean;
+  // Display region in pixels of the upright original image
+  displayBox: BoundingBox;
+  // What was read off the display, e.g. "72.4kg"
+  rawText: string;
+}
+
+// Detection runs on a small copy; decoding on a larger one, re-sampled so
+// the digits are DIGIT_HEIGHT pixels tall.
+const COARSE_WIDTH = 640;
+const FINE_WIDTH = 1600;
+const DIGIT_HEIGHT = 80;
+const THRESHOLD_OFFSET = 12;
+const MAX_SKEW = (15 * Math.PI) / 180;
+
+// Plausible body weights per unit, used to reject misreads and to place a
+// decimal point the segmentation missed
+const PLAUSIBLE_RANGE: Record<WeightUnit, [number, number]> = {
+  kg: [20, 300],
+  lbs: [44, 660],
+  st: [3, 47],
+};
+
+interface Candidate {
+  polarity: Polarity;
+  row: DigitRow;
+}
+
+// Fits the baseline of the row to find how far the display is rotated.
+function estimateSkew(row: DigitRow) {
+  const points = row.cells.map((c) => ({ x: (c.x0 + c.x1) / 2, y: c.y1 }));
+  const meanX = points.reduce((s, p) => s + p.x, 0) / points.length;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / points.length;
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.x - meanX) * (p.y - meanY);
+    den += (p.x - meanX) ** 2;
+  }
+  const angle = den ? Math.atan(num / den) : 0;
+  return Math.max(-MAX_SKEW, Math.min(MAX_SKEW, angle));
+}
+
+function findCandidates(image: GrayImage): Candidate[] {
+  const radius = Math.max(8, Math.round(image.width / 16));
+  const candidates: Candidate[] = [];
+
+  for (const polarity of ["dark", "light"] as Polarity[]) {
+    const binary = adaptiveThreshold(image, radius, THRESHOLD_OFFSET, polarity);
+    const cells = mergeIntoCells(findBlobs(binary, 4));
+    for (const row of findDigitRows(cells, image.height, image.height * 0.03).slice(0, 3)) {
+      candidates.push({ polarity, row });
+    }
+  }
+
+  return candidates.sort((a, b) => b.row.score - a.row.score);
+}
+
+function decodeCandidate(
+  fine: GrayImage,
+  fineScale: number,
+  coarseToFine: number,
+  candidate: Candidate,
+): ScaleReading | null {
+  const { row, polarity } = candidate;
+  const angle = estimateSkew(row);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  // Work out the row's extent along the deskewed axes, in fine pixels
+  const centers = row.cells.map((c) => ({
+    x: ((c.x0 + c.x1) / 2) * coarseToFine,
+    y: ((c.y0 + c.y1) / 2) * coarseToFine,
+    w: (c.x1 - c.x0 + 1) * coarseToFine,
+  }));
+  const cx = centers.reduce((s, c) => s + c.x, 0) / centers.length;
+  const cy = centers.reduce((s, c) => s + c.y, 0) / centers.length;
+  const along = centers.map((c) => (c.x - cx) * cos + (c.y - cy) * sin);
+  const left = Math.min(...along.map((a, i) => a - centers[i].w / 2));
+  const right = Math.max(...along.map((a, i) => a + centers[i].w / 2));
+  const rowHeight = row.height * coarseToFine;
+
+  // Leave room to the right for the unit label
+  const scale = rowHeight / DIGIT_HEIGHT;
+  const startAlong = left - 0.5 * rowHeight;
+  const startAcross = -1.2 * rowHeight;
+  const outWidth = Math.round((right - left + 3.2 * rowHeight) / scale);
+  const outHeight = Math.round((2.4 * rowHeight) / scale);
+
+  const transform: SampleTransform = {
+    originX: cx + startAlong * cos - startAcross * sin,
+    originY: cy + startAlong * sin + startAcross * cos,
+    scale,
+    angle,
+    shear: 0,
+    shearCenter: outHeight / 2,
+  };
+
+  const radius = Math.round(DIGIT_HEIGHT / 2);
+  let crop = resample(fine, transform, outWidth, outHeight);
+  let binary = adaptiveThreshold(crop, radius, THRESHOLD_OFFSET, polarity);
+
+  const bandTop = Math.round(outHeight / 2 - DIGIT_HEIGHT / 2);
+  const bandBottom = Math.round(outHeight / 2 + DIGIT_HEIGHT / 2);
+  const shear = estimateShear(binary, bandTop, bandBottom);
+  if (shear !== 0) {
+    transform.shear = shear;
+    crop = resample(fine, transform, outWidth, outHeight);
+    binary = adaptiveThreshold(crop, radius, THRESHOLD_OFFSET, polarity);
+  }
+
+  const cells = mergeIntoCells(findBlobs(binary, 6));
+  const digitRow = findDigitRows(cells, outHeight, DIGIT_HEIGHT * 0.6).find((r) => {
+    const middle = (r.top + r.bottom) / 2;
+    return Math.abs(middle - outHeight / 2) < DIGIT_HEIGHT * 0.5;
+  });
+  if (!digitRow) return null;
+
+  const { top, bottom, height } = digitRow;
+  const referenceWidth = Math.max(...digitRow.cells.map((c) => c.x1 - c.x0 + 1));
+  const digits = digitRow.cells.map((cell) => decodeDigit(binary, cell, top, bottom, referenceWidth));
+  if (digits.some((d) => d.digit === "?")) return null;
+
+  const decimal = findDecimalPoint(cells, digitRow.cells, bottom, height);
+  const lastDigit = digitRow.cells[digitRow.cells.length - 1];
+
+  // Unit letters sit to the right of the digits and are smaller than them
+  const letterCells: Blob[] = [];
+  for (const cell of cells) {
+    if (cell.x0 <= lastDigit.x1 || cell === decimal?.cell) continue;
+    const h = cell.y1 - cell.y0 + 1;
+    const middle = (cell.y0 + cell.y1) / 2;
+    if (h < 0.15 * height || h > 0.85 * height) continue;
+    if (middle < top - 0.5 * height || middle > bottom + 0.5 * height) continue;
+    const previous = letterCells[letterCells.length - 1] ?? lastDigit;
+    if (cell.x0 - previous.x1 > (letterCells.length ? 0.6 : 1.5) * height) break;
+    letterCells.push(cell);
+    if (letterCells.length === 3) break;
+  }
+  const letters = letterCells.map((cell) => classifyLetter(binary, cell));
+
+  const unit = letters.every((l) => l)
+    ? unitFromLetters(letters.map((l) => l!.letter).join(""))
+    : null;
+
+  let text = digits.map((d) => d.digit).join("");
+  let decimalInferred = false;
+  if (decimal) {
+    text = `${text.slice(0, decimal.position)}.${text.slice(decimal.position)}`;
+  }
+  let weight = parseFloat(text);
+
+  const [min, max] = PLAUSIBLE_RANGE[unit ?? "lbs"];
+  if (!decimal && weight > max && text.length > 1) {
+    const withDecimal = parseFloat(`${text.slice(0, -1)}.${text.slice(-1)}`);
+    if (withDecimal >= min && withDecimal <= max) {
+      weight = withDecimal;
+      decimalInferred = true;
+    }
+  }
+  const plausible = weight >= min && weight <= max;
+
+  const digitConfidence = digits.reduce((s, d) => s + d.confidence, 0) / digits.length;
+  const confidence =
+    digitConfidence *
+    (unit ? 1 : 0.8) *
+    (decimalInferred ? 0.85 : 1) *
+    (plausible ? 1 : 0.3);
+
+  // Map the display region back to the original image
+  const displayLeft = digitRow.cells[0].x0;
+  const displayRight = letterCells.length ? letterCells[letterCells.length - 1].x1 : lastDigit.x1;
+  const margin = 0.15 * height;
+  const corners = [
+    mapToSource(transform, displayLeft - margin, top - margin),
+    mapToSource(transform, displayRight + margin, top - margin),
+    mapToSource(transform, displayLeft - margin, bottom + margin),
+    mapToSource(transform, displayRight + margin, bottom + margin),
+  ].map((p) => ({ x: p.x * fineScale, y: p.y * fineScale }));
+  const boxLeft = Math.max(0, Math.floor(Math.min(...corners.map((p) => p.x))));
+  const boxTop = Math.max(0, Math.floor(Math.min(...corners.map((p) => p.y))));
+  const boxRight = Math.ceil(Math.max(...corners.map((p) => p.x)));
+  const boxBottom = Math.ceil(Math.max(...corners.map((p) => p.y)));
+
+  return {
+    weight,
+    unit,
+    confidence: Math.round(confidence * 100) / 100,
+    plausible,
+    displayBox: { x: boxLeft, y: boxTop, width: boxRight - boxLeft, height: boxBottom - boxTop },
+    rawText: `${decimalInferred ? weight.toString() : text}${unit ?? ""}`,
+  };
+}
+
+// Reads the weight off a photo of a seven-segment/LCD scale display. Runs
+// entirely locally; returns null if no readable display was found.
+export async function readScaleDisplay(input: string | Buffer): Promise<ScaleReading | null> {
+  const coarse = await loadGrayscale(input, COARSE_WIDTH);
+  const fine = await loadGrayscale(input, FINE_WIDTH);
+  const coarseToFine = fine.image.width / coarse.image.width;
+
+  let best: ScaleReading | null = null;
+  for (const candidate of findCandidates(coarse.image).slice(0, 6)) {
+    const reading = decodeCandidate(fine.image, fine.scale, coarseToFine, candidate);
+    if (reading && (!best || reading.confidence > best.confidence)) {
+      best = reading;
+    }
+  }
+
+  if (best) {
+    best.displayBox.width = Math.min(best.displayBox.width, fine.originalWidth - best.displayBox.x);
+    best.displayBox.height = Math.min(best.displayBox.height, fine.originalHeight - best.displayBox.y);
+  }
+  return best;
+}
@@ -0,0 +1,277 @@
+import type { BinaryImage } from "./image";
+
+// Inclusive pixel bounds of a blob
+export interface Blob {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  area: number;
+}
+
+export interface DigitRow {
+  cells: Blob[];
+  top: number;
+  bottom: number;
+  height: number;
+  score: number;
+}
+
+export interface DecodedDigit {
+  digit: string;
+  confidence: number;
+}
+
+const width = (b: Blob) => b.x1 - b.x0 + 1;
+const height = (b: Blob) => b.y1 - b.y0 + 1;
+const centerY = (b: Blob) => (b.y0 + b.y1) / 2;
+const contains = (outer: Blob, inner: Blob) =>
+  outer.x0 <= inner.x0 && outer.x1 >= inner.x1 && outer.y0 <= inner.y0 && outer.y1 >= inner.y1;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Segment order is a, b, c, d, e, f, g (top, upper right, lower right,
+// bottom, lower left, upper left, middle).
+const SEGMENT_PATTERNS: Array<[string, string]> = [
+  ["1111110", "0"],
+  ["0110000", "1"],
+  ["1101101", "2"],
+  ["1111001", "3"],
+  ["0110011", "4"],
+  ["1011011", "5"],
+  ["1011111", "6"],
+  ["0011111", "6"],
+  ["1110000", "7"],
+  ["1110010", "7"],
+  ["1111111", "8"],
+  ["1111011", "9"],
+  ["1110011", "9"],
+];
+
+// Sampling windows for each segment as [x0, x1, y0, y1] fractions of the digit cell
+const SEGMENT_ZONES: Array<[number, number, number, number]> = [
+  [0.3, 0.7, 0.0, 0.14], // a
+  [0.72, 1.0, 0.18, 0.4], // b
+  [0.72, 1.0, 0.6, 0.82], // c
+  [0.3, 0.7, 0.86, 1.0], // d
+  [0.0, 0.28, 0.6, 0.82], // e
+  [0.0, 0.28, 0.18, 0.4], // f
+  [0.3, 0.7, 0.43, 0.57], // g
+];
+
+const SEGMENT_ON = 0.3;
+
+export function findBlobs(image: BinaryImage, minArea: number): Blob[] {
+  const { width: w, height: h, data } = image;
+  const seen = new Uint8Array(w * h);
+  const stack = new Int32Array(w * h);
+  const blobs: Blob[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (!data[start] || seen[start]) continue;
+
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    const blob: Blob = { x0: w, y0: h, x1: 0, y1: 0, area: 0 };
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % w;
+      const y = (index - x) / w;
+      blob.area++;
+      if (x < blob.x0) blob.x0 = x;
+      if (x > blob.x1) blob.x1 = x;
+      if (y < blob.y0) blob.y0 = y;
+      if (y > blob.y1) blob.y1 = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= h) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= w) continue;
+          const next = ny * w + nx;
+          if (data[next] && !seen[next]) {
+            seen[next] = 1;
+            stack[top++] = next;
+          }
+        }
+      }
+    }
+
+    if (blob.area >= minArea) blobs.push(blob);
+  }
+
+  return blobs;
+}
+
+// Seven-segment digits are made of disconnected bars, so blobs that share a
+// column span and sit close together vertically are merged into one cell.
+export function mergeIntoCells(blobs: Blob[], maxBlobs = 1500): Blob[] {
+  const items = [...blobs].sort((a, b) => b.area - a.area).slice(0, maxBlobs);
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i];
+      const b = items[j];
+      // Bezels and panel outlines enclose the digits; segment bars never enclose each other
+      if (contains(a, b) || contains(b, a)) continue;
+      const overlap = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0) + 1;
+      if (overlap < 0.5 * Math.min(width(a), width(b))) continue;
+      const gap = Math.max(a.y0, b.y0) - Math.min(a.y1, b.y1) - 1;
+      if (gap > 0.5 * Math.max(height(a), height(b)) + 2) continue;
+      parent[find(i)] = find(j);
+    }
+  }
+
+  const cells = new Map<number, Blob>();
+  items.forEach((blob, i) => {
+    const root = find(i);
+    const cell = cells.get(root);
+    if (!cell) {
+      cells.set(root, { ...blob });
+    } else {
+      cell.x0 = Math.min(cell.x0, blob.x0);
+      cell.y0 = Math.min(cell.y0, blob.y0);
+      cell.x1 = Math.max(cell.x1, blob.x1);
+      cell.y1 = Math.max(cell.y1, blob.y1);
+      cell.area += blob.area;
+    }
+  });
+
+  return Array.from(cells.values()).sort((a, b) => a.x0 - b.x0);
+}
+
+// Finds horizontal runs of similarly sized, tall cells, best candidates first.
+export function findDigitRows(cells: Blob[], imageHeight: number, minHeight: number): DigitRow[] {
+  const candidates = cells.filter((c) => {
+    const ratio = height(c) / width(c);
+    return height(c) >= minHeight && height(c) < 0.95 * imageHeight && ratio >= 1.1 && ratio <= 15;
+  });
+
+  const rows: DigitRow[] = [];
+  const used = new Set<Blob>();
+
+  for (const seed of candidates) {
+    if (used.has(seed)) continue;
+    const chain = [seed];
+    let current = seed;
+
+    for (;;) {
+      const h = Math.max(height(current), height(seed));
+      const next = candidates
+        .filter((c) => {
+          if (chain.includes(c)) return false;
+          const gap = c.x0 - current.x1;
+          return (
+            gap >= -0.15 * h &&
+            gap <= 1.2 * h &&
+            Math.abs(height(c) - height(seed)) <= 0.25 * Math.max(height(c), height(seed)) &&
+            Math.abs(centerY(c) - centerY(current)) <= 0.3 * h
+          );
+        })
+        .sort((a, b) => a.x0 - b.x0)[0];
+      if (!next) break;
+      chain.push(next);
+      current = next;
+    }
+
+    if (chain.length < 2) continue;
+    chain.forEach((c) => used.add(c));
+    const rowHeight = median(chain.map(height));
+    rows.push({
+      cells: chain,
+      top: median(chain.map((c) => c.y0)),
+      bottom: median(chain.map((c) => c.y1)),
+      height: rowHeight,
+      score: chain.length * rowHeight * rowHeight,
+    });
+  }
+
+  return rows.sort((a, b) => b.score - a.score);
+}
+
+function fillRatio(image: BinaryImage, x0: number, x1: number, y0: number, y1: number) {
+  const left = Math.max(0, Math.floor(x0));
+  const right = Math.min(image.width - 1, Math.ceil(x1));
+  const top = Math.max(0, Math.floor(y0));
+  const bottom = Math.min(image.height - 1, Math.ceil(y1));
+  let on = 0;
+  let total = 0;
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      on += image.data[y * image.width + x];
+      total++;
+    }
+  }
+  return total ? on / total : 0;
+}
+
+// Reads one seven-segment digit. `top`/`bottom` come from the row so that
+// digits without a top or bottom bar (4, 7) are sampled on the same grid.
+export function decodeDigit(
+  image: BinaryImage,
+  cell: Blob,
+  top: number,
+  bottom: number,
+  referenceWidth: number,
+): DecodedDigit {
+  const h = bottom - top + 1;
+
+  // A "1" only lights the right-hand bars, so its cell is a narrow column
+  if (width(cell) < 0.45 * referenceWidth) {
+    const upper = fillRatio(image, cell.x0, cell.x1, top + 0.15 * h, top + 0.4 * h);
+    const lower = fillRatio(image, cell.x0, cell.x1, top + 0.6 * h, top + 0.85 * h);
+    const confidence = Math.min(1, Math.min(upper, lower) / 0.6);
+    return { digit: confidence > 0.5 ? "1" : "?", confidence };
+  }
+
+  const w = width(cell);
+  const fills = SEGMENT_ZONES.map(([zx0, zx1, zy0, zy1]) =>
+    fillRatio(image, cell.x0 + zx0 * w, cell.x0 + zx1 * w - 1, top + zy0 * h, top + zy1 * h - 1),
+  );
+  const pattern = fills.map((fill) => (fill >= SEGMENT_ON ? "1" : "0")).join("");
+  const margin =
+    fills.reduce((sum, fill) => sum + Math.min(1, Math.abs(fill - SEGMENT_ON) / 0.3), 0) / fills.length;
+
+  let best = { digit: "?", distance: Infinity };
+  for (const [segments, digit] of SEGMENT_PATTERNS) {
+    let distance = 0;
+    for (let i = 0; i < segments.length; i++) {
+      if (segments[i] !== pattern[i]) distance++;
+    }
+    if (distance < best.distance) best = { digit, distance };
+  }
+
+  if (best.distance > 1) return { digit: "?", confidence: 0 };
+  return { digit: best.digit, confidence: best.distance === 0 ? margin : margin * 0.5 };
+}
+
+// Returns the number of digits before a decimal point, if one is lit.
+export function findDecimalPoint(cells: Blob[], digits: Blob[], bottom: number, rowHeight: number) {
+  const digitWidth = median(digits.map(width));
+
+  for (const cell of cells) {
+    if (digits.includes(cell)) continue;
+    if (height(cell) > 0.25 * rowHeight || width(cell) > 0.4 * digitWidth) continue;
+    if (Math.abs(cell.y1 - bottom) > 0.15 * rowHeight) continue;
+    if (height(cell) < 0.04 * rowHeight) continue;
+
+    const centerX = (cell.x0 + cell.x1) / 2;
+    for (let i = 0; i < digits.length - 1; i++) {
+      const left = digits[i];
+      const right = digits[i + 1];
+      if (centerX > left.x1 - 0.1 * digitWidth && centerX < right.x0 + 0.1 * digitWidth) {
+        return { cell, position: i + 1 };
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,111 @@
+import type { PhotoCleanupRun } from "@shared/schema";
+import type { BlobInfo, BlobStore } from "./blobStore";
+import { systemClock, type Clock } from "./clock";
+import { logger } from "./logger";
+import { storage } from "./storage";
+import { photoPathsFor, photoStore } from "./uploads";
+
+const SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+// Newer files may belong to an upload whose entry or detection isn't saved yet
+const GRACE_PERIOD_MS = 60 * 60 * 1000; // 1 hour
+// Files looked up against the database at a time
+const BATCH_SIZE = 500;
+
+export interface PhotoCleanupOptions {
+  clock?: Clock;
+  store?: BlobStore;
+  intervalMs?: number;
+  gracePeriodMs?: number;
+}
+
+// Periodically deletes photo files, and their thumbnails, that no weight entry,
+// pending detection or progress photo refers to any more: left behind by failed uploads,
+// crashes between saving a file and its row, or rows deleted without their
+// file. Each sweep is recorded in photo_cleanup_runs for the admin report.
+export function createPhotoCleanup(options: PhotoCleanupOptions = {}) {
+  const clock = options.clock ?? systemClock;
+  const store = options.store ?? photoStore;
+  const intervalMs = options.intervalMs ?? SWEEP_INTERVAL_MS;
+  const gracePeriodMs = options.gracePeriodMs ?? GRACE_PERIOD_MS;
+
+  let running: Promise<PhotoCleanupRun> | null = null;
+  let cancel: (() => void) | null = null;
+
+  async function runSweep(): Promise<PhotoCleanupRun> {
+    const startedAt = clock.now();
+    const cutoff = startedAt.getTime() - gracePeriodMs;
+    let filesScanned = 0;
+    let filesRemoved = 0;
+    let bytesReclaimed = 0;
+    let error: string | null = null;
+
+    // Deletes the files in `batch` that none of their possible photoPaths is
+    // still referenced by
+    async function removeUnreferenced(batch: BlobInfo[]) {
+      const referenced = new Set(
+        await storage.getReferencedPhotoPaths(batch.flatMap((file) => photoPathsFor(file.key))),
+      );
+      for (const file of batch) {
+        if (photoPathsFor(file.key).some((photoPath) => referenced.has(photoPath))) continue;
+        await store.delete(file.key);
+        filesRemoved++;
+        bytesReclaimed += file.size;
+      }
+    }
+
+    try {
+      let batch: BlobInfo[] = [];
+      for await (const file of store.list()) {
+        filesScanned++;
+        // Files not named like a photo or thumbnail aren't ours to delete
+        if (file.modifiedAt.getTime() > cutoff || photoPathsFor(file.key).length === 0) continue;
+        batch.push(file);
+        if (batch.length >= BATCH_SIZE) {
+          await removeUnreferenced(batch);
+          batch = [];
+        }
+      }
+      await removeUnreferenced(batch);
+    } catch (err: any) {
+      error = err?.message || "Cleanup failed";
+    }
+
+    return await storage.createPhotoCleanupRun({
+      startedAt,
+      finishedAt: clock.now(),
+      filesScanned,
+      filesRemoved,
+      bytesReclaimed,
+      error,
+    });
+  }
+
+  // Sweeps now, or joins the sweep already running. Errors are recorded in
+  // the returned run, not thrown.
+  function sweep() {
+    if (!running) {
+      running = runSweep().finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  }
+
+  return {
+    sweep,
+    start() {
+      if (cancel) return;
+      cancel = clock.every(intervalMs, () => {
+        sweep().catch((error) => {
+          logger.error("Error sweeping unreferenced photos", { error });
+        });
+      });
+    },
+    stop() {
+      cancel?.();
+      cancel = null;
+    },
+  };
+}
+
+export type PhotoCleanup = ReturnType<typeof createPhotoCleanup>;
@@ -0,0 +1,42 @@
+import { logger } from "./logger";
+import type { ScaleReading } from "./ocr";
+import { storage } from "./storage";
+import { removeUpload } from "./uploads";
+
+// How long an unconfirmed detection (and its photo) is kept
+export const DETECTION_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+// Photos from Google Photos wait longer for review than uploads, which the
+// user is looking at
+export const SYNCED_DETECTION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+const CLEANUP_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
+export function detectionExpiry(from: Date = new Date(), ttlMs: number = DETECTION_TTL_MS) {
+  return new Date(from.getTime() + ttlMs);
+}
+
+// The reading worth suggesting to the user, or null. An implausible reading
+// is a misread, and from 1000 up wouldn't fit detected_weight either.
+export function plausibleReading(reading: ScaleReading | null) {
+  return reading?.plausible ? reading : null;
+}
+
+// Removes expired, unconfirmed detections and garbage-collects their photos.
+// Returns the number of detections removed.
+export async function purgeExpiredDetections(now: Date = new Date()) {
+  const expired = await storage.deleteExpiredPhotoDetections(now);
+  for (const detection of expired) {
+    await removeUpload(detection.photoPath);
+  }
+  return expired.length;
+}
+
+export function startDetectionCleanup(intervalMs: number = CLEANUP_INTERVAL_MS) {
+  const timer = setInterval(() => {
+    purgeExpiredDetections().catch((error) => {
+      logger.error("Error purging expired photo detections", { error });
+    });
+  }, intervalMs);
+  // Don't keep the process alive just for cleanup
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,217 @@
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startTestServer, type TestServer } from "./testing/harness";
+import { createFakeClock, createFakePhotosLibrary, type FakeClock, type FakePhotosLibrary } from "./testing/fakes";
+import type { ScaleReading } from "./ocr";
+import type { PhotoSyncScheduler } from "./photoSync";
+
+// The real reader, unless a test gives it a reading to return
+vi.mock("./ocr", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./ocr")>();
+  return { ...actual, readScaleDisplay: vi.fn(actual.readScaleDisplay) };
+});
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+let server: TestServer;
+let createPhotoSyncScheduler: typeof import("./photoSync").createPhotoSyncScheduler;
+let readScaleDisplay: typeof import("./ocr").readScaleDisplay;
+let scalePhoto: Buffer;
+let otherPhoto: Buffer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  ({ createPhotoSyncScheduler } = await import("./photoSync"));
+  ({ readScaleDisplay } = await import("./ocr"));
+  scalePhoto = await sharp(path.join(import.meta.dirname, "ocr/fixtures/lcd-kg-straight.svg")).jpeg().toBuffer();
+  otherPhoto = await sharp({ create: { width: 640, height: 480, channels: 3, background: "#777" } }).jpeg().toBuffer();
+});
+
+afterAll(async () => {
+  await server?.close();
+});
+
+let userId: string;
+let clock: FakeClock;
+let library: FakePhotosLibrary;
+let scheduler: PhotoSyncScheduler;
+let nextUser = 0;
+
+beforeEach(async () => {
+  // A user of their own per test, as storage lives as long as the file
+  userId = `sync-user-${++nextUser}`;
+  await server.storage.upsertUser({ id: userId });
+  clock = createFakeClock(NOW);
+  library = createFakePhotosLibrary();
+  scheduler = createPhotoSyncScheduler({
+    clock,
+    getClient: async (id) => (id === userId ? library : null),
+  });
+});
+
+function addPhoto(id: string, takenAgoMs: number, data = scalePhoto) {
+  const creationTime = new Date(clock.now().getTime() - takenAgoMs).toISOString();
+  library.add({ id, mimeType: "image/jpeg", mediaMetadata: { creationTime } }, data);
+  return new Date(creationTime);
+}
+
+const pendingDetections = () => server.storage.getPendingPhotoDetections(userId, clock.now());
+
+describe("incremental cursor", () => {
+  it("looks back a week on the first run and moves the cursor to the newest photo", async () => {
+    addPhoto("too-old", 8 * DAY);
+    addPhoto("older", 2 * DAY);
+    const newest = addPhoto("newest", HOUR);
+
+    const state = await scheduler.syncUser(userId);
+
+    expect(library.downloads).toEqual(["older", "newest"]);
+    expect(state).toMatchObject({ cursor: newest, lastScanned: 2, lastError: null, lastSuccessAt: NOW });
+  });
+
+  it("only downloads photos taken since the cursor on later runs", async () => {
+    addPhoto("first", 2 * HOUR);
+    await scheduler.syncUser(userId);
+
+    clock.advance(HOUR);
+    const taken = addPhoto("second", 10 * 60 * 1000);
+    const state = await scheduler.syncUser(userId);
+
+    expect(library.downloads).toEqual(["first", "second"]);
+    expect(state).toMatchObject({ cursor: taken, lastScanned: 1, totalScanned: 2, lastRunAt: clock.now() });
+  });
+
+  it("keeps the cursor where it was when a download fails", async () => {
+    const first = addPhoto("first", 2 * HOUR);
+    await scheduler.syncUser(userId);
+    addPhoto("second", HOUR);
+    const download = library.download;
+    library.download = async () => {
+      throw new Error("network down");
+    };
+
+    const failed = await scheduler.syncUser(userId);
+    library.download = download;
+    const retried = await scheduler.syncUser(userId);
+
+    expect(failed).toMatchObject({ cursor: first, lastError: "network down", lastSuccessAt: NOW });
+    expect(retried).toMatchObject({ lastError: null, lastQueued: 1, totalQueued: 2 });
+  });
+
+  it("records a library that isn't connected as an error", async () => {
+    await server.storage.upsertUser({ id: "not-connected" });
+
+    const state = await scheduler.syncUser("not-connected");
+
+    expect(state).toMatchObject({
+      cursor: new Date(NOW.getTime() - 7 * DAY),
+      lastError: "Google Photos is not connected",
+      lastSuccessAt: null,
+    });
+  });
+
+  it("syncs connected users on every tick of the clock", async () => {
+    await server.storage.upsertConnectedAccount({ userId, provider: "google", accessToken: "token" });
+    addPhoto("scheduled", HOUR);
+    scheduler.start();
+
+    clock.advance(29 * 60 * 1000);
+    expect(await server.storage.getPhotoSyncState(userId)).toBeUndefined();
+    clock.advance(60 * 1000);
+    // The run is in the background, and reading the display takes a while
+    const state = await vi.waitFor(async () => {
+      const state = await server.storage.getPhotoSyncState(userId);
+      expect(state).toBeDefined();
+      return state;
+    }, { timeout: 5000 });
+    scheduler.stop();
+
+    expect(state).toMatchObject({ lastRunAt: clock.now(), lastQueued: 1 });
+    expect(library.downloads).toEqual(["scheduled"]);
+  });
+});
+
+describe("already imported media", () => {
+  it("skips photos that were imported by hand", async () => {
+    addPhoto("imported", 2 * HOUR);
+    const fresh = addPhoto("fresh", HOUR);
+    await server.storage.createImportedMediaEntry(
+      { userId, weight: "72.40", unit: "kg", recordedAt: NOW },
+      "google_photos",
+      "imported",
+    );
+
+    const state = await scheduler.syncUser(userId);
+
+    expect(library.downloads).toEqual(["fresh"]);
+    expect(state).toMatchObject({ cursor: fresh, lastScanned: 1 });
+  });
+
+  it("doesn't queue a photo twice when it comes round again", async () => {
+    addPhoto("queued", HOUR);
+    await scheduler.syncUser(userId);
+    // As if the cursor had been lost
+    await server.storage.upsertPhotoSyncState({ userId, cursor: new Date(NOW.getTime() - DAY) });
+
+    const state = await scheduler.syncUser(userId);
+
+    expect(library.downloads).toEqual(["queued"]);
+    expect(state).toMatchObject({ lastScanned: 0, lastQueued: 0 });
+    expect(await pendingDetections()).toHaveLength(1);
+  });
+});
+
+describe("scale display classification", () => {
+  it("queues a detection with the weight read off a scale photo", async () => {
+    const taken = addPhoto("scale", HOUR);
+
+    const state = await scheduler.syncUser(userId);
+
+    expect(state).toMatchObject({ lastScanned: 1, lastQueued: 1 });
+    const [detection] = await pendingDetections();
+    expect(detection).toMatchObject({
+      mediaId: "scale",
+      source: "google_photos",
+      detectedWeight: "72.40",
+      unit: "kg",
+      takenAt: taken,
+      expiresAt: new Date(NOW.getTime() + 7 * DAY),
+    });
+    expect(fs.existsSync(path.join(server.uploadDir, path.basename(detection.photoPath)))).toBe(true);
+  });
+
+  it("throws away photos that don't show a scale", async () => {
+    addPhoto("not-a-scale", HOUR, otherPhoto);
+    const filesBefore = fs.readdirSync(server.uploadDir).length;
+
+    const state = await scheduler.syncUser(userId);
+
+    expect(state).toMatchObject({ lastScanned: 1, lastQueued: 0, lastError: null });
+    expect(await pendingDetections()).toEqual([]);
+    expect(fs.readdirSync(server.uploadDir)).toHaveLength(filesBefore);
+  });
+
+  it("throws away a reading outside the plausible range", async () => {
+    const misread: ScaleReading = {
+      weight: 1824,
+      unit: "lbs",
+      confidence: 0.29,
+      plausible: false,
+      displayBox: { x: 0, y: 0, width: 10, height: 10 },
+      rawText: "1824lbs",
+    };
+    vi.mocked(readScaleDisplay).mockResolvedValueOnce(misread);
+    addPhoto("misread", HOUR);
+    const filesBefore = fs.readdirSync(server.uploadDir).length;
+
+    const state = await scheduler.syncUser(userId);
+
+    expect(state).toMatchObject({ lastScanned: 1, lastQueued: 0, lastError: null });
+    expect(await pendingDetections()).toEqual([]);
+    expect(fs.readdirSync(server.uploadDir)).toHaveLength(filesBefore);
+  });
+});
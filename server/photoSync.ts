@@ -0,0 +1,169 @@
+import type { PhotoSyncState } from "@shared/schema";
+import { systemClock, type Clock } from "./clock";
+import { GOOGLE_PROVIDER, getGoogleClient } from "./googleAccount";
+import { createGooglePhotosClient, creationTime, type PhotosClient, type PhotosMediaItem } from "./googlePhotos";
+import { GOOGLE_PHOTOS_SOURCE, SCALE_PHOTO_SIZE } from "./googlePhotosImport";
+import { logger } from "./logger";
+import { readScaleDisplay } from "./ocr";
+import { detectionExpiry, plausibleReading, SYNCED_DETECTION_TTL_MS } from "./photoDetections";
+import { storage } from "./storage";
+import { removeUpload, saveUpload } from "./uploads";
+import { webhookDispatcher } from "./webhooks";
+
+const SYNC_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
+// How far back the first sync looks
+const INITIAL_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+// Photos downloaded per user per run; the rest wait for the next run
+const MAX_PHOTOS_PER_RUN = 25;
+
+export interface PhotoSyncOptions {
+  clock?: Clock;
+  // The user's library, or null when they haven't connected one
+  getClient?: (userId: string) => Promise<PhotosClient | null>;
+  intervalMs?: number;
+}
+
+async function googlePhotosClientFor(userId: string) {
+  const auth = await getGoogleClient(userId);
+  return auth && createGooglePhotosClient(auth);
+}
+
+// Downloads the photo and queues a detection for review if the scale reader
+// finds a believable weight on it. Photos of anything else are thrown away.
+async function queueIfScalePhoto(client: PhotosClient, userId: string, item: PhotosMediaItem, now: Date) {
+  const { photoPath, photo } = await saveUpload(await client.download(item, SCALE_PHOTO_SIZE));
+  try {
+    const reading = plausibleReading(await readScaleDisplay(photo));
+    if (!reading) {
+      await removeUpload(photoPath);
+      return false;
+    }
+
+    const detection = await storage.createPhotoDetection({
+      userId,
+      photoPath,
+      detectedWeight: reading.weight.toString(),
+      unit: reading.unit,
+      confidence: reading.confidence.toString(),
+      displayBox: reading.displayBox,
+      source: GOOGLE_PHOTOS_SOURCE,
+      mediaId: item.id,
+      takenAt: creationTime(item),
+      expiresAt: detectionExpiry(now, SYNCED_DETECTION_TTL_MS),
+    });
+    await webhookDispatcher.emit(userId, "photo.detected", { detection });
+    return true;
+  } catch (error) {
+    await removeUpload(photoPath);
+    throw error;
+  }
+}
+
+// Periodically scans every connected Google Photos library for photos taken
+// since that user's cursor and queues the ones showing a scale for review.
+// Each user's progress, counts and last error are kept in photo_sync_states.
+export function createPhotoSyncScheduler(options: PhotoSyncOptions = {}) {
+  const clock = options.clock ?? systemClock;
+  const getClient = options.getClient ?? googlePhotosClientFor;
+  const intervalMs = options.intervalMs ?? SYNC_INTERVAL_MS;
+
+  // One run per user at a time, whether scheduled or requested
+  const inFlight = new Map<string, Promise<PhotoSyncState>>();
+  let runningAll: Promise<void> | null = null;
+  let cancel: (() => void) | null = null;
+
+  async function runSync(userId: string): Promise<PhotoSyncState> {
+    const now = clock.now();
+    const previous = await storage.getPhotoSyncState(userId);
+    let cursor = previous?.cursor ?? new Date(now.getTime() - INITIAL_LOOKBACK_MS);
+    let scanned = 0;
+    let queued = 0;
+    let lastError: string | null = null;
+
+    try {
+      const client = await getClient(userId);
+      if (!client) {
+        throw new Error("Google Photos is not connected");
+      }
+
+      const items = (await client.listPhotosSince(cursor)).slice(0, MAX_PHOTOS_PER_RUN);
+      const ids = items.map((item) => item.id);
+      // The cursor only moves forward, but photos sharing its timestamp or
+      // imported by hand may come round again
+      const seen = new Set([
+        ...(await storage.getImportedMediaIds(userId, GOOGLE_PHOTOS_SOURCE, ids)),
+        ...(await storage.getQueuedMediaIds(userId, GOOGLE_PHOTOS_SOURCE, ids)),
+      ]);
+
+      for (const item of items) {
+        if (!seen.has(item.id)) {
+          scanned++;
+          if (await queueIfScalePhoto(client, userId, item, now)) queued++;
+        }
+        // Only advanced past photos that were fully handled, so a failure is
+        // retried on the next run
+        cursor = creationTime(item) ?? cursor;
+      }
+    } catch (error: any) {
+      lastError = error?.message || "Sync failed";
+    }
+
+    return await storage.upsertPhotoSyncState({
+      userId,
+      cursor,
+      lastRunAt: now,
+      ...(lastError === null && { lastSuccessAt: now }),
+      lastError,
+      lastScanned: scanned,
+      lastQueued: queued,
+      totalScanned: (previous?.totalScanned ?? 0) + scanned,
+      totalQueued: (previous?.totalQueued ?? 0) + queued,
+    });
+  }
+
+  // Syncs one user now. Errors are recorded in the returned state, not thrown.
+  function syncUser(userId: string) {
+    let run = inFlight.get(userId);
+    if (!run) {
+      run = runSync(userId).finally(() => inFlight.delete(userId));
+      inFlight.set(userId, run);
+    }
+    return run;
+  }
+
+  // Syncs every connected user who hasn't turned syncing off, one at a time
+  function syncAll() {
+    if (!runningAll) {
+      runningAll = (async () => {
+        const userIds = await storage.getConnectedAccountUserIds(GOOGLE_PROVIDER);
+        for (const userId of userIds) {
+          const state = await storage.getPhotoSyncState(userId);
+          if (state && !state.enabled) continue;
+          await syncUser(userId);
+        }
+      })().finally(() => {
+        runningAll = null;
+      });
+    }
+    return runningAll;
+  }
+
+  return {
+    syncUser,
+    syncAll,
+    start() {
+      if (cancel) return;
+      cancel = clock.every(intervalMs, () => {
+        syncAll().catch((error) => {
+          logger.error("Error syncing Google Photos", { error });
+        });
+      });
+    },
+    stop() {
+      cancel?.();
+      cancel = null;
+    },
+  };
+}
+
+export type PhotoSyncScheduler = ReturnType<typeof createPhotoSyncScheduler>;
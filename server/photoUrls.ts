@@ -0,0 +1,38 @@
+import crypto from "crypto";
+
+// How long a signed photo URL works
+export const SIGNED_URL_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+let cachedSecret: Buffer | undefined;
+
+// PHOTO_URL_SECRET, or SESSION_SECRET when that isn't set. Without either,
+// a random secret means links stop working when the server restarts, and
+// aren't accepted by other instances.
+function getSecret() {
+  if (cachedSecret) return cachedSecret;
+  const value = process.env.PHOTO_URL_SECRET || process.env.SESSION_SECRET;
+  cachedSecret = value ? Buffer.from(value) : crypto.randomBytes(32);
+  return cachedSecret;
+}
+
+const sign = (fileName: string, expires: number) =>
+  crypto.createHmac("sha256", getSecret()).update(`${fileName}:${expires}`).digest("base64url");
+
+// A URL for a photo or thumbnail that works without signing in until it
+// expires, for embedding where cookies and API tokens aren't sent
+export function signPhotoUrl(fileName: string, now: Date = new Date(), ttlMs: number = SIGNED_URL_TTL_MS) {
+  const expires = Math.floor((now.getTime() + ttlMs) / 1000);
+  return {
+    url: `/api/photo-files/${fileName}?expires=${expires}&signature=${sign(fileName, expires)}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+// Whether `signature` was made by signPhotoUrl for this file and hasn't expired
+export function verifyPhotoSignature(fileName: string, expires: unknown, signature: unknown, now: Date = new Date()) {
+  if (typeof expires !== "string" || typeof signature !== "string" || !/^\d+$/.test(expires)) return false;
+  if (Number(expires) * 1000 <= now.getTime()) return false;
+  const expected = Buffer.from(sign(fileName, Number(expires)));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,63 @@
+import type { ProgressPhoto, WeightEntry } from "@shared/schema";
+import { formatWeight, type DisplayUnit, type DisplayWeight } from "@shared/units";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far from a photo an unlinked weigh-in may be and still count as its weight
+const NEAREST_WEIGH_IN_MS = 3 * DAY_MS;
+
+export interface ProgressPhotoWeight {
+  entryId: number;
+  recordedAt: Date;
+  // The photo's linked entry, rather than the weigh-in closest to when it was taken
+  linked: boolean;
+  weightGrams: number;
+  display: DisplayWeight;
+}
+
+function closestEntry(entries: WeightEntry[], at: Date) {
+  let closest: WeightEntry | undefined;
+  let closestDistance = NEAREST_WEIGH_IN_MS;
+  for (const entry of entries) {
+    const distance = Math.abs(entry.recordedAt!.getTime() - at.getTime());
+    if (distance <= closestDistance) {
+      closest = entry;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+// Adds the weight each photo shows: its linked entry's, or else that of the
+// weigh-in closest to when it was taken, if there is one within 3 days
+export async function withWeights(userId: string, photos: ProgressPhoto[], displayUnit: DisplayUnit) {
+  if (photos.length === 0) return [];
+  const times = photos.map((photo) => photo.takenAt.getTime());
+  const entries = await storage.getWeightEntriesBetween(
+    userId,
+    new Date(Math.min(...times) - NEAREST_WEIGH_IN_MS),
+    new Date(Math.max(...times) + NEAREST_WEIGH_IN_MS),
+  );
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+
+  return await Promise.all(
+    photos.map(async (photo) => {
+      // A linked entry may have been moved away from the photo's date
+      const linked =
+        photo.weightEntryId === null
+          ? undefined
+          : entriesById.get(photo.weightEntryId) ?? (await storage.getWeightEntry(photo.weightEntryId, userId));
+      const entry = linked ?? closestEntry(entries, photo.takenAt);
+      const weight: ProgressPhotoWeight | null = entry
+        ? {
+            entryId: entry.id,
+            recordedAt: entry.recordedAt!,
+            linked: entry === linked,
+            weightGrams: entry.weightGrams,
+            display: formatWeight(entry.weightGrams, displayUnit),
+          }
+        : null;
+      return { ...photo, weight };
+    }),
+  );
+}
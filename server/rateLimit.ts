@@ -0,0 +1,181 @@
+import type { Request, RequestHandler } from "express";
+import { lte, sql } from "drizzle-orm";
+import { rateLimits } from "@shared/schema";
+import { systemClock, type Clock } from "./clock";
+import { getDb } from "./db";
+import { TooManyRequestsError } from "./errors";
+import { logger } from "./logger";
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Counters that reset at the end of a fixed window
+export interface RateLimitStore {
+  // Adds `amount` to the counter for `key` and returns the new total. A
+  // counter that doesn't exist or whose window has ended starts again at
+  // `amount`, with a window ending at `resetAt`.
+  increment(key: string, amount: number, now: Date, resetAt: Date): Promise<{ count: number; resetAt: Date }>;
+  // Drops counters whose window ended before `now`
+  prune(now: Date): Promise<void>;
+}
+
+// Counters for a single server process
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; resetAt: Date }>();
+
+  async increment(key: string, amount: number, now: Date, resetAt: Date) {
+    const current = this.counters.get(key);
+    const counter =
+      current && current.resetAt > now
+        ? { count: current.count + amount, resetAt: current.resetAt }
+        : { count: amount, resetAt };
+    this.counters.set(key, counter);
+    return { ...counter };
+  }
+
+  async prune(now: Date) {
+    for (const [key, counter] of Array.from(this.counters)) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+// Counters in the rate_limits table, shared by every server on the database
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, amount: number, now: Date, resetAt: Date) {
+    // Both CASEs see the row as it was, so an ended window restarts as one
+    const ended = sql`${rateLimits.resetAt} <= ${sql.param(now, rateLimits.resetAt)}`;
+    const [counter] = await getDb()
+      .insert(rateLimits)
+      .values({ key, count: amount, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`case when ${ended} then ${amount} else ${rateLimits.count} + ${amount} end`,
+          resetAt: sql`case when ${ended} then ${sql.param(resetAt, rateLimits.resetAt)} else ${rateLimits.resetAt} end`,
+        },
+      })
+      .returning({ count: rateLimits.count, resetAt: rateLimits.resetAt });
+    return counter;
+  }
+
+  async prune(now: Date) {
+    await getDb().delete(rateLimits).where(lte(rateLimits.resetAt, now));
+  }
+}
+
+// Counters live with the rest of the data: in process for STORAGE_PROVIDER=memory,
+// otherwise in Postgres so that limits hold across server instances
+export const rateLimitStore: RateLimitStore =
+  process.env.STORAGE_PROVIDER === "memory" ? new MemoryRateLimitStore() : new PostgresRateLimitStore();
+
+export interface RateLimitOptions {
+  store?: RateLimitStore;
+  clock?: Clock;
+}
+
+export interface RateLimitRule {
+  // Keeps this limit's counters apart from other limits', e.g. "upload:ip"
+  name: string;
+  max: number;
+  windowMs: number;
+  // Requests with the same key share a counter. Requests without one aren't limited.
+  key: (req: Request) => string | undefined;
+}
+
+// Counts per signed-in user, including API token requests. Must come after
+// the authentication middleware.
+export const byUser = (req: Request) => req.userId;
+
+// Counts per client address. Behind a proxy this relies on "trust proxy",
+// which the auth providers set.
+export const byIp = (req: Request) => req.ip;
+
+const secondsUntil = (resetAt: Date, now: Date) =>
+  Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000));
+
+// Answers 429 with Retry-After once a key has made `max` requests in the
+// current window. If the store can't be reached requests are let through,
+// so an outage of the limiter doesn't become an outage of the API.
+export function rateLimit(
+  rule: RateLimitRule,
+  { store = rateLimitStore, clock = systemClock }: RateLimitOptions = {},
+): RequestHandler {
+  return (req, _res, next) => {
+    const key = rule.key(req);
+    if (!key || process.env.RATE_LIMIT === "off") return next();
+
+    const now = clock.now();
+    store
+      .increment(`${rule.name}:${key}`, 1, now, new Date(now.getTime() + rule.windowMs))
+      .then(({ count, resetAt }) => {
+        if (count <= rule.max) return next();
+        const retryAfter = secondsUntil(resetAt, now);
+        next(new TooManyRequestsError(`Too many requests. Try again in ${retryAfter} seconds.`, retryAfter));
+      })
+      .catch((error) => {
+        logger.warn("Rate limit store unavailable, allowing request", { error, limit: rule.name });
+        next();
+      });
+  };
+}
+
+// Start of the next UTC day
+function nextUtcDay(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+export interface DailyQuota {
+  // Counts `amount` against `key`'s allowance for today, or throws a
+  // TooManyRequestsError (code "quota_exceeded") without counting it
+  consume(key: string, amount: number): Promise<void>;
+  // Gives back `amount` consumed today, e.g. for an upload that was then
+  // rejected. Never throws.
+  refund(key: string, amount: number): Promise<void>;
+}
+
+// An allowance, e.g. of uploaded bytes, that resets at midnight UTC
+export function createDailyQuota(
+  name: string,
+  max: number,
+  { store = rateLimitStore, clock = systemClock }: RateLimitOptions = {},
+): DailyQuota {
+  const counterKey = (key: string, now: Date) => `${name}:${key}:${now.toISOString().slice(0, 10)}`;
+
+  return {
+    async consume(key, amount) {
+      if (process.env.RATE_LIMIT === "off") return;
+      const now = clock.now();
+      const resetAt = nextUtcDay(now);
+
+      const counter = await store.increment(counterKey(key, now), amount, now, resetAt);
+      if (counter.count <= max) return;
+      // Give back what was refused, so a smaller upload can still fit
+      await store.increment(counterKey(key, now), -amount, now, resetAt);
+      const retryAfter = secondsUntil(counter.resetAt, now);
+      throw new TooManyRequestsError(
+        "You've reached today's upload limit. Try again tomorrow.",
+        retryAfter,
+        "quota_exceeded",
+      );
+    },
+    async refund(key, amount) {
+      if (process.env.RATE_LIMIT === "off") return;
+      const now = clock.now();
+      try {
+        await store.increment(counterKey(key, now), -amount, now, nextUtcDay(now));
+      } catch (error) {
+        logger.warn("Rate limit store unavailable, quota not refunded", { error, quota: name });
+      }
+    },
+  };
+}
+
+// Periodically drops ended windows, which would otherwise pile up one per
+// client address
+export function startRateLimitCleanup({ store = rateLimitStore, clock = systemClock }: RateLimitOptions = {}) {
+  return clock.every(PRUNE_INTERVAL_MS, () => {
+    store.prune(clock.now()).catch((error) => {
+      logger.error("Error pruning rate limits", { error });
+    });
+  });
+}
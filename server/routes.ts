@@ -1,53 +1,78 @@
-import express, { type Express } from "express";
+import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
+  weightEntryCreateSchema,
   weightEntryInsertSchema,
-  activityLogInsertSchema 
+  weightEntryUpdateSchema,
+  activityLogInsertSchema,
+  goalInsertSchema,
+  goalUpdateSchema,
+  userPreferencesSchema,
+  weightImportSchema,
+  weightEntryQuerySchema,
+  activityLogQuerySchema,
+  activityLogFilterSchema,
+  scaleIngestQuerySchema,
+  chartMetricSchema,
+  googlePhotosImportSchema,
+  photoSyncSettingsSchema,
+  progressPhotoInsertSchema,
+  progressPhotoUpdateSchema,
+  progressPhotoQuerySchema,
+  apiTokenCreateSchema,
+  webhookInsertSchema,
+  webhookUpdateSchema,
+  type PhotoDetection,
+  type WeightEntry,
 } from "@shared/schema";
-import multer from "multer";
-import path from "path";
-import fs from "fs";
+import {
+  baseUnit,
+  formatWeight,
+  fromGrams,
+  isDisplayUnit,
+  isWeightUnit,
+  type DisplayUnit,
+} from "@shared/units";
 import { google } from "googleapis";
-import { OAuth2Client } from "google-auth-library";
-
-// Configure multer for file uploads
-const uploadDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-const upload = multer({
-  dest: uploadDir,
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    if (file.mimetype.startsWith("image/")) {
-      cb(null, true);
-    } else {
-      cb(new Error("Only image files are allowed"));
-    }
-  },
-});
-
-// Mock OCR function - simulates reading weight from image
-function mockOCRProcessing(): number {
-  // Generate a realistic weight reading between 100-250 lbs
-  return parseFloat((Math.random() * 150 + 100).toFixed(1));
-}
-
-// Google Photos OAuth configuration
-const oauth2Client = new OAuth2Client(
-  process.env.GOOGLE_CLIENT_ID || "mock-client-id",
-  process.env.GOOGLE_CLIENT_SECRET || "mock-client-secret",
-  process.env.GOOGLE_REDIRECT_URI || "http://localhost:5000/api/auth/google/callback"
-);
-
-// Google Photos API scopes
-const GOOGLE_PHOTOS_SCOPES = [
-  'https://www.googleapis.com/auth/photoslibrary.readonly'
-];
+import { readScaleDisplay, type ScaleReading } from "./ocr";
+import { loadPhotoFile, photoPathsFor, removeUpload, saveUpload, upload } from "./uploads";
+import { signPhotoUrl, verifyPhotoSignature } from "./photoUrls";
+import { detectionExpiry, plausibleReading, startDetectionCleanup } from "./photoDetections";
+import { computeGoalProgress, markAchievedGoals } from "./goals";
+import { computeMetricSeries, computeTrend } from "./analytics";
+import { planWeightImport } from "./weightImport";
+import { getScaleAdapter, planScaleIngest, scaleVendors } from "./bodyComposition";
+import {
+  GOOGLE_PHOTOS_SCOPES,
+  GOOGLE_PROVIDER,
+  checkGoogleOAuthState,
+  createGoogleOAuthClient,
+  createGoogleOAuthState,
+  disconnectGoogle,
+  getGoogleClient,
+  saveGoogleTokens,
+} from "./googleAccount";
+import { createGooglePhotosClient } from "./googlePhotos";
+import { GOOGLE_PHOTOS_SOURCE, importGooglePhotos } from "./googlePhotosImport";
+import { createPhotoCleanup } from "./photoCleanup";
+import { createPhotoSyncScheduler } from "./photoSync";
+import { withWeights } from "./progressPhotos";
+import { getUserId, loadAuthProvider, requireAdmin } from "./auth";
+import { createApiTokenAuth, generateApiToken, toApiTokenResponse } from "./apiTokens";
+import { checkWebhookTarget, generateWebhookSecret, toWebhookResponse, webhookDispatcher } from "./webhooks";
+import {
+  activityExportFileName,
+  exportContentTypes,
+  exportFileName,
+  exportFormats,
+  writeActivityLogCsv,
+  writeExport,
+  type ExportFormat,
+} from "./dataExport";
+import { asyncHandler, BadRequestError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from "./errors";
+import { logger } from "./logger";
+import { byIp, byUser, createDailyQuota, rateLimit, startRateLimitCleanup } from "./rateLimit";
 
 // Mock Google Photos data for development
 const mockGooglePhotos = Array.from({ length: 30 }, (_, i) => ({
@@ -62,283 +87,957 @@ const mockGooglePhotos = Array.from({ length: 30 }, (_, i) => ({
   }
 }));
 
-const getUserId = (req: any) => {
-  if (process.env.AUTH_PROVIDER === 'auth0') {
-    return req.user.id;
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Per-user limits catch a runaway client or token; per-IP limits catch many
+// accounts, or none, behind one address
+const signInLimit = rateLimit({ name: "sign-in:ip", max: 20, windowMs: 15 * MINUTE, key: byIp });
+const uploadLimits = [
+  rateLimit({ name: "upload:user", max: 30, windowMs: HOUR, key: byUser }),
+  rateLimit({ name: "upload:ip", max: 100, windowMs: HOUR, key: byIp }),
+];
+const entryLimits = [
+  rateLimit({ name: "entries:user", max: 300, windowMs: 15 * MINUTE, key: byUser }),
+  rateLimit({ name: "entries:ip", max: 1000, windowMs: 15 * MINUTE, key: byIp }),
+];
+// Bytes of photos each user may upload per UTC day
+const photoQuota = createDailyQuota(
+  "upload-bytes",
+  Number(process.env.UPLOAD_DAILY_QUOTA_MB || 200) * 1024 * 1024,
+);
+
+// Before/after values of the fields that changed between two versions of an entry
+function diffWeightEntries(before: WeightEntry, after: WeightEntry) {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  for (const field of ["weight", "unit", "notes", "recordedAt"] as const) {
+    const oldValue = before[field] instanceof Date ? before[field]!.toISOString() : before[field];
+    const newValue = after[field] instanceof Date ? after[field]!.toISOString() : after[field];
+    if (oldValue !== newValue) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
   }
-  return req.user.claims.sub;
+  return changes;
+}
+
+async function getDisplayUnit(userId: string): Promise<DisplayUnit> {
+  const user = await storage.getUser(userId);
+  return isDisplayUnit(user?.displayUnit) ? user.displayUnit : "lbs";
+}
+
+// Adds the weight as the user wants to see it, next to the stored value
+function withDisplay(entry: WeightEntry, displayUnit: DisplayUnit) {
+  return { ...entry, display: formatWeight(entry.weightGrams, displayUnit) };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  const authProvider = process.env.AUTH_PROVIDER || 'replit';
-  const authModule = authProvider === 'auth0' ? await import('./auth.ts') : await import('./replitAuth.ts');
-  const { setupAuth, isAuthenticated } = authModule;
+  const auth = await loadAuthProvider();
+  const { isAuthenticated } = auth;
+  // Weight entry routes also accept personal API tokens
+  const tokenAuth = createApiTokenAuth(isAuthenticated);
+  const photoSync = createPhotoSyncScheduler();
+  const photoCleanup = createPhotoCleanup();
 
-  // Auth middleware
-  await setupAuth(app);
+  // Sign-in and account creation, whichever provider serves them
+  app.use(["/api/login", "/api/callback", "/api/auth/login", "/api/auth/register", "/api/auth/google/callback"], signInLimit);
 
-  // Serve uploaded files
-  app.use("/uploads", express.static(uploadDir));
+  // Auth middleware
+  await auth.setup(app);
 
   // Auth routes
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getUserId(req);
-      const user = await storage.getUser(userId);
-      res.json(user);
-    } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
-    }
+  // Lets the client choose between a sign-in form and the provider's redirect
+  app.get('/api/auth/provider', (_req, res) => {
+    res.json({ provider: auth.name });
   });
 
+  app.get('/api/auth/user', isAuthenticated, asyncHandler(async (req, res) => {
+    const user = await storage.getUser(getUserId(req));
+    res.json(user);
+  }));
+
+  app.patch("/api/user/preferences", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const preferences = userPreferencesSchema.parse(req.body);
+    const user = await storage.updateUserPreferences(userId, preferences);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    res.json(user);
+  }));
+
   // Weight entry routes
-  app.post("/api/weight-entries", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getUserId(req);
-      const validatedData = weightEntryInsertSchema.parse({
-        ...req.body,
+  app.post("/api/weight-entries", tokenAuth("entries:write"), entryLimits, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const validatedData = weightEntryCreateSchema.parse({
+      ...req.body,
+      userId,
+    });
+
+    const weightEntry = await storage.createWeightEntry({ ...validatedData, entryType: "manual" });
+
+    // Log activity
+    await storage.createActivityLog({
+      userId,
+      action: "weight_entry",
+      description: `Manually added weight: ${weightEntry.weight} ${weightEntry.unit}`,
+      metadata: { entryId: weightEntry.id, entryType: "manual" },
+    });
+    await webhookDispatcher.emit(userId, "weight_entry.created", { entry: weightEntry });
+    await markAchievedGoals(userId);
+
+    res.json(withDisplay(weightEntry, await getDisplayUnit(userId)));
+  }));
+
+  app.get("/api/weight-entries", tokenAuth("entries:read"), asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const query = weightEntryQuerySchema.parse(req.query);
+
+    const [page, displayUnit] = await Promise.all([
+      storage.listWeightEntries(userId, query),
+      getDisplayUnit(userId),
+    ]);
+    res.json({ ...page, entries: page.entries.map((entry) => withDisplay(entry, displayUnit)) });
+  }));
+
+  app.post("/api/weight-entries/import", tokenAuth("entries:write"), entryLimits, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const request = weightImportSchema.parse(req.body);
+    const { report, entries } = await planWeightImport(userId, request);
+
+    const summary = {
+      total: report.length,
+      imported: entries.length,
+      duplicates: report.filter((row) => row.status === "duplicate").length,
+      invalid: report.filter((row) => row.status === "invalid").length,
+    };
+
+    if (!request.dryRun && entries.length > 0) {
+      await storage.importWeightEntries(entries, {
         userId,
+        action: "weight_import",
+        description: `Imported ${summary.imported} weight ${summary.imported === 1 ? "entry" : "entries"} from ${request.format.toUpperCase()}`,
+        metadata: { format: request.format, ...summary, entryType: "import" },
       });
+      await markAchievedGoals(userId);
+    }
 
-      const weightEntry = await storage.createWeightEntry(validatedData);
+    res.json({ dryRun: request.dryRun, summary, report });
+  }));
+
+  // Smart-scale readings in a vendor's own JSON format, e.g. from a sync script
+  app.post("/api/body-composition/:vendor", tokenAuth("entries:write"), entryLimits, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const adapter = getScaleAdapter(req.params.vendor);
+    if (!adapter) {
+      throw new NotFoundError(`Unknown scale vendor. Use one of: ${scaleVendors.join(", ")}`);
+    }
+    const query = scaleIngestQuerySchema.parse(req.query);
 
+    const { report, entries } = await planScaleIngest(userId, adapter, req.body, query);
+    const summary = {
+      total: report.length,
+      imported: entries.length,
+      duplicates: report.filter((row) => row.status === "duplicate").length,
+      invalid: report.filter((row) => row.status === "invalid").length,
+    };
+
+    if (!query.dryRun && entries.length > 0) {
+      const inserted = await storage.importWeightEntries(entries, {
+        userId,
+        action: "scale_ingest",
+        description: `Received ${summary.imported} smart scale ${summary.imported === 1 ? "reading" : "readings"} from ${adapter.vendor}`,
+        metadata: { vendor: adapter.vendor, ...summary, entryType: "scale" },
+      });
+      for (const entry of inserted) {
+        await webhookDispatcher.emit(userId, "weight_entry.created", { entry, source: adapter.vendor });
+      }
+      await markAchievedGoals(userId);
+    }
+
+    res.json({ dryRun: query.dryRun, summary, report });
+  }));
+
+  app.patch("/api/weight-entries/:id", tokenAuth("entries:write"), asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const entryId = parseInt(req.params.id);
+    const updates = weightEntryUpdateSchema.parse(req.body);
+
+    // Get the entry first so the edit can be logged as a diff
+    const entry = await storage.getWeightEntry(entryId, userId);
+    if (!entry) {
+      throw new NotFoundError("Weight entry not found");
+    }
+
+    const updated = await storage.updateWeightEntry(entryId, userId, updates);
+    if (!updated) {
+      throw new NotFoundError("Weight entry not found");
+    }
+
+    const changes = diffWeightEntries(entry, updated);
+    if (Object.keys(changes).length > 0) {
       // Log activity
       await storage.createActivityLog({
         userId,
-        action: "weight_entry",
-        description: `Manually added weight: ${weightEntry.weight} ${weightEntry.unit}`,
-        metadata: { entryId: weightEntry.id, entryType: "manual" },
+        action: "weight_edit",
+        description: `Edited weight entry: ${updated.weight} ${updated.unit}`,
+        metadata: { entryId, changes },
       });
+      await webhookDispatcher.emit(userId, "weight_entry.updated", { entry: updated, changes });
+      await markAchievedGoals(userId);
+    }
 
-      res.json(weightEntry);
-    } catch (error: any) {
-      console.error("Error creating weight entry:", error);
-      res.status(400).json({ message: error.message || "Failed to create weight entry" });
+    res.json(withDisplay(updated, await getDisplayUnit(userId)));
+  }));
+
+  app.delete("/api/weight-entries/:id", tokenAuth("entries:write"), asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const entryId = parseInt(req.params.id);
+
+    // Get the entry first for logging
+    const entry = await storage.getWeightEntry(entryId, userId);
+    if (!entry || !(await storage.deleteWeightEntry(entryId, userId))) {
+      throw new NotFoundError("Weight entry not found");
     }
-  });
 
-  app.get("/api/weight-entries", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getUserId(req);
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-      const entries = await storage.getWeightEntries(userId, limit);
-      res.json(entries);
-    } catch (error) {
-      console.error("Error fetching weight entries:", error);
-      res.status(500).json({ message: "Failed to fetch weight entries" });
+    // The photo goes with the entry, unless something else still shows it.
+    // If it can't be deleted now the cleanup sweep will get it later.
+    let photoBytes = 0;
+    if (entry.photoPath && (await storage.getReferencedPhotoPaths([entry.photoPath])).length === 0) {
+      photoBytes = await removeUpload(entry.photoPath).catch((error) => {
+        logger.error("Error deleting photo of weight entry", { error, entryId });
+        return 0;
+      });
     }
-  });
 
-  app.delete("/api/weight-entries/:id", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getUserId(req);
-      const entryId = parseInt(req.params.id);
-      
-      // Get the entry first for logging
-      const entry = await storage.getWeightEntry(entryId, userId);
-      if (!entry) {
-        return res.status(404).json({ message: "Weight entry not found" });
-      }
+    // Log activity
+    await storage.createActivityLog({
+      userId,
+      action: "weight_delete",
+      description: `Deleted weight entry: ${entry.weight} ${entry.unit}`,
+      metadata: {
+        entryId,
+        deletedWeight: entry.weight,
+        deletedUnit: entry.unit,
+        ...(entry.photoPath && { deletedPhotoPath: entry.photoPath, photoBytesReclaimed: photoBytes }),
+      },
+    });
+    await webhookDispatcher.emit(userId, "weight_entry.deleted", { entry });
 
-      const deleted = await storage.deleteWeightEntry(entryId, userId);
-      if (deleted) {
-        // Log activity
-        await storage.createActivityLog({
-          userId,
-          action: "weight_delete",
-          description: `Deleted weight entry: ${entry.weight} ${entry.unit}`,
-          metadata: { entryId, deletedWeight: entry.weight, deletedUnit: entry.unit },
-        });
+    res.json({ message: "Weight entry deleted successfully" });
+  }));
 
-        res.json({ message: "Weight entry deleted successfully" });
-      } else {
-        res.status(404).json({ message: "Weight entry not found" });
-      }
-    } catch (error) {
-      console.error("Error deleting weight entry:", error);
-      res.status(500).json({ message: "Failed to delete weight entry" });
+  // Personal API tokens. Managed with the session only, so a token can't
+  // create or revoke tokens.
+  app.get("/api/api-tokens", isAuthenticated, asyncHandler(async (req, res) => {
+    const apiTokens = await storage.getApiTokens(getUserId(req));
+    res.json(apiTokens.map(toApiTokenResponse));
+  }));
+
+  app.post("/api/api-tokens", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const { name, scopes } = apiTokenCreateSchema.parse(req.body);
+
+    const { token, tokenHash, prefix } = generateApiToken();
+    const apiToken = await storage.createApiToken({
+      userId,
+      name,
+      scopes: Array.from(new Set(scopes)),
+      tokenHash,
+      prefix,
+    });
+
+    // Log activity
+    await storage.createActivityLog({
+      userId,
+      action: "api_token_created",
+      description: `Created API token "${apiToken.name}"`,
+      metadata: { tokenId: apiToken.id, scopes: apiToken.scopes },
+    });
+
+    // The only time the token itself is returned
+    res.status(201).json({ ...toApiTokenResponse(apiToken), token });
+  }));
+
+  app.delete("/api/api-tokens/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const apiToken = await storage.deleteApiToken(parseInt(req.params.id), userId);
+    if (!apiToken) {
+      throw new NotFoundError("API token not found");
     }
-  });
 
-  // Photo upload for weight detection
-  app.post("/api/upload-weight-photo", isAuthenticated, upload.single("image"), async (req: any, res) => {
-    try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
-      }
+    // Log activity
+    await storage.createActivityLog({
+      userId,
+      action: "api_token_revoked",
+      description: `Revoked API token "${apiToken.name}"`,
+      metadata: { tokenId: apiToken.id },
+    });
+
+    res.json({ message: "API token revoked" });
+  }));
+
+  // Outbound webhooks and their delivery log
+  app.get("/api/webhooks", isAuthenticated, asyncHandler(async (req, res) => {
+    const hooks = await storage.getWebhooks(getUserId(req));
+    res.json(hooks.map(toWebhookResponse));
+  }));
+
+  app.post("/api/webhooks", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const data = webhookInsertSchema.parse(req.body);
+    await checkWebhookTarget(data.url);
+
+    const { secret, encrypted } = generateWebhookSecret();
+    const webhook = await storage.createWebhook({
+      ...data,
+      events: Array.from(new Set(data.events)),
+      userId,
+      secret: encrypted,
+    });
 
-      const userId = getUserId(req);
-      
-      // Mock OCR processing
-      const detectedWeight = mockOCRProcessing();
-      const photoPath = `/uploads/${req.file.filename}`;
+    // The only time the signing secret is returned
+    res.status(201).json({ ...toWebhookResponse(webhook), secret });
+  }));
 
-      // Create weight entry with detected weight
-      const weightEntry = await storage.createWeightEntry({
+  app.patch("/api/webhooks/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const data = webhookUpdateSchema.parse(req.body);
+    if (data.url) await checkWebhookTarget(data.url);
+
+    const updates = data.events ? { ...data, events: Array.from(new Set(data.events)) } : data;
+    const webhook = await storage.updateWebhook(parseInt(req.params.id), userId, updates);
+    if (!webhook) {
+      throw new NotFoundError("Webhook not found");
+    }
+    res.json(toWebhookResponse(webhook));
+  }));
+
+  app.delete("/api/webhooks/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteWebhook(parseInt(req.params.id), getUserId(req));
+    if (!deleted) {
+      throw new NotFoundError("Webhook not found");
+    }
+    res.json({ message: "Webhook deleted" });
+  }));
+
+  app.get("/api/webhooks/:id/deliveries", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const webhookId = parseInt(req.params.id);
+    if (!(await storage.getWebhook(webhookId, userId))) {
+      throw new NotFoundError("Webhook not found");
+    }
+    res.json(await storage.getWebhookDeliveries(webhookId, userId));
+  }));
+
+  app.post("/api/webhooks/:id/deliveries/:deliveryId/replay", isAuthenticated, asyncHandler(async (req, res) => {
+    const delivery = await storage.getWebhookDelivery(parseInt(req.params.deliveryId), getUserId(req));
+    if (!delivery || delivery.webhookId !== parseInt(req.params.id)) {
+      throw new NotFoundError("Webhook delivery not found");
+    }
+    res.json(await webhookDispatcher.replay(delivery));
+  }));
+
+  // Photo upload for weight detection. Creates a pending detection that the
+  // user reviews; nothing is added to their history until it is confirmed.
+  app.post("/api/upload-weight-photo", isAuthenticated, uploadLimits, upload.single("image"), asyncHandler(async (req, res) => {
+    if (!req.file) {
+      throw new ValidationError("No file uploaded", { image: ["Choose a photo to upload"] });
+    }
+
+    const userId = getUserId(req);
+    await photoQuota.consume(userId, req.file.size);
+    // Rejects anything that isn't really a photo, whatever its Content-Type.
+    // Rejected files don't count against the quota.
+    const { photoPath, photo } = await saveUpload(req.file.buffer).catch(async (error) => {
+      await photoQuota.refund(userId, req.file!.size);
+      throw error;
+    });
+
+    let reading: ScaleReading | null;
+    let detection: PhotoDetection;
+    try {
+      // Read the scale display locally. If it can't be read, or the reading
+      // isn't a believable weight, the user can still type it in during review.
+      reading = plausibleReading(await readScaleDisplay(photo));
+
+      detection = await storage.createPhotoDetection({
         userId,
-        weight: detectedWeight.toString(),
-        unit: "lbs", // Default to lbs for OCR
-        entryType: "photo",
         photoPath,
+        detectedWeight: reading ? reading.weight.toString() : null,
+        unit: reading?.unit ?? null,
+        confidence: reading ? reading.confidence.toString() : null,
+        displayBox: reading?.displayBox ?? null,
+        expiresAt: detectionExpiry(),
       });
+    } catch (error) {
+      // Nothing refers to the photo yet
+      await removeUpload(photoPath);
+      throw error;
+    }
+    if (reading) {
+      await webhookDispatcher.emit(userId, "photo.detected", { detection });
+    }
 
-      // Log activity
-      await storage.createActivityLog({
-        userId,
-        action: "photo_upload",
-        description: `Uploaded scale photo and detected weight: ${detectedWeight} lbs`,
-        metadata: { 
-          entryId: weightEntry.id, 
-          photoPath,
-          detectedWeight,
-          entryType: "photo"
-        },
-      });
+    res.json({
+      detection,
+      message: reading
+        ? "Weight detected, please review it"
+        : "Could not read a weight from this photo, please enter it manually",
+    });
+  }));
 
-      res.json({
-        weightEntry,
-        detectedWeight,
-        photoPath,
-        message: "Photo uploaded and weight detected successfully",
-      });
-    } catch (error: any) {
-      console.error("Error processing photo upload:", error);
-      res.status(500).json({ message: error.message || "Failed to process photo upload" });
+  // Detections waiting for review, e.g. queued by background photo sync
+  app.get("/api/photo-detections", isAuthenticated, asyncHandler(async (req, res) => {
+    const detections = await storage.getPendingPhotoDetections(getUserId(req), new Date());
+    res.json(detections);
+  }));
+
+  app.post("/api/photo-detections/:id/confirm", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const detectionId = parseInt(req.params.id);
+
+    const detection = await storage.getPhotoDetection(detectionId, userId);
+    if (!detection || detection.expiresAt < new Date()) {
+      throw new NotFoundError("Photo detection not found");
+    }
+    if (detection.status !== "pending") {
+      throw new ConflictError("Photo detection has already been confirmed");
     }
-  });
 
-  // Activity logs
-  app.get("/api/activity-logs", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getUserId(req);
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-      const logs = await storage.getActivityLogs(userId, limit);
-      res.json(logs);
-    } catch (error) {
-      console.error("Error fetching activity logs:", error);
-      res.status(500).json({ message: "Failed to fetch activity logs" });
+    // The user may have corrected the detected weight or unit
+    const validatedData = weightEntryInsertSchema.parse({
+      weight: req.body.weight,
+      unit: req.body.unit,
+      notes: req.body.notes,
+      userId,
+      entryType: "photo",
+      photoPath: detection.photoPath,
+      // Synced photos are dated by when they were taken
+      recordedAt: detection.takenAt ?? undefined,
+    });
+
+    const weightEntry =
+      detection.source && detection.mediaId
+        ? await storage.createImportedMediaEntry(validatedData, detection.source, detection.mediaId)
+        : await storage.createWeightEntry(validatedData);
+    await storage.confirmPhotoDetection(detectionId, userId, weightEntry.id);
+
+    const corrected =
+      detection.detectedWeight === null ||
+      parseFloat(detection.detectedWeight) !== parseFloat(weightEntry.weight) ||
+      detection.unit !== weightEntry.unit;
+
+    // Log activity
+    await storage.createActivityLog({
+      userId,
+      action: "photo_upload",
+      description: `Uploaded scale photo and ${corrected ? "entered" : "confirmed detected"} weight: ${weightEntry.weight} ${weightEntry.unit}`,
+      metadata: {
+        entryId: weightEntry.id,
+        detectionId,
+        photoPath: detection.photoPath,
+        detectedWeight: detection.detectedWeight,
+        detectedUnit: detection.unit,
+        confidence: detection.confidence,
+        corrected,
+        entryType: "photo",
+        source: detection.source,
+      },
+    });
+    await webhookDispatcher.emit(userId, "weight_entry.created", { entry: weightEntry, detectionId });
+    await markAchievedGoals(userId);
+
+    res.json(withDisplay(weightEntry, await getDisplayUnit(userId)));
+  }));
+
+  app.delete("/api/photo-detections/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const detectionId = parseInt(req.params.id);
+
+    const detection = await storage.getPhotoDetection(detectionId, userId);
+    if (!detection || detection.status !== "pending") {
+      throw new NotFoundError("Photo detection not found");
     }
-  });
 
-  // Google Photos OAuth routes
-  app.get("/api/auth/google", isAuthenticated, async (req: any, res) => {
+    await storage.deletePhotoDetection(detectionId, userId);
+    await removeUpload(detection.photoPath);
+    res.json({ message: "Photo detection discarded" });
+  }));
+
+  // Photos and thumbnails by file name (see photoUrl() in shared/photos.ts).
+  // Only their owner can load them, signed in or with an API token, unless
+  // the URL carries a signature from the route below.
+  const readPhotos = tokenAuth("entries:read");
+  app.get("/api/photo-files/:file", (req, res, next) => {
+    if (req.query.signature !== undefined) return next();
+    readPhotos(req, res, next);
+  }, asyncHandler(async (req, res) => {
+    const fileName = req.params.file;
+    if (req.query.signature !== undefined) {
+      if (!verifyPhotoSignature(fileName, req.query.expires, req.query.signature)) {
+        throw new ForbiddenError("This photo link is invalid or has expired");
+      }
+    } else if (!(await storage.ownsPhoto(getUserId(req), photoPathsFor(fileName)))) {
+      // Other users' photos look the same as ones that don't exist
+      throw new NotFoundError("Photo not found");
+    }
+
+    const photo = await loadPhotoFile(fileName);
+    if (!photo) {
+      throw new NotFoundError("Photo not found");
+    }
+    res.set({
+      "Content-Type": photo.contentType,
+      "Cache-Control": "private, max-age=300",
+      "X-Content-Type-Options": "nosniff",
+    });
+    res.send(photo.data);
+  }));
+
+  // A short-lived URL for a photo or thumbnail that works without signing
+  // in, e.g. for embedding it elsewhere
+  app.post("/api/photo-files/:file/signed-url", readPhotos, asyncHandler(async (req, res) => {
+    const fileName = req.params.file;
+    if (!(await storage.ownsPhoto(getUserId(req), photoPathsFor(fileName)))) {
+      throw new NotFoundError("Photo not found");
+    }
+    res.json(signPhotoUrl(fileName));
+  }));
+
+  // Body progress photos, through the same upload pipeline as scale photos
+  app.get("/api/progress-photos", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const { pose } = progressPhotoQuerySchema.parse(req.query);
+    const photos = await storage.getProgressPhotos(userId, pose);
+    res.json(await withWeights(userId, photos, await getDisplayUnit(userId)));
+  }));
+
+  app.post("/api/progress-photos", isAuthenticated, uploadLimits, upload.single("image"), asyncHandler(async (req, res) => {
+    if (!req.file) {
+      throw new ValidationError("No file uploaded", { image: ["Choose a photo to upload"] });
+    }
+
+    const userId = getUserId(req);
+    const fields = progressPhotoInsertSchema.parse(req.body);
+    if (fields.weightEntryId && !(await storage.getWeightEntry(fields.weightEntryId, userId))) {
+      throw new ValidationError("Weight entry not found", { weightEntryId: ["Choose one of your weigh-ins"] });
+    }
+    await photoQuota.consume(userId, req.file.size);
+    const { photoPath } = await saveUpload(req.file.buffer).catch(async (error) => {
+      await photoQuota.refund(userId, req.file!.size);
+      throw error;
+    });
+
+    let photo;
     try {
-      const authUrl = oauth2Client.generateAuthUrl({
-        access_type: 'offline',
-        scope: GOOGLE_PHOTOS_SCOPES,
-        state: getUserId(req)
+      photo = await storage.createProgressPhoto({
+        userId,
+        photoPath,
+        pose: fields.pose,
+        weightEntryId: fields.weightEntryId ?? null,
+        takenAt: fields.takenAt ?? new Date(),
+        notes: fields.notes || null,
       });
-      res.json({ authUrl });
     } catch (error) {
-      console.error("Error generating Google auth URL:", error);
-      res.status(500).json({ message: "Failed to generate auth URL" });
+      await removeUpload(photoPath);
+      throw error;
     }
-  });
 
-  app.get("/api/auth/google/callback", async (req: any, res) => {
-    try {
-      const { code, state } = req.query;
-      const userId = state;
+    await storage.createActivityLog({
+      userId,
+      action: "progress_photo_upload",
+      description: `Added a ${photo.pose} progress photo`,
+      metadata: { progressPhotoId: photo.id, pose: photo.pose, weightEntryId: photo.weightEntryId },
+    });
 
-      if (!code || !userId) {
-        return res.status(400).json({ message: "Missing authorization code or user ID" });
-      }
+    const [saved] = await withWeights(userId, [photo], await getDisplayUnit(userId));
+    res.status(201).json(saved);
+  }));
 
-      const { tokens } = await oauth2Client.getToken(code as string);
-      
-      // Store tokens in database (you would implement this in storage.ts)
-      await storage.storeGoogleTokens(userId, tokens);
+  app.patch("/api/progress-photos/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const updates = progressPhotoUpdateSchema.parse(req.body);
+    if (updates.weightEntryId && !(await storage.getWeightEntry(updates.weightEntryId, userId))) {
+      throw new ValidationError("Weight entry not found", { weightEntryId: ["Choose one of your weigh-ins"] });
+    }
 
-      // Redirect back to the photos tab
-      res.redirect('/?tab=photos');
-    } catch (error) {
-      console.error("Error handling Google auth callback:", error);
-      res.status(500).json({ message: "Failed to complete Google authentication" });
+    const photo = await storage.updateProgressPhoto(parseInt(req.params.id), userId, updates);
+    if (!photo) {
+      throw new NotFoundError("Progress photo not found");
     }
-  });
+    const [updated] = await withWeights(userId, [photo], await getDisplayUnit(userId));
+    res.json(updated);
+  }));
 
-  // Google Photos API routes
-  app.get("/api/google-photos", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getUserId(req);
-      
-      // For development, return mock data
-      if (process.env.NODE_ENV === 'development') {
-        return res.json({
-          photos: mockGooglePhotos,
-          connected: false,
-          needsAuth: true
-        });
-      }
+  app.delete("/api/progress-photos/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const photo = await storage.deleteProgressPhoto(parseInt(req.params.id), userId);
+    if (!photo) {
+      throw new NotFoundError("Progress photo not found");
+    }
+
+    // As with entries, a file that can't be deleted now is left to the sweep
+    const photoBytesReclaimed = await removeUpload(photo.photoPath).catch((error) => {
+      logger.error("Error deleting progress photo file", { error, progressPhotoId: photo.id });
+      return 0;
+    });
+    await storage.createActivityLog({
+      userId,
+      action: "progress_photo_delete",
+      description: `Deleted a ${photo.pose} progress photo`,
+      metadata: { progressPhotoId: photo.id, pose: photo.pose, deletedPhotoPath: photo.photoPath, photoBytesReclaimed },
+    });
+    res.json({ message: "Progress photo deleted" });
+  }));
+
+  // Goals
+  app.get("/api/goals", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const [goals, entries, displayUnit] = await Promise.all([
+      storage.getGoals(userId),
+      storage.getWeightEntries(userId, 500),
+      getDisplayUnit(userId),
+    ]);
+    res.json(goals.map((goal) => ({ ...goal, progress: computeGoalProgress(goal, entries, displayUnit) })));
+  }));
 
-      // Get stored tokens
-      const tokens = await storage.getGoogleTokens(userId);
-      
-      if (!tokens) {
-        return res.json({
-          photos: [],
-          connected: false,
-          needsAuth: true
+  app.post("/api/goals", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+
+    // Start from the latest weigh-in unless a start weight was given
+    let startWeight = req.body.startWeight;
+    if (startWeight === undefined || startWeight === "") {
+      const [latest] = await storage.getWeightEntries(userId, 1);
+      if (!latest) {
+        throw new ValidationError("Add a weight entry or a start weight before setting a goal", {
+          startWeight: ["Enter a start weight"],
         });
       }
+      const unit = isWeightUnit(req.body.unit) ? req.body.unit : "lbs";
+      startWeight = fromGrams(latest.weightGrams, unit).toFixed(2);
+    }
 
-      oauth2Client.setCredentials(tokens);
-      
-      // Initialize Google Photos API
-      const photosLibrary = google.photoslibrary({ version: 'v1', auth: oauth2Client });
-      
-      // Get recent photos (last 30 days)
-      const response = await photosLibrary.mediaItems.list({
-        pageSize: 30,
-        filters: {
-          dateFilter: {
-            ranges: [{
-              startDate: {
-                year: new Date().getFullYear(),
-                month: new Date().getMonth(),
-                day: new Date().getDate() - 30
-              },
-              endDate: {
-                year: new Date().getFullYear(),
-                month: new Date().getMonth() + 1,
-                day: new Date().getDate()
-              }
-            }]
-          }
-        }
+    const validatedData = goalInsertSchema.parse({
+      ...req.body,
+      startWeight,
+      userId,
+      status: "active",
+    });
+
+    // A new goal replaces the one the user was working towards
+    const existing = await storage.getGoals(userId);
+    for (const goal of existing.filter((g) => g.status === "active")) {
+      await storage.updateGoal(goal.id, userId, { status: "abandoned" });
+    }
+
+    const goal = await storage.createGoal(validatedData);
+
+    // Log activity
+    await storage.createActivityLog({
+      userId,
+      action: "goal_set",
+      description: `Set goal weight: ${goal.targetWeight} ${goal.unit} by ${goal.targetDate.toLocaleDateString()}`,
+      metadata: { goalId: goal.id },
+    });
+    await markAchievedGoals(userId);
+
+    const [entries, displayUnit] = await Promise.all([
+      storage.getWeightEntries(userId, 500),
+      getDisplayUnit(userId),
+    ]);
+    res.json({ ...goal, progress: computeGoalProgress(goal, entries, displayUnit) });
+  }));
+
+  app.patch("/api/goals/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const goalId = parseInt(req.params.id);
+    const updates = goalUpdateSchema.parse(req.body);
+
+    const goal = await storage.updateGoal(goalId, userId, {
+      ...updates,
+      ...(updates.status === "achieved" ? { achievedAt: new Date() } : {}),
+    });
+    if (!goal) {
+      throw new NotFoundError("Goal not found");
+    }
+
+    const [entries, displayUnit] = await Promise.all([
+      storage.getWeightEntries(userId, 500),
+      getDisplayUnit(userId),
+    ]);
+    res.json({ ...goal, progress: computeGoalProgress(goal, entries, displayUnit) });
+  }));
+
+  app.delete("/api/goals/:id", isAuthenticated, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteGoal(parseInt(req.params.id), getUserId(req));
+    if (!deleted) {
+      throw new NotFoundError("Goal not found");
+    }
+    res.json({ message: "Goal deleted successfully" });
+  }));
+
+  // Analytics
+  app.get("/api/analytics/trend", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    // Enough history for the 90-day delta even with several weigh-ins a day
+    const [entries, displayUnit] = await Promise.all([
+      storage.getWeightEntries(userId, 1000),
+      getDisplayUnit(userId),
+    ]);
+    res.json(computeTrend(entries, displayUnit));
+  }));
+
+  app.get("/api/analytics/body-composition/:metric", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const { metric } = chartMetricSchema.parse(req.params);
+    const [entries, displayUnit] = await Promise.all([
+      storage.getWeightEntries(userId, 1000),
+      getDisplayUnit(userId),
+    ]);
+    res.json(computeMetricSeries(entries, metric, displayUnit));
+  }));
+
+  // Activity logs
+  app.get("/api/activity-logs", isAuthenticated, asyncHandler(async (req, res) => {
+    const query = activityLogQuerySchema.parse(req.query);
+    res.json(await storage.listActivityLogs(getUserId(req), query));
+  }));
+
+  // The whole audit trail matching the same filters, as CSV
+  app.get("/api/activity-logs/export", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const filters = activityLogFilterSchema.parse(req.query);
+
+    await storage.createActivityLog({
+      userId,
+      action: "data_export",
+      description: "Exported activity log as CSV",
+      metadata: { format: "csv", dataset: "activity_logs" },
+    });
+
+    res.setHeader("Content-Type", exportContentTypes.csv);
+    res.setHeader("Content-Disposition", `attachment; filename="${activityExportFileName()}"`);
+    // A failure once streaming has started cuts the download short
+    await writeActivityLogCsv(userId, filters, res);
+  }));
+
+  // Data export
+  app.get("/api/export", isAuthenticated, asyncHandler(async (req, res) => {
+    const format = (req.query.format ?? "zip") as ExportFormat;
+    if (!exportFormats.includes(format)) {
+      throw new ValidationError(`Format must be one of: ${exportFormats.join(", ")}`, {
+        format: [`Must be one of: ${exportFormats.join(", ")}`],
       });
+    }
+
+    const userId = getUserId(req);
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    // Log activity
+    await storage.createActivityLog({
+      userId,
+      action: "data_export",
+      description: `Exported data as ${format.toUpperCase()}`,
+      metadata: { format },
+    });
+
+    res.setHeader("Content-Type", exportContentTypes[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(format)}"`);
+    // A failure once streaming has started cuts the download short
+    await writeExport(user, format, res);
+  }));
+
+  // Google Photos OAuth routes
+  app.get("/api/auth/google", isAuthenticated, (req, res) => {
+    const authUrl = createGoogleOAuthClient().generateAuthUrl({
+      access_type: 'offline',
+      // Ask again so Google issues a refresh token even if the user agreed before
+      prompt: 'consent',
+      scope: GOOGLE_PHOTOS_SCOPES,
+      // A nonce kept in the session, so the callback only links the account
+      // for the user who started connecting
+      state: createGoogleOAuthState(req, getUserId(req))
+    });
+    res.json({ authUrl });
+  });
 
-      const photos = response.data.mediaItems || [];
-      
-      // Sort by creation time (newest first)
-      photos.sort((a, b) => {
-        const dateA = new Date(a.mediaMetadata?.creationTime || 0);
-        const dateB = new Date(b.mediaMetadata?.creationTime ||.0);
-        return dateB.getTime() - dateA.getTime();
+  app.get("/api/auth/google/callback", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const { code, state } = req.query;
+    checkGoogleOAuthState(req, userId, state);
+
+    if (typeof code !== "string" || !code) {
+      throw new BadRequestError("Missing authorization code");
+    }
+
+    const { tokens } = await createGoogleOAuthClient().getToken(code);
+    await saveGoogleTokens(userId, tokens);
+
+    // Redirect back to the photos tab
+    res.redirect('/?tab=photos');
+  }));
+
+  // Google Photos API routes
+  app.get("/api/google-photos", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+
+    // For development, return mock data
+    if (process.env.NODE_ENV === 'development') {
+      return res.json({
+        photos: mockGooglePhotos,
+        connected: false,
+        needsAuth: true
       });
+    }
 
-      res.json({
-        photos: photos.slice(0, 30),
-        connected: true,
-        needsAuth: false
+    const client = await getGoogleClient(userId);
+    if (!client) {
+      return res.json({
+        photos: [],
+        connected: false,
+        needsAuth: true
       });
-    } catch (error) {
-      console.error("Error fetching Google Photos:", error);
-      res.status(500).json({ message: "Failed to fetch Google Photos" });
     }
-  });
 
-  app.delete("/api/google-photos/disconnect", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getUserId(req);
-      await storage.deleteGoogleTokens(userId);
-      res.json({ message: "Google Photos disconnected successfully" });
-    } catch (error) {
-      console.error("Error disconnecting Google Photos:", error);
-      res.status(500).json({ message: "Failed to disconnect Google Photos" });
+    // Initialize Google Photos API
+    const photosLibrary = google.photoslibrary({ version: 'v1', auth: client });
+
+    // Get recent photos (last 30 days)
+    const response = await photosLibrary.mediaItems.list({
+      pageSize: 30,
+      filters: {
+        dateFilter: {
+          ranges: [{
+            startDate: {
+              year: new Date().getFullYear(),
+              month: new Date().getMonth(),
+              day: new Date().getDate() - 30
+            },
+            endDate: {
+              year: new Date().getFullYear(),
+              month: new Date().getMonth() + 1,
+              day: new Date().getDate()
+            }
+          }]
+        }
+      }
+    });
+
+    const photos = response.data.mediaItems || [];
+
+    // Sort by creation time (newest first)
+    photos.sort((a, b) => {
+      const dateA = new Date(a.mediaMetadata?.creationTime || 0);
+      const dateB = new Date(b.mediaMetadata?.creationTime ||.0);
+      return dateB.getTime() - dateA.getTime();
+    });
+
+    // Flag photos that already became weight entries
+    const recent = photos.slice(0, 30);
+    const imported = new Set(
+      await storage.getImportedMediaIds(userId, GOOGLE_PHOTOS_SOURCE, recent.map((photo: any) => photo.id)),
+    );
+
+    res.json({
+      photos: recent.map((photo: any) => ({ ...photo, imported: imported.has(photo.id) })),
+      connected: true,
+      needsAuth: false
+    });
+  }));
+
+  app.post("/api/google-photos/import", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const { mediaItemIds } = googlePhotosImportSchema.parse(req.body);
+
+    const auth = await getGoogleClient(userId);
+    if (!auth) {
+      throw new ConflictError("Connect Google Photos before importing");
     }
-  });
+
+    const displayUnit = await getDisplayUnit(userId);
+    const results = await importGooglePhotos(createGooglePhotosClient(auth), userId, mediaItemIds, baseUnit(displayUnit));
+    const summary = {
+      total: results.length,
+      imported: results.filter((result) => result.status === "imported").length,
+      review: results.filter((result) => result.status === "review").length,
+      duplicates: results.filter((result) => result.status === "duplicate").length,
+      unreadable: results.filter((result) => result.status === "unreadable").length,
+      failed: results.filter((result) => result.status === "failed").length,
+    };
+
+    if (summary.imported > 0) {
+      await storage.createActivityLog({
+        userId,
+        action: "google_photos_import",
+        description: `Imported ${summary.imported} weigh-in${summary.imported === 1 ? "" : "s"} from Google Photos`,
+        metadata: {
+          summary,
+          entryIds: results.flatMap((result) => (result.entry ? [result.entry.id] : [])),
+        },
+      });
+      for (const result of results) {
+        if (result.entry) {
+          await webhookDispatcher.emit(userId, "weight_entry.created", { entry: result.entry, source: GOOGLE_PHOTOS_SOURCE });
+        }
+      }
+      await markAchievedGoals(userId);
+    }
+
+    res.json({
+      summary,
+      results: results.map((result) =>
+        result.entry ? { ...result, entry: withDisplay(result.entry, displayUnit) } : result,
+      ),
+    });
+  }));
+
+  // Background sync of new scale photos
+  app.get("/api/photo-sync", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const [state, account] = await Promise.all([
+      storage.getPhotoSyncState(userId),
+      storage.getConnectedAccount(userId, GOOGLE_PROVIDER),
+    ]);
+    res.json({ connected: !!account, enabled: state?.enabled ?? true, state: state ?? null });
+  }));
+
+  app.patch("/api/photo-sync", isAuthenticated, asyncHandler(async (req, res) => {
+    const userId = getUserId(req);
+    const settings = photoSyncSettingsSchema.parse(req.body);
+    const state = await storage.upsertPhotoSyncState({ userId, enabled: settings.enabled });
+    res.json({ enabled: state.enabled, state });
+  }));
+
+  app.post("/api/photo-sync/run", isAuthenticated, asyncHandler(async (req, res) => {
+    const state = await photoSync.syncUser(getUserId(req));
+    res.json({ enabled: state.enabled, state });
+  }));
+
+  app.delete("/api/google-photos/disconnect", isAuthenticated, asyncHandler(async (req, res) => {
+    await disconnectGoogle(getUserId(req));
+    res.json({ message: "Google Photos disconnected successfully" });
+  }));
+
+  // Admin report of photo storage reclaimed by the cleanup sweeps
+  app.get("/api/admin/photo-cleanup", isAuthenticated, requireAdmin, asyncHandler(async (_req, res) => {
+    const [totals, runs] = await Promise.all([storage.getPhotoCleanupTotals(), storage.getPhotoCleanupRuns(20)]);
+    res.json({ totals, runs });
+  }));
+
+  app.post("/api/admin/photo-cleanup/run", isAuthenticated, requireAdmin, asyncHandler(async (_req, res) => {
+    res.json(await photoCleanup.sweep());
+  }));
+
+  // Garbage-collect detections that were never confirmed, and photo files
+  // nothing refers to
+  startDetectionCleanup();
+  photoCleanup.start();
+  startRateLimitCleanup();
+  photoSync.start();
+  webhookDispatcher.start();
 
   const httpServer = createServer(app);
   return httpServer;
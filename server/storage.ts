@@ -2,15 +2,111 @@ import {
   users,
   weightEntries,
   activityLogs,
+  photoDetections,
+  goals,
+  connectedAccounts,
+  importedMedia,
+  photoSyncStates,
+  photoCleanupRuns,
+  progressPhotos,
+  passwordCredentials,
+  apiTokens,
+  webhooks,
+  webhookDeliveries,
   type User,
   type UpsertUser,
+  type UserPreferences,
   type WeightEntry,
   type InsertWeightEntry,
+  type UpdateWeightEntry,
+  type WeightEntryQuery,
+  type WeightEntryPage,
+  type PhotoDetection,
+  type InsertPhotoDetection,
+  type Goal,
+  type InsertGoal,
+  type UpdateGoal,
   type ActivityLog,
   type InsertActivityLog,
+  type ActivityLogFilters,
+  type ActivityLogQuery,
+  type ActivityLogPage,
+  type ConnectedAccount,
+  type UpsertConnectedAccount,
+  type PhotoSyncState,
+  type UpsertPhotoSyncState,
+  type PhotoCleanupRun,
+  type InsertPhotoCleanupRun,
+  type ProgressPhoto,
+  type InsertProgressPhoto,
+  type UpdateProgressPhoto,
+  type ProgressPhotoPose,
+  type ApiToken,
+  type InsertApiToken,
+  type Webhook,
+  type InsertWebhook,
+  type UpdateWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { toGrams, isWeightUnit } from "@shared/units";
+import { getDb } from "./db";
+import { ValidationError } from "./errors";
+import { MemStorage } from "./memStorage";
+import { eq, desc, asc, and, or, lt, gt, gte, lte, ilike, inArray, arrayContains, count, sql, type SQL } from "drizzle-orm";
+
+export const entryGrams = (weight: string, unit?: string) =>
+  toGrams(parseFloat(weight), isWeightUnit(unit) ? unit : "lbs");
+
+// Rows fetched per query when streaming a user's full history
+const STREAM_BATCH_SIZE = 500;
+
+// Weight entry cursors point at the last row of a page by (recordedAt, id),
+// the same pair the list is ordered by. Postgres keeps microseconds but a JS
+// Date only milliseconds, so both sides are compared at millisecond precision.
+const recordedAtMs = sql`date_trunc('milliseconds', ${weightEntries.recordedAt})`;
+
+export function encodeEntryCursor(entry: WeightEntry) {
+  return Buffer.from(`${entry.recordedAt!.toISOString()}|${entry.id}`).toString("base64url");
+}
+
+export function decodeEntryCursor(cursor: string) {
+  const [time, id] = Buffer.from(cursor, "base64url").toString().split("|");
+  const recordedAt = new Date(time);
+  if (isNaN(recordedAt.getTime()) || !/^\d+$/.test(id ?? "")) {
+    throw new ValidationError("Invalid cursor", { cursor: ["Invalid cursor"] });
+  }
+  return { recordedAt, id: parseInt(id) };
+}
+
+// Activity is listed by id, which follows the order logs were written in, so
+// a cursor only needs the id of a page's last log
+export function encodeActivityCursor(log: ActivityLog) {
+  return Buffer.from(String(log.id)).toString("base64url");
+}
+
+export function decodeActivityCursor(cursor: string) {
+  const id = Buffer.from(cursor, "base64url").toString();
+  if (!/^\d+$/.test(id)) {
+    throw new ValidationError("Invalid cursor", { cursor: ["Invalid cursor"] });
+  }
+  return parseInt(id);
+}
+
+// Conditions shared by the activity list and its export. `q` is Postgres
+// full-text search, so "uploaded photos" also finds "Uploaded a photo".
+function activityLogConditions(userId: string, filters: ActivityLogFilters): SQL[] {
+  const conditions: SQL[] = [eq(activityLogs.userId, userId)];
+  if (filters.action?.length) conditions.push(inArray(activityLogs.action, filters.action));
+  if (filters.from) conditions.push(gte(activityLogs.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(activityLogs.createdAt, filters.to));
+  if (filters.q) {
+    conditions.push(
+      sql`to_tsvector('english', coalesce(${activityLogs.description}, '')) @@ websearch_to_tsquery('english', ${filters.q})`,
+    );
+  }
+  return conditions;
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -18,21 +114,113 @@ export interface IStorage {
   // (IMPORTANT) these user operations are mandatory for Replit Auth.
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Email/password sign-in; hashes are produced by server/auth/password.ts
+  // Creates the user and their password together
+  createPasswordUser(user: UpsertUser, passwordHash: string): Promise<User>;
+  getPasswordHash(userId: string): Promise<string | undefined>;
+  setPasswordHash(userId: string, passwordHash: string): Promise<void>;
 
   // Weight tracking operations
   createWeightEntry(entry: InsertWeightEntry): Promise<WeightEntry>;
   getWeightEntries(userId: string, limit?: number): Promise<WeightEntry[]>;
+  listWeightEntries(userId: string, query: WeightEntryQuery): Promise<WeightEntryPage>;
   getWeightEntry(id: number, userId: string): Promise<WeightEntry | undefined>;
+  updateWeightEntry(id: number, userId: string, updates: UpdateWeightEntry): Promise<WeightEntry | undefined>;
   deleteWeightEntry(id: number, userId: string): Promise<boolean>;
+  getWeightEntriesBetween(userId: string, from: Date, to: Date): Promise<WeightEntry[]>;
+  // Inserts all entries and the summary log in one transaction
+  importWeightEntries(entries: InsertWeightEntry[], log: InsertActivityLog): Promise<WeightEntry[]>;
+  // Every entry for the user, oldest id first, fetched in batches
+  streamWeightEntries(userId: string): AsyncIterable<WeightEntry>;
+  // Media already imported from `source`, out of `mediaIds`
+  getImportedMediaIds(userId: string, source: string, mediaIds: string[]): Promise<string[]>;
+  // Creates the entry and remembers the media item it came from, together
+  createImportedMediaEntry(entry: InsertWeightEntry, source: string, mediaId: string): Promise<WeightEntry>;
+
+  // Scale photo detections awaiting review
+  createPhotoDetection(detection: InsertPhotoDetection): Promise<PhotoDetection>;
+  getPhotoDetection(id: number, userId: string): Promise<PhotoDetection | undefined>;
+  confirmPhotoDetection(id: number, userId: string, weightEntryId: number): Promise<PhotoDetection | undefined>;
+  deletePhotoDetection(id: number, userId: string): Promise<boolean>;
+  deleteExpiredPhotoDetections(now: Date): Promise<PhotoDetection[]>;
+  // Pending and unexpired, newest first
+  getPendingPhotoDetections(userId: string, now: Date): Promise<PhotoDetection[]>;
+  // Media from `source`, out of `mediaIds`, that already has a detection
+  getQueuedMediaIds(userId: string, source: string, mediaIds: string[]): Promise<string[]>;
+  // Whether any of `photoPaths` is the photo of one of the user's weight
+  // entries or progress photos, or of one of their detections (which may not
+  // have an entry yet)
+  ownsPhoto(userId: string, photoPaths: string[]): Promise<boolean>;
+  // The ones out of `photoPaths` that a weight entry, progress photo or
+  // pending detection of any user still refers to
+  getReferencedPhotoPaths(photoPaths: string[]): Promise<string[]>;
+
+  // Body progress photos
+  createProgressPhoto(photo: InsertProgressPhoto): Promise<ProgressPhoto>;
+  // Oldest first, optionally only one pose
+  getProgressPhotos(userId: string, pose?: ProgressPhotoPose): Promise<ProgressPhoto[]>;
+  // Every progress photo for the user, oldest id first, fetched in batches
+  streamProgressPhotos(userId: string): AsyncIterable<ProgressPhoto>;
+  getProgressPhoto(id: number, userId: string): Promise<ProgressPhoto | undefined>;
+  updateProgressPhoto(id: number, userId: string, updates: UpdateProgressPhoto): Promise<ProgressPhoto | undefined>;
+  // Returns the deleted photo
+  deleteProgressPhoto(id: number, userId: string): Promise<ProgressPhoto | undefined>;
+
+  // Goals
+  createGoal(goal: InsertGoal): Promise<Goal>;
+  getGoals(userId: string): Promise<Goal[]>;
+  getGoal(id: number, userId: string): Promise<Goal | undefined>;
+  updateGoal(id: number, userId: string, updates: UpdateGoal & { achievedAt?: Date | null }): Promise<Goal | undefined>;
+  deleteGoal(id: number, userId: string): Promise<boolean>;
 
   // Activity logs
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
-  getActivityLogs(userId: string, limit?: number): Promise<ActivityLog[]>;
+  listActivityLogs(userId: string, query: ActivityLogQuery): Promise<ActivityLogPage>;
+  // Oldest first, optionally filtered as listActivityLogs is
+  streamActivityLogs(userId: string, filters?: ActivityLogFilters): AsyncIterable<ActivityLog>;
+
+  // OAuth accounts; token columns are encrypted by the caller
+  upsertConnectedAccount(account: UpsertConnectedAccount): Promise<ConnectedAccount>;
+  getConnectedAccount(userId: string, provider: string): Promise<ConnectedAccount | undefined>;
+  deleteConnectedAccount(userId: string, provider: string): Promise<boolean>;
+  getConnectedAccountUserIds(provider: string): Promise<string[]>;
+
+  // Background photo sync
+  getPhotoSyncState(userId: string): Promise<PhotoSyncState | undefined>;
+  upsertPhotoSyncState(state: UpsertPhotoSyncState): Promise<PhotoSyncState>;
 
-    // Google Photos Tokens
-  storeGoogleTokens(userId: string, tokens: any): Promise<void>;
-  getGoogleTokens(userId: string): Promise<any | null>;
-  deleteGoogleTokens(userId: string): Promise<void>;
+  // Sweeps for unreferenced photo files
+  createPhotoCleanupRun(run: InsertPhotoCleanupRun): Promise<PhotoCleanupRun>;
+  // Newest first
+  getPhotoCleanupRuns(limit: number): Promise<PhotoCleanupRun[]>;
+  getPhotoCleanupTotals(): Promise<{ runs: number; filesRemoved: number; bytesReclaimed: number }>;
+
+  // Personal API tokens, looked up by the hash of the presented token
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // Newest first
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number, usedAt: Date): Promise<void>;
+  deleteApiToken(id: number, userId: string): Promise<ApiToken | undefined>;
+
+  // Webhooks and their delivery log
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  getWebhooks(userId: string): Promise<Webhook[]>;
+  getWebhook(id: number, userId: string): Promise<Webhook | undefined>;
+  updateWebhook(id: number, userId: string, updates: UpdateWebhook): Promise<Webhook | undefined>;
+  deleteWebhook(id: number, userId: string): Promise<boolean>;
+  // Enabled webhooks subscribed to `event`
+  getWebhooksForEvent(userId: string, event: string): Promise<Webhook[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: number, userId: string): Promise<WebhookDelivery | undefined>;
+  // Newest first
+  getWebhookDeliveries(webhookId: number, userId: string, limit?: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  // Pending deliveries whose next attempt is due, oldest first
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -40,12 +228,12 @@ export class DatabaseStorage implements IStorage {
   // (IMPORTANT) these user operations are mandatory for Replit Auth.
 
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await getDb().select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await getDb()
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -59,17 +247,58 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined> {
+    const [user] = await getDb()
+      .update(users)
+      .set({ ...preferences, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await getDb().select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  // Email/password sign-in
+  async createPasswordUser(userData: UpsertUser, passwordHash: string): Promise<User> {
+    return await getDb().transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(userData).returning();
+      await tx.insert(passwordCredentials).values({ userId: user.id, passwordHash });
+      return user;
+    });
+  }
+
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    const [credential] = await getDb()
+      .select()
+      .from(passwordCredentials)
+      .where(eq(passwordCredentials.userId, userId));
+    return credential?.passwordHash;
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    await getDb()
+      .insert(passwordCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: passwordCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
   // Weight tracking operations
   async createWeightEntry(entry: InsertWeightEntry): Promise<WeightEntry> {
-    const [weightEntry] = await db
+    const [weightEntry] = await getDb()
       .insert(weightEntries)
-      .values(entry)
+      .values({ ...entry, weightGrams: entryGrams(entry.weight, entry.unit) })
       .returning();
     return weightEntry;
   }
 
   async getWeightEntries(userId: string, limit: number = 50): Promise<WeightEntry[]> {
-    return await db
+    return await getDb()
       .select()
       .from(weightEntries)
       .where(eq(weightEntries.userId, userId))
@@ -77,57 +306,615 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async listWeightEntries(userId: string, query: WeightEntryQuery): Promise<WeightEntryPage> {
+    const filters: SQL[] = [eq(weightEntries.userId, userId)];
+    if (query.from) filters.push(gte(weightEntries.recordedAt, query.from));
+    if (query.to) filters.push(lte(weightEntries.recordedAt, query.to));
+    if (query.entryType) filters.push(eq(weightEntries.entryType, query.entryType));
+    if (query.q) {
+      const pattern = query.q.replace(/[\\%_]/g, (char) => `\\${char}`);
+      filters.push(ilike(weightEntries.notes, `%${pattern}%`));
+    }
+
+    const pageFilters = [...filters];
+    if (query.cursor) {
+      const after = decodeEntryCursor(query.cursor);
+      const afterTime = after.recordedAt.toISOString();
+      pageFilters.push(
+        or(
+          sql`${recordedAtMs} < ${afterTime}::timestamp`,
+          and(sql`${recordedAtMs} = ${afterTime}::timestamp`, lt(weightEntries.id, after.id)),
+        )!,
+      );
+    }
+
+    // One extra row tells us whether there's another page
+    const [rows, [{ total }]] = await Promise.all([
+      getDb()
+        .select()
+        .from(weightEntries)
+        .where(and(...pageFilters))
+        .orderBy(desc(recordedAtMs), desc(weightEntries.id))
+        .limit(query.limit + 1),
+      getDb().select({ total: count() }).from(weightEntries).where(and(...filters)),
+    ]);
+
+    const entries = rows.slice(0, query.limit);
+    const hasMore = rows.length > query.limit;
+    return {
+      entries,
+      nextCursor: hasMore ? encodeEntryCursor(entries[entries.length - 1]) : null,
+      total,
+    };
+  }
+
   async getWeightEntry(id: number, userId: string): Promise<WeightEntry | undefined> {
-    const [entry] = await db
+    const [entry] = await getDb()
       .select()
       .from(weightEntries)
       .where(and(eq(weightEntries.id, id), eq(weightEntries.userId, userId)));
     return entry;
   }
 
+  async updateWeightEntry(id: number, userId: string, updates: UpdateWeightEntry): Promise<WeightEntry | undefined> {
+    // Keep the canonical mass in step when the weight or its unit changes
+    let weightGrams: number | undefined;
+    if (updates.weight !== undefined || updates.unit !== undefined) {
+      const existing = await this.getWeightEntry(id, userId);
+      if (!existing) return undefined;
+      weightGrams = entryGrams(updates.weight ?? existing.weight, updates.unit ?? existing.unit);
+    }
+
+    const [entry] = await getDb()
+      .update(weightEntries)
+      .set(weightGrams === undefined ? updates : { ...updates, weightGrams })
+      .where(and(eq(weightEntries.id, id), eq(weightEntries.userId, userId)))
+      .returning();
+    return entry;
+  }
+
   async deleteWeightEntry(id: number, userId: string): Promise<boolean> {
-    const result = await db
+    const result = await getDb()
       .delete(weightEntries)
       .where(and(eq(weightEntries.id, id), eq(weightEntries.userId, userId)));
     return (result.rowCount || 0) > 0;
   }
 
+  async getWeightEntriesBetween(userId: string, from: Date, to: Date): Promise<WeightEntry[]> {
+    return await getDb()
+      .select()
+      .from(weightEntries)
+      .where(
+        and(
+          eq(weightEntries.userId, userId),
+          gte(weightEntries.recordedAt, from),
+          lte(weightEntries.recordedAt, to),
+        ),
+      );
+  }
+
+  async *streamWeightEntries(userId: string): AsyncIterable<WeightEntry> {
+    let afterId = 0;
+    while (true) {
+      const batch = await getDb()
+        .select()
+        .from(weightEntries)
+        .where(and(eq(weightEntries.userId, userId), gt(weightEntries.id, afterId)))
+        .orderBy(asc(weightEntries.id))
+        .limit(STREAM_BATCH_SIZE);
+      yield* batch;
+      if (batch.length < STREAM_BATCH_SIZE) return;
+      afterId = batch[batch.length - 1].id;
+    }
+  }
+
+  async importWeightEntries(entries: InsertWeightEntry[], log: InsertActivityLog): Promise<WeightEntry[]> {
+    return await getDb().transaction(async (tx) => {
+      const inserted: WeightEntry[] = [];
+      // Keep each statement well under Postgres' parameter limit
+      for (let i = 0; i < entries.length; i += 500) {
+        const batch = entries.slice(i, i + 500);
+        inserted.push(
+          ...(await tx
+            .insert(weightEntries)
+            .values(batch.map((entry) => ({ ...entry, weightGrams: entryGrams(entry.weight, entry.unit) })))
+            .returning()),
+        );
+      }
+      await tx.insert(activityLogs).values(log);
+      return inserted;
+    });
+  }
+
+  async getImportedMediaIds(userId: string, source: string, mediaIds: string[]): Promise<string[]> {
+    if (mediaIds.length === 0) return [];
+    const rows = await getDb()
+      .select({ mediaId: importedMedia.mediaId })
+      .from(importedMedia)
+      .where(
+        and(
+          eq(importedMedia.userId, userId),
+          eq(importedMedia.source, source),
+          inArray(importedMedia.mediaId, mediaIds),
+        ),
+      );
+    return rows.map((row) => row.mediaId);
+  }
+
+  async createImportedMediaEntry(entry: InsertWeightEntry, source: string, mediaId: string): Promise<WeightEntry> {
+    return await getDb().transaction(async (tx) => {
+      const [weightEntry] = await tx
+        .insert(weightEntries)
+        .values({ ...entry, weightGrams: entryGrams(entry.weight, entry.unit) })
+        .returning();
+      // The unique index rejects a media item imported concurrently
+      await tx.insert(importedMedia).values({ userId: entry.userId, source, mediaId, weightEntryId: weightEntry.id });
+      return weightEntry;
+    });
+  }
+
+  // Scale photo detections awaiting review
+  async createPhotoDetection(detection: InsertPhotoDetection): Promise<PhotoDetection> {
+    const [photoDetection] = await getDb()
+      .insert(photoDetections)
+      .values(detection)
+      .returning();
+    return photoDetection;
+  }
+
+  async getPhotoDetection(id: number, userId: string): Promise<PhotoDetection | undefined> {
+    const [detection] = await getDb()
+      .select()
+      .from(photoDetections)
+      .where(and(eq(photoDetections.id, id), eq(photoDetections.userId, userId)));
+    return detection;
+  }
+
+  async confirmPhotoDetection(id: number, userId: string, weightEntryId: number): Promise<PhotoDetection | undefined> {
+    const [detection] = await getDb()
+      .update(photoDetections)
+      .set({ status: "confirmed", weightEntryId })
+      .where(
+        and(
+          eq(photoDetections.id, id),
+          eq(photoDetections.userId, userId),
+          eq(photoDetections.status, "pending"),
+        ),
+      )
+      .returning();
+    return detection;
+  }
+
+  async deletePhotoDetection(id: number, userId: string): Promise<boolean> {
+    const result = await getDb()
+      .delete(photoDetections)
+      .where(and(eq(photoDetections.id, id), eq(photoDetections.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteExpiredPhotoDetections(now: Date): Promise<PhotoDetection[]> {
+    return await getDb()
+      .delete(photoDetections)
+      .where(and(eq(photoDetections.status, "pending"), lt(photoDetections.expiresAt, now)))
+      .returning();
+  }
+
+  async getPendingPhotoDetections(userId: string, now: Date): Promise<PhotoDetection[]> {
+    return await getDb()
+      .select()
+      .from(photoDetections)
+      .where(
+        and(
+          eq(photoDetections.userId, userId),
+          eq(photoDetections.status, "pending"),
+          gt(photoDetections.expiresAt, now),
+        ),
+      )
+      .orderBy(desc(photoDetections.createdAt));
+  }
+
+  async getQueuedMediaIds(userId: string, source: string, mediaIds: string[]): Promise<string[]> {
+    if (mediaIds.length === 0) return [];
+    const rows = await getDb()
+      .select({ mediaId: photoDetections.mediaId })
+      .from(photoDetections)
+      .where(
+        and(
+          eq(photoDetections.userId, userId),
+          eq(photoDetections.source, source),
+          inArray(photoDetections.mediaId, mediaIds),
+        ),
+      );
+    return rows.map((row) => row.mediaId!);
+  }
+
+  async ownsPhoto(userId: string, photoPaths: string[]): Promise<boolean> {
+    if (photoPaths.length === 0) return false;
+    const [entry] = await getDb()
+      .select({ id: weightEntries.id })
+      .from(weightEntries)
+      .where(and(eq(weightEntries.userId, userId), inArray(weightEntries.photoPath, photoPaths)))
+      .limit(1);
+    if (entry) return true;
+    const [progressPhoto] = await getDb()
+      .select({ id: progressPhotos.id })
+      .from(progressPhotos)
+      .where(and(eq(progressPhotos.userId, userId), inArray(progressPhotos.photoPath, photoPaths)))
+      .limit(1);
+    if (progressPhoto) return true;
+    const [detection] = await getDb()
+      .select({ id: photoDetections.id })
+      .from(photoDetections)
+      .where(and(eq(photoDetections.userId, userId), inArray(photoDetections.photoPath, photoPaths)))
+      .limit(1);
+    return detection !== undefined;
+  }
+
+  async getReferencedPhotoPaths(photoPaths: string[]): Promise<string[]> {
+    if (photoPaths.length === 0) return [];
+    const entries = await getDb()
+      .selectDistinct({ photoPath: weightEntries.photoPath })
+      .from(weightEntries)
+      .where(inArray(weightEntries.photoPath, photoPaths));
+    const progress = await getDb()
+      .selectDistinct({ photoPath: progressPhotos.photoPath })
+      .from(progressPhotos)
+      .where(inArray(progressPhotos.photoPath, photoPaths));
+    const detections = await getDb()
+      .selectDistinct({ photoPath: photoDetections.photoPath })
+      .from(photoDetections)
+      .where(and(eq(photoDetections.status, "pending"), inArray(photoDetections.photoPath, photoPaths)));
+    return Array.from(new Set([...entries, ...progress, ...detections].map((row) => row.photoPath!)));
+  }
+
+  // Body progress photos
+  async createProgressPhoto(photo: InsertProgressPhoto): Promise<ProgressPhoto> {
+    const [saved] = await getDb().insert(progressPhotos).values(photo).returning();
+    return saved;
+  }
+
+  async getProgressPhotos(userId: string, pose?: ProgressPhotoPose): Promise<ProgressPhoto[]> {
+    const conditions = [eq(progressPhotos.userId, userId)];
+    if (pose) conditions.push(eq(progressPhotos.pose, pose));
+    return await getDb()
+      .select()
+      .from(progressPhotos)
+      .where(and(...conditions))
+      .orderBy(asc(progressPhotos.takenAt), asc(progressPhotos.id));
+  }
+
+  async *streamProgressPhotos(userId: string): AsyncIterable<ProgressPhoto> {
+    let afterId = 0;
+    while (true) {
+      const batch = await getDb()
+        .select()
+        .from(progressPhotos)
+        .where(and(eq(progressPhotos.userId, userId), gt(progressPhotos.id, afterId)))
+        .orderBy(asc(progressPhotos.id))
+        .limit(STREAM_BATCH_SIZE);
+      yield* batch;
+      if (batch.length < STREAM_BATCH_SIZE) return;
+      afterId = batch[batch.length - 1].id;
+    }
+  }
+
+  async getProgressPhoto(id: number, userId: string): Promise<ProgressPhoto | undefined> {
+    const [photo] = await getDb()
+      .select()
+      .from(progressPhotos)
+      .where(and(eq(progressPhotos.id, id), eq(progressPhotos.userId, userId)));
+    return photo;
+  }
+
+  async updateProgressPhoto(id: number, userId: string, updates: UpdateProgressPhoto): Promise<ProgressPhoto | undefined> {
+    const [photo] = await getDb()
+      .update(progressPhotos)
+      .set(updates)
+      .where(and(eq(progressPhotos.id, id), eq(progressPhotos.userId, userId)))
+      .returning();
+    return photo;
+  }
+
+  async deleteProgressPhoto(id: number, userId: string): Promise<ProgressPhoto | undefined> {
+    const [photo] = await getDb()
+      .delete(progressPhotos)
+      .where(and(eq(progressPhotos.id, id), eq(progressPhotos.userId, userId)))
+      .returning();
+    return photo;
+  }
+
+  // Goals
+  async createGoal(goal: InsertGoal): Promise<Goal> {
+    const [created] = await getDb()
+      .insert(goals)
+      .values(goal)
+      .returning();
+    return created;
+  }
+
+  async getGoals(userId: string): Promise<Goal[]> {
+    return await getDb()
+      .select()
+      .from(goals)
+      .where(eq(goals.userId, userId))
+      .orderBy(desc(goals.createdAt));
+  }
+
+  async getGoal(id: number, userId: string): Promise<Goal | undefined> {
+    const [goal] = await getDb()
+      .select()
+      .from(goals)
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)));
+    return goal;
+  }
+
+  async updateGoal(id: number, userId: string, updates: UpdateGoal & { achievedAt?: Date | null }): Promise<Goal | undefined> {
+    const [goal] = await getDb()
+      .update(goals)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+      .returning();
+    return goal;
+  }
+
+  async deleteGoal(id: number, userId: string): Promise<boolean> {
+    const result = await getDb()
+      .delete(goals)
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
   // Activity logs
   async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
-    const [activityLog] = await db
+    const [activityLog] = await getDb()
       .insert(activityLogs)
       .values(log)
       .returning();
     return activityLog;
   }
 
-  async getActivityLogs(userId: string, limit: number = 10): Promise<ActivityLog[]> {
-    return await db
+  async listActivityLogs(userId: string, query: ActivityLogQuery): Promise<ActivityLogPage> {
+    const filters = activityLogConditions(userId, query);
+    const pageFilters = query.cursor ? [...filters, lt(activityLogs.id, decodeActivityCursor(query.cursor))] : filters;
+
+    // One extra row tells us whether there's another page
+    const [rows, [{ total }]] = await Promise.all([
+      getDb()
+        .select()
+        .from(activityLogs)
+        .where(and(...pageFilters))
+        .orderBy(desc(activityLogs.id))
+        .limit(query.limit + 1),
+      getDb().select({ total: count() }).from(activityLogs).where(and(...filters)),
+    ]);
+
+    const logs = rows.slice(0, query.limit);
+    const hasMore = rows.length > query.limit;
+    return {
+      logs,
+      nextCursor: hasMore ? encodeActivityCursor(logs[logs.length - 1]) : null,
+      total,
+    };
+  }
+
+  async *streamActivityLogs(userId: string, filters: ActivityLogFilters = {}): AsyncIterable<ActivityLog> {
+    const conditions = activityLogConditions(userId, filters);
+    let afterId = 0;
+    while (true) {
+      const batch = await getDb()
+        .select()
+        .from(activityLogs)
+        .where(and(...conditions, gt(activityLogs.id, afterId)))
+        .orderBy(asc(activityLogs.id))
+        .limit(STREAM_BATCH_SIZE);
+      yield* batch;
+      if (batch.length < STREAM_BATCH_SIZE) return;
+      afterId = batch[batch.length - 1].id;
+    }
+  }
+
+  // OAuth accounts
+  async upsertConnectedAccount(account: UpsertConnectedAccount): Promise<ConnectedAccount> {
+    const [connected] = await getDb()
+      .insert(connectedAccounts)
+      .values(account)
+      .onConflictDoUpdate({
+        target: [connectedAccounts.userId, connectedAccounts.provider],
+        set: {
+          ...account,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return connected;
+  }
+
+  async getConnectedAccount(userId: string, provider: string): Promise<ConnectedAccount | undefined> {
+    const [account] = await getDb()
       .select()
-      .from(activityLogs)
-      .where(eq(activityLogs.userId, userId))
-      .orderBy(desc(activityLogs.createdAt))
+      .from(connectedAccounts)
+      .where(and(eq(connectedAccounts.userId, userId), eq(connectedAccounts.provider, provider)));
+    return account;
+  }
+
+  async deleteConnectedAccount(userId: string, provider: string): Promise<boolean> {
+    const result = await getDb()
+      .delete(connectedAccounts)
+      .where(and(eq(connectedAccounts.userId, userId), eq(connectedAccounts.provider, provider)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getConnectedAccountUserIds(provider: string): Promise<string[]> {
+    const rows = await getDb()
+      .select({ userId: connectedAccounts.userId })
+      .from(connectedAccounts)
+      .where(eq(connectedAccounts.provider, provider));
+    return rows.map((row) => row.userId);
+  }
+
+  // Background photo sync
+  async getPhotoSyncState(userId: string): Promise<PhotoSyncState | undefined> {
+    const [state] = await getDb().select().from(photoSyncStates).where(eq(photoSyncStates.userId, userId));
+    return state;
+  }
+
+  async upsertPhotoSyncState(state: UpsertPhotoSyncState): Promise<PhotoSyncState> {
+    const [saved] = await getDb()
+      .insert(photoSyncStates)
+      .values(state)
+      .onConflictDoUpdate({
+        target: photoSyncStates.userId,
+        set: {
+          ...state,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Sweeps for unreferenced photo files
+  async createPhotoCleanupRun(run: InsertPhotoCleanupRun): Promise<PhotoCleanupRun> {
+    const [saved] = await getDb().insert(photoCleanupRuns).values(run).returning();
+    return saved;
+  }
+
+  async getPhotoCleanupRuns(limit: number): Promise<PhotoCleanupRun[]> {
+    return await getDb()
+      .select()
+      .from(photoCleanupRuns)
+      .orderBy(desc(photoCleanupRuns.startedAt), desc(photoCleanupRuns.id))
       .limit(limit);
   }
 
-  async storeGoogleTokens(userId: string, tokens: any): Promise<void> {
-    // Store Google OAuth tokens (implement based on your database schema)
-    // For now, we'll mock this
-    console.log(`Storing Google tokens for user ${userId}:`, tokens);
+  async getPhotoCleanupTotals() {
+    const [totals] = await getDb()
+      .select({
+        runs: count(),
+        filesRemoved: sql<number>`coalesce(sum(${photoCleanupRuns.filesRemoved}), 0)::int`,
+        bytesReclaimed: sql<number>`coalesce(sum(${photoCleanupRuns.bytesReclaimed}), 0)::float8`,
+      })
+      .from(photoCleanupRuns);
+    return totals;
+  }
+
+  // Personal API tokens
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [apiToken] = await getDb().insert(apiTokens).values(token).returning();
+    return apiToken;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return await getDb()
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [apiToken] = await getDb().select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return apiToken;
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    await getDb().update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number, userId: string): Promise<ApiToken | undefined> {
+    const [apiToken] = await getDb()
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning();
+    return apiToken;
+  }
+
+  // Webhooks
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const [created] = await getDb().insert(webhooks).values(webhook).returning();
+    return created;
+  }
+
+  async getWebhooks(userId: string): Promise<Webhook[]> {
+    return await getDb()
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(desc(webhooks.createdAt), desc(webhooks.id));
+  }
+
+  async getWebhook(id: number, userId: string): Promise<Webhook | undefined> {
+    const [webhook] = await getDb()
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+    return webhook;
+  }
+
+  async updateWebhook(id: number, userId: string, updates: UpdateWebhook): Promise<Webhook | undefined> {
+    const [webhook] = await getDb()
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(id: number, userId: string): Promise<boolean> {
+    const result = await getDb()
+      .delete(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getWebhooksForEvent(userId: string, event: string): Promise<Webhook[]> {
+    return await getDb()
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.userId, userId), eq(webhooks.enabled, true), arrayContains(webhooks.events, [event])));
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await getDb().insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async getWebhookDelivery(id: number, userId: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await getDb()
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.userId, userId)));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(webhookId: number, userId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await getDb()
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.webhookId, webhookId), eq(webhookDeliveries.userId, userId)))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
   }
 
-  async getGoogleTokens(userId: string): Promise<any | null> {
-    // Retrieve Google OAuth tokens (implement based on your database schema)
-    // For now, we'll mock this
-    console.log(`Getting Google tokens for user ${userId}`);
-    return null;
+  async updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await getDb()
+      .update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
   }
 
-  async deleteGoogleTokens(userId: string): Promise<void> {
-    // Delete Google OAuth tokens (implement based on your database schema)
-    // For now, we'll mock this
-    console.log(`Deleting Google tokens for user ${userId}`);
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await getDb()
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+      .limit(limit);
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// STORAGE_PROVIDER=memory keeps all data in process, for running offline and in tests
+export const storage: IStorage =
+  process.env.STORAGE_PROVIDER === "memory" ? new MemStorage() : new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,109 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import type { PhotosClient, PhotosMediaItem } from "../googlePhotos";
+import type { Clock } from "../clock";
+
+export interface FakeClock extends Clock {
+  // Moves time forward, firing every timer that comes due on the way
+  advance(ms: number): void;
+}
+
+export function createFakeClock(start: Date = new Date("2026-01-01T00:00:00Z")): FakeClock {
+  let time = start.getTime();
+  const timers = new Set<{ ms: number; next: number; callback: () => void }>();
+
+  return {
+    now: () => new Date(time),
+    every(ms, callback) {
+      const timer = { ms, next: time + ms, callback };
+      timers.add(timer);
+      return () => timers.delete(timer);
+    },
+    advance(ms) {
+      const end = time + ms;
+      for (;;) {
+        const due = Array.from(timers)
+          .filter((timer) => timer.next <= end)
+          .sort((a, b) => a.next - b.next)[0];
+        if (!due) break;
+        time = due.next;
+        due.next += due.ms;
+        due.callback();
+      }
+      time = end;
+    },
+  };
+}
+
+export interface FakePhotosLibrary extends PhotosClient {
+  // Adds a photo whose download returns `data`
+  add(item: Omit<PhotosMediaItem, "baseUrl"> & { baseUrl?: string }, data: Buffer): void;
+  downloads: string[];
+}
+
+// An in-memory Photos library. Downloads ignore the requested size.
+export function createFakePhotosLibrary(): FakePhotosLibrary {
+  const items = new Map<string, { item: PhotosMediaItem; data: Buffer }>();
+  const downloads: string[] = [];
+  const taken = (item: PhotosMediaItem) => new Date(item.mediaMetadata?.creationTime ?? 0).getTime();
+
+  return {
+    downloads,
+    add(item, data) {
+      items.set(item.id, { item: { baseUrl: `https://photos.example/${item.id}`, ...item }, data });
+    },
+    async getMediaItem(id) {
+      const found = items.get(id);
+      if (!found) throw new Error(`Media item ${id} not found`);
+      return found.item;
+    },
+    async listPhotosSince(since) {
+      return Array.from(items.values())
+        .map(({ item }) => item)
+        .filter((item) => item.mimeType?.startsWith("image/") && taken(item) > since.getTime())
+        .sort((a, b) => taken(a) - taken(b));
+    },
+    async download(item) {
+      downloads.push(item.id);
+      const found = items.get(item.id);
+      if (!found) throw new Error(`Media item ${item.id} not found`);
+      return found.data;
+    },
+  };
+}
+
+export interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  // Status codes for the next requests, in order; 200 once they run out
+  respondWith(...statuses: number[]): void;
+  close(): Promise<void>;
+}
+
+// A local HTTP endpoint that records every webhook posted to it
+export async function startWebhookReceiver(): Promise<WebhookReceiver> {
+  const received: ReceivedWebhook[] = [];
+  const statuses: number[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf8") });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`,
+    received,
+    respondWith: (...next) => statuses.push(...next),
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,88 @@
+import express from "express";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { IStorage } from "../storage";
+
+export const TEST_USER_ID = "test-user";
+
+export interface TestServer {
+  url: string;
+  storage: IStorage;
+  uploadDir: string;
+  // fetch() against the server, signed in as `userId` (TEST_USER_ID by default)
+  request(urlPath: string, init?: RequestInit & { userId?: string }): Promise<Response>;
+  close(): Promise<void>;
+}
+
+// Boots the API on an ephemeral port with in-memory storage, stub
+// authentication and a temporary upload directory:
+//
+//   const server = await startTestServer();
+//   const res = await server.request("/api/weight-entries", {
+//     method: "POST",
+//     headers: { "Content-Type": "application/json" },
+//     body: JSON.stringify({ weight: "180.5" }),
+//   });
+//   await server.close();
+//
+// The server modules read their configuration when first imported, so this
+// must run before anything else in the process imports them.
+export async function startTestServer(): Promise<TestServer> {
+  process.env.STORAGE_PROVIDER = "memory";
+  process.env.AUTH_PROVIDER = "stub";
+  process.env.TOKEN_ENCRYPTION_KEY ||= crypto.randomBytes(32).toString("base64");
+  // Request summaries would drown out test output; errors still show
+  process.env.LOG_LEVEL ||= "error";
+  // Only a directory made here is removed again on close()
+  const ownUploadDir = !process.env.UPLOAD_DIR;
+  if (ownUploadDir) {
+    process.env.UPLOAD_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "weightwise-uploads-"));
+  }
+  const uploadDir = process.env.UPLOAD_DIR!;
+
+  // storage.ts and memStorage.ts import each other, so storage.ts has to be
+  // loaded on its own first for the cycle to resolve in the right order
+  const { storage } = await import("../storage");
+  const [{ registerRoutes }, { MemStorage }, { STUB_USER_HEADER }, { requestLogger }, { errorHandler }] = await Promise.all([
+    import("../routes"),
+    import("../memStorage"),
+    import("../auth/stub"),
+    import("../logger"),
+    import("../errors"),
+  ]);
+  if (!(storage instanceof MemStorage)) {
+    throw new Error("Storage was loaded before startTestServer(); start the server before importing it");
+  }
+
+  const app = express();
+  app.use(requestLogger());
+  app.use(express.json({ limit: "5mb" }));
+  app.use(express.urlencoded({ extended: false }));
+  const server: Server = await registerRoutes(app);
+  app.use(errorHandler());
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    storage,
+    uploadDir,
+    request(urlPath, { userId = TEST_USER_ID, ...init } = {}) {
+      const headers = new Headers(init.headers);
+      headers.set(STUB_USER_HEADER, userId);
+      return fetch(url + urlPath, { ...init, headers });
+    },
+    async close() {
+      await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+      if (ownUploadDir) {
+        await fs.promises.rm(uploadDir, { recursive: true, force: true });
+        delete process.env.UPLOAD_DIR;
+      }
+    },
+  };
+}
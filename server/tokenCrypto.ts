@@ -0,0 +1,42 @@
+import crypto from "crypto";
+
+// Same format as landing/lib/crypto.ts: base64 of iv (12 bytes), auth tag
+// (16 bytes) and ciphertext.
+const algorithm = "aes-256-gcm";
+
+let cachedKey: Buffer | undefined;
+
+// TOKEN_ENCRYPTION_KEY is 32 random bytes, hex or base64 encoded,
+// e.g. `openssl rand -base64 32`
+function getKey() {
+  if (cachedKey) return cachedKey;
+  const value = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!value) {
+    throw new Error("TOKEN_ENCRYPTION_KEY must be set to store connected account tokens");
+  }
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== 32) {
+    throw new Error("TOKEN_ENCRYPTION_KEY must be 32 bytes, hex or base64 encoded");
+  }
+  cachedKey = key;
+  return key;
+}
+
+export function encryptToken(text: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(algorithm, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return Buffer.concat([iv, tag, encrypted]).toString("base64");
+}
+
+export function decryptToken(payload: string) {
+  const data = Buffer.from(payload, "base64");
+  const iv = data.subarray(0, 12);
+  const tag = data.subarray(12, 28);
+  const text = data.subarray(28);
+  const decipher = crypto.createDecipheriv(algorithm, getKey(), iv);
+  decipher.setAuthTag(tag);
+  const decrypted = Buffer.concat([decipher.update(text), decipher.final()]);
+  return decrypted.toString("utf8");
+}
@@ -0,0 +1,98 @@
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { startTestServer, TEST_USER_ID, type TestServer } from "./testing/harness";
+import type { ScaleReading } from "./ocr";
+
+// The real reader, unless a test gives it a reading to return
+vi.mock("./ocr", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./ocr")>();
+  return { ...actual, readScaleDisplay: vi.fn(actual.readScaleDisplay) };
+});
+
+let server: TestServer;
+let readScaleDisplay: typeof import("./ocr").readScaleDisplay;
+let rateLimitStore: typeof import("./rateLimit").rateLimitStore;
+let scalePhoto: Buffer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  ({ readScaleDisplay } = await import("./ocr"));
+  ({ rateLimitStore } = await import("./rateLimit"));
+  scalePhoto = await sharp(path.join(import.meta.dirname, "ocr/fixtures/lcd-kg-straight.svg")).jpeg().toBuffer();
+});
+
+afterAll(async () => {
+  await server?.close();
+});
+
+function uploadPhoto(data: Buffer, fileName = "scale.jpg", type = "image/jpeg") {
+  const form = new FormData();
+  form.append("image", new Blob([data], { type }), fileName);
+  return server.request("/api/upload-weight-photo", { method: "POST", body: form });
+}
+
+// Bytes counted against the test user's upload quota today
+async function quotaUsed() {
+  const now = new Date();
+  const key = `upload-bytes:${TEST_USER_ID}:${now.toISOString().slice(0, 10)}`;
+  return (await rateLimitStore.increment(key, 0, now, new Date(now.getTime() + 24 * 60 * 60 * 1000))).count;
+}
+
+describe("POST /api/upload-weight-photo", () => {
+  it("queues the weight read off the photo for review", async () => {
+    const before = await quotaUsed();
+
+    const res = await uploadPhoto(scalePhoto);
+
+    expect(res.status).toBe(200);
+    const { detection, message } = await res.json();
+    expect(message).toBe("Weight detected, please review it");
+    expect(detection).toMatchObject({ userId: TEST_USER_ID, detectedWeight: "72.40", unit: "kg", status: "pending" });
+    expect(await quotaUsed()).toBe(before + scalePhoto.length);
+  });
+
+  it("drops a reading outside the plausible range and leaves the weight to the user", async () => {
+    const misread: ScaleReading = {
+      weight: 1824,
+      unit: "lbs",
+      confidence: 0.29,
+      plausible: false,
+      displayBox: { x: 0, y: 0, width: 10, height: 10 },
+      rawText: "1824lbs",
+    };
+    vi.mocked(readScaleDisplay).mockResolvedValueOnce(misread);
+
+    const res = await uploadPhoto(scalePhoto);
+
+    expect(res.status).toBe(200);
+    const { detection, message } = await res.json();
+    expect(message).toBe("Could not read a weight from this photo, please enter it manually");
+    expect(detection).toMatchObject({ detectedWeight: null, unit: null, confidence: null });
+  });
+
+  it.each([
+    ["a text file", Buffer.from("72.4 kg"), "weight.txt", "text/plain"],
+    ["a text file labelled as a JPEG", Buffer.from("72.4 kg"), "scale.jpg", "image/jpeg"],
+  ])("rejects %s without counting it against the quota", async (_case, data, fileName, type) => {
+    const before = await quotaUsed();
+    const pending = await server.storage.getPendingPhotoDetections(TEST_USER_ID, new Date());
+
+    const res = await uploadPhoto(data, fileName, type);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "bad_request",
+      message: "Only JPEG, PNG, WebP and HEIC photos are allowed",
+    });
+    expect(await quotaUsed()).toBe(before);
+    expect(await server.storage.getPendingPhotoDetections(TEST_USER_ID, new Date())).toHaveLength(pending.length);
+  });
+
+  it("asks for a file when none is sent", async () => {
+    const res = await server.request("/api/upload-weight-photo", { method: "POST", body: new FormData() });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ image: ["Choose a photo to upload"] });
+  });
+});
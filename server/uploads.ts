@@ -0,0 +1,90 @@
+import multer from "multer";
+import path from "path";
+import crypto from "crypto";
+import { isThumbnailSize, photoFileName, thumbnailSizes, type ThumbnailSize } from "@shared/photos";
+import { DiskBlobStore, MemoryBlobStore, type BlobStore, type StoredBlob } from "./blobStore";
+import { detectImageType, makeThumbnail, normalizeImage } from "./images";
+
+// UPLOAD_DIR lets tests keep their files out of the project
+export const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads");
+
+// BLOB_STORAGE=memory keeps photos in process, like STORAGE_PROVIDER=memory
+// does for data
+export const photoStore: BlobStore =
+  process.env.BLOB_STORAGE === "memory" ? new MemoryBlobStore() : new DiskBlobStore(uploadDir);
+
+// Uploads are kept in memory until saveUpload() has checked and normalized
+// them, so nothing the client sent is ever stored as is
+export const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+const sizes = Object.keys(thumbnailSizes) as ThumbnailSize[];
+
+// Deletes a photo (by its `/uploads/...` photoPath) and its thumbnails.
+// Missing files are ignored. Returns the number of bytes freed.
+export async function removeUpload(photoPath: string) {
+  let bytes = 0;
+  for (const fileName of [photoFileName(photoPath), ...sizes.map((size) => photoFileName(photoPath, size))]) {
+    const info = await photoStore.stat(fileName);
+    if (!info) continue;
+    await photoStore.delete(fileName);
+    bytes += info.size;
+  }
+  return bytes;
+}
+
+// Checks that the bytes are a photo, stores it as an upright JPEG without
+// metadata under a random name, and stores its thumbnails next to it. Throws a
+// BadRequestError for anything that isn't a readable photo. Returns the
+// normalized photo and its photoPath, `/uploads/....jpg`, which identifies it
+// from then on.
+export async function saveUpload(data: Buffer) {
+  const { photo, thumbnails } = await normalizeImage(data);
+  const photoPath = `/uploads/${crypto.randomBytes(16).toString("hex")}.jpg`;
+  await photoStore.put(photoFileName(photoPath), photo, "image/jpeg");
+  try {
+    for (const size of sizes) {
+      await photoStore.put(photoFileName(photoPath, size), thumbnails[size], "image/webp");
+    }
+  } catch (error) {
+    await removeUpload(photoPath);
+    throw error;
+  }
+  return { photoPath, photo };
+}
+
+const FILE_NAME = /^([0-9a-f]+)(?:\.jpg|-([a-z]+)\.webp)?$/;
+
+// The photoPaths a photo or thumbnail file name may belong to. Thumbnails are
+// named after the photo, which has a .jpg extension unless it was stored
+// before photos were normalized.
+export function photoPathsFor(fileName: string) {
+  const match = FILE_NAME.exec(fileName);
+  if (!match || (match[2] !== undefined && !isThumbnailSize(match[2]))) return [];
+  if (match[2] === undefined) return [`/uploads/${fileName}`];
+  return [`/uploads/${match[1]}.jpg`, `/uploads/${match[1]}`];
+}
+
+// A photo or thumbnail by file name. Thumbnails missing for photos stored
+// before they were made are made and stored now.
+export async function loadPhotoFile(fileName: string): Promise<StoredBlob | undefined> {
+  const blob = await photoStore.get(fileName);
+  if (blob) {
+    // Photos stored before normalization have no extension to go by
+    const type = blob.contentType === "application/octet-stream" ? detectImageType(blob.data) : undefined;
+    return type ? { ...blob, contentType: `image/${type}` } : blob;
+  }
+
+  const match = FILE_NAME.exec(fileName);
+  const size = match?.[2];
+  if (!match || !isThumbnailSize(size)) return undefined;
+  const original = await photoStore.get(match[1]);
+  if (!original) return undefined;
+  const thumbnail = await makeThumbnail(original.data, size);
+  await photoStore.put(fileName, thumbnail, "image/webp");
+  return { data: thumbnail, contentType: "image/webp" };
+}
@@ -0,0 +1,269 @@
+import crypto from "crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { Webhook } from "@shared/schema";
+import { startTestServer, type TestServer } from "./testing/harness";
+import { createFakeClock, startWebhookReceiver, type FakeClock, type WebhookReceiver } from "./testing/fakes";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+let server: TestServer;
+let receiver: WebhookReceiver;
+let webhooks: typeof import("./webhooks");
+
+beforeAll(async () => {
+  server = await startTestServer();
+  webhooks = await import("./webhooks");
+  receiver = await startWebhookReceiver();
+});
+
+afterAll(async () => {
+  await receiver?.close();
+  await server?.close();
+});
+
+let userId: string;
+let nextUser = 0;
+let clock: FakeClock;
+let dispatcher: ReturnType<typeof import("./webhooks").createWebhookDispatcher>;
+let webhook: Webhook;
+let secret: string;
+
+beforeEach(async () => {
+  // A user of their own per test, so earlier tests' webhooks don't get events
+  userId = `webhook-user-${++nextUser}`;
+  receiver.received.length = 0;
+  clock = createFakeClock();
+  // The receiver listens on loopback
+  dispatcher = webhooks.createWebhookDispatcher({ clock, allowPrivateTargets: true });
+  const generated = webhooks.generateWebhookSecret();
+  secret = generated.secret;
+  webhook = await server.storage.createWebhook({
+    userId,
+    url: receiver.url,
+    secret: generated.encrypted,
+    events: ["weight_entry.created"],
+  });
+});
+
+// Emits one event to `webhook` and waits for the first attempt
+async function deliverOnce() {
+  const [delivery] = await dispatcher.emit(userId, "weight_entry.created", { entry: { id: 1, weight: "180.00" } });
+  await dispatcher.flush();
+  return (await server.storage.getWebhookDelivery(delivery.id, userId))!;
+}
+
+describe("signing", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const body = JSON.stringify({ event: "goal.achieved" });
+    const expected = crypto.createHmac("sha256", "whsec_test").update(`1767225600.${body}`).digest("hex");
+
+    expect(webhooks.signWebhookPayload("whsec_test", 1767225600, body)).toBe(`t=1767225600,v1=${expected}`);
+  });
+
+  it("sends a signature the receiver can check with the webhook's secret", async () => {
+    const delivery = await deliverOnce();
+
+    const [request] = receiver.received;
+    const timestamp = Math.floor(clock.now().getTime() / 1000);
+    expect(request.headers["x-weightwise-signature"]).toBe(webhooks.signWebhookPayload(secret, timestamp, request.body));
+    expect(request.headers["x-weightwise-event"]).toBe("weight_entry.created");
+    expect(request.headers["x-weightwise-delivery"]).toBe(String(delivery.id));
+    expect(JSON.parse(request.body)).toEqual({
+      event: "weight_entry.created",
+      createdAt: clock.now().toISOString(),
+      data: { entry: { id: 1, weight: "180.00" } },
+    });
+  });
+
+  it("doesn't match a signature made with another secret", async () => {
+    await deliverOnce();
+
+    const [request] = receiver.received;
+    const timestamp = Math.floor(clock.now().getTime() / 1000);
+    expect(request.headers["x-weightwise-signature"]).not.toBe(
+      webhooks.signWebhookPayload("whsec_other", timestamp, request.body),
+    );
+  });
+});
+
+describe("retries", () => {
+  it("backs off 1m, 5m, 30m, 2h and 12h, then gives up", async () => {
+    receiver.respondWith(500, 500, 500, 500, 500, 500);
+    let delivery = await deliverOnce();
+
+    const delays: number[] = [];
+    while (delivery.status === "pending") {
+      const wait = delivery.nextAttemptAt!.getTime() - clock.now().getTime();
+      delays.push(wait);
+      // Not a moment early
+      clock.advance(wait - 1000);
+      await dispatcher.processDue();
+      expect(receiver.received).toHaveLength(delays.length);
+
+      clock.advance(1000);
+      await dispatcher.processDue();
+      delivery = (await server.storage.getWebhookDelivery(delivery.id, userId))!;
+    }
+
+    expect(delays).toEqual([MINUTE, 5 * MINUTE, 30 * MINUTE, 2 * HOUR, 12 * HOUR]);
+    expect(receiver.received).toHaveLength(6);
+    expect(delivery).toMatchObject({
+      status: "failed",
+      attempts: 6,
+      responseStatus: 500,
+      error: "Receiver responded with 500",
+      nextAttemptAt: null,
+      deliveredAt: null,
+    });
+  });
+
+  it("succeeds on a retry once the receiver recovers", async () => {
+    receiver.respondWith(503);
+    const failed = await deliverOnce();
+
+    clock.advance(MINUTE);
+    await dispatcher.processDue();
+    const delivered = await server.storage.getWebhookDelivery(failed.id, userId);
+
+    expect(failed).toMatchObject({ status: "pending", attempts: 1, responseStatus: 503 });
+    expect(delivered).toMatchObject({
+      status: "succeeded",
+      attempts: 2,
+      responseStatus: 200,
+      error: null,
+      deliveredAt: clock.now(),
+      nextAttemptAt: null,
+    });
+  });
+
+  it("treats a redirect as a failure without following it", async () => {
+    receiver.respondWith(302);
+
+    const delivery = await deliverOnce();
+
+    expect(receiver.received).toHaveLength(1);
+    expect(delivery).toMatchObject({ status: "pending", responseStatus: 302, error: "Receiver responded with 302" });
+  });
+});
+
+describe("delivery log", () => {
+  it("lists each attempt's outcome, newest first, without the receiver's reply", async () => {
+    receiver.respondWith(500);
+    const first = await deliverOnce();
+    const second = await deliverOnce();
+
+    const res = await server.request(`/api/webhooks/${webhook.id}/deliveries`, { userId });
+
+    expect(res.status).toBe(200);
+    const deliveries = await res.json();
+    expect(deliveries.map((delivery: { id: number }) => delivery.id)).toEqual([second.id, first.id]);
+    expect(deliveries[0]).toMatchObject({ event: "weight_entry.created", status: "succeeded", responseStatus: 200 });
+    expect(deliveries[1]).toMatchObject({ status: "pending", attempts: 1, error: "Receiver responded with 500" });
+    expect(deliveries[1]).not.toHaveProperty("responseBody");
+  });
+
+  it("records a replay as a new delivery pointing at the original", async () => {
+    const original = await deliverOnce();
+
+    const replayed = await dispatcher.replay(original);
+
+    expect(replayed).toMatchObject({ status: "succeeded", replayOf: original.id, payload: original.payload });
+    expect(receiver.received).toHaveLength(2);
+    expect(receiver.received[1].body).toBe(receiver.received[0].body);
+  });
+
+  it("isn't shown to other users", async () => {
+    await deliverOnce();
+
+    const res = await server.request(`/api/webhooks/${webhook.id}/deliveries`, { userId: "someone-else" });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("private targets", () => {
+  it.each([
+    ["loopback", "http://127.0.0.1:8080/hook"],
+    ["localhost", "http://localhost/hook"],
+    ["a private network", "http://10.1.2.3/hook"],
+    ["cloud metadata", "http://169.254.169.254/latest/meta-data"],
+    ["IPv6 loopback", "http://[::1]/hook"],
+    ["IPv4-mapped IPv6", "http://[::ffff:192.168.0.1]/hook"],
+  ])("refuses to save a webhook for %s", async (_case, url) => {
+    const res = await server.request("/api/webhooks", {
+      method: "POST",
+      userId,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url, events: ["weight_entry.created"] }),
+    });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toEqual({ url: ["Webhook URLs must point to a public address"] });
+  });
+
+  it("refuses to change a webhook to a private address", async () => {
+    const res = await server.request(`/api/webhooks/${webhook.id}`, {
+      method: "PATCH",
+      userId,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: "http://192.168.1.1/hook" }),
+    });
+
+    expect(res.status).toBe(400);
+    expect((await server.storage.getWebhook(webhook.id, userId))?.url).toBe(receiver.url);
+  });
+
+  it("accepts public addresses", async () => {
+    await expect(webhooks.checkWebhookTarget("https://93.184.216.34/hook", false)).resolves.toBeUndefined();
+    await expect(webhooks.checkWebhookTarget("https://[2606:4700::1111]/hook", false)).resolves.toBeUndefined();
+  });
+
+  it("doesn't send to an address that has become private since the webhook was saved", async () => {
+    dispatcher = webhooks.createWebhookDispatcher({ clock, allowPrivateTargets: false });
+
+    const delivery = await deliverOnce();
+
+    expect(receiver.received).toEqual([]);
+    expect(delivery).toMatchObject({
+      status: "pending",
+      responseStatus: null,
+      error: "Webhook URLs must point to a public address",
+    });
+  });
+
+  it("connects to the address it resolved, not the one in the URL", async () => {
+    const port = new URL(receiver.url).port;
+    await server.storage.updateWebhook(webhook.id, userId, { url: `http://hooks.example.test:${port}/hook` });
+    const resolve = async () => [{ address: "127.0.0.1", family: 4 }];
+    dispatcher = webhooks.createWebhookDispatcher({ clock, allowPrivateTargets: true, resolve });
+
+    const delivery = await deliverOnce();
+
+    expect(delivery).toMatchObject({ status: "succeeded", responseStatus: 200 });
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it("doesn't send when the host resolves to a private address after the check", async () => {
+    const port = new URL(receiver.url).port;
+    await server.storage.updateWebhook(webhook.id, userId, { url: `http://hooks.example.test:${port}/hook` });
+    // Public for the check, then this machine when connecting
+    const answers = [{ address: "93.184.216.34", family: 4 }, { address: "127.0.0.1", family: 4 }];
+    const lookups: string[] = [];
+    const resolve = async (host: string) => {
+      lookups.push(host);
+      return [answers[Math.min(lookups.length - 1, answers.length - 1)]];
+    };
+    dispatcher = webhooks.createWebhookDispatcher({ clock, allowPrivateTargets: false, resolve });
+
+    const delivery = await deliverOnce();
+
+    expect(lookups).toEqual(["hooks.example.test", "hooks.example.test"]);
+    expect(receiver.received).toEqual([]);
+    expect(delivery).toMatchObject({
+      status: "pending",
+      responseStatus: null,
+      error: "Webhook URLs must point to a public address",
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+import { Agent, fetch as undiciFetch } from "undici";
+import type { Webhook, WebhookDelivery, WebhookEvent } from "@shared/schema";
+import { systemClock, type Clock } from "./clock";
+import { ValidationError } from "./errors";
+import { logger } from "./logger";
+import { storage } from "./storage";
+import { decryptToken, encryptToken } from "./tokenCrypto";
+
+// Wait before each retry; a delivery fails for good once these run out
+const RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  12 * 60 * 60 * 1000, // 12 hours
+];
+const POLL_INTERVAL_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Retries picked up per poll
+const DUE_BATCH_SIZE = 50;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-WeightWise-Signature";
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  createdAt: string;
+  data: unknown;
+}
+
+// Addresses a webhook may not be sent to: this machine, private networks,
+// link-local (including cloud metadata at 169.254.169.254), multicast and
+// reserved ranges. BlockList checks IPv4-mapped IPv6 addresses against the
+// IPv4 ranges.
+const privateAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  privateAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+// WEBHOOK_ALLOW_PRIVATE_TARGETS=true lifts the address check, for
+// development and tests against local receivers
+const privateTargetsAllowed = () => process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+
+// Resolves a host name to all of its addresses
+export type HostResolver = (host: string) => Promise<dns.LookupAddress[]>;
+
+const resolveHost: HostResolver = (host) => dns.promises.lookup(host, { all: true, verbatim: true });
+
+// Resolves `host` and throws a ValidationError unless every address it
+// resolves to is public
+async function resolvePublicAddresses(host: string, resolve: HostResolver) {
+  const invalid = (message: string) => new ValidationError(message, { url: [message] });
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await resolve(host);
+  } catch {
+    throw invalid(`Couldn't resolve ${host}`);
+  }
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address, family }) => privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4"))
+  ) {
+    throw invalid("Webhook URLs must point to a public address");
+  }
+  return addresses;
+}
+
+// Throws a ValidationError unless the webhook URL's host resolves only to
+// public addresses, so webhooks can't be used to read services on the
+// server's own network. Checked when a webhook is saved and again before each
+// delivery, since DNS can change in between.
+export async function checkWebhookTarget(
+  url: string,
+  allowPrivate: boolean = privateTargetsAllowed(),
+  resolve: HostResolver = resolveHost,
+) {
+  if (allowPrivate) return;
+  await resolvePublicAddresses(new URL(url).hostname.replace(/^\[|\]$/g, ""), resolve);
+}
+
+// A connection pool that resolves hosts itself when connecting and refuses
+// private addresses. The check before a delivery resolves the host
+// separately, so without this a DNS answer that changes in between (DNS
+// rebinding) would send the request somewhere unchecked.
+function pinnedAgent(allowPrivate: boolean, resolve: HostResolver) {
+  const lookup: net.LookupFunction = (host, options, callback) => {
+    const addresses = allowPrivate ? resolve(host) : resolvePublicAddresses(host, resolve);
+    addresses.then(
+      (resolved) => {
+        if (options.all) {
+          callback(null, resolved);
+        } else {
+          callback(null, resolved[0].address, resolved[0].family);
+        }
+      },
+      (error) => callback(error, ""),
+    );
+  };
+  return new Agent({ connect: { lookup } });
+}
+
+// A new signing secret, and the encrypted form to store
+export function generateWebhookSecret() {
+  const secret = "whsec_" + crypto.randomBytes(24).toString("base64url");
+  return { secret, encrypted: encryptToken(secret) };
+}
+
+// The signature header value, "t=<unix seconds>,v1=<hex HMAC-SHA256>" over
+// "<t>.<body>". Receivers recompute it with their secret and compare, and can
+// reject old timestamps to stop replays.
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// A webhook as shown to its owner, without the secret
+export function toWebhookResponse({ secret, ...webhook }: Webhook) {
+  return webhook;
+}
+
+export interface WebhookDispatcherOptions {
+  clock?: Clock;
+  fetch?: typeof undiciFetch;
+  // Defaults to WEBHOOK_ALLOW_PRIVATE_TARGETS
+  allowPrivateTargets?: boolean;
+  // Defaults to the system resolver
+  resolve?: HostResolver;
+}
+
+// Sends webhook events. Each event is written to the delivery log first and
+// then posted straight away; failures are retried with backoff by a poll over
+// the log, so retries survive a restart.
+export function createWebhookDispatcher(options: WebhookDispatcherOptions = {}) {
+  const clock = options.clock ?? systemClock;
+  // undici's own fetch, which takes its connection pool as `dispatcher`
+  const fetchWebhook = options.fetch ?? undiciFetch;
+  const allowPrivate = options.allowPrivateTargets ?? privateTargetsAllowed();
+  const resolve = options.resolve ?? resolveHost;
+  const agent = pinnedAgent(allowPrivate, resolve);
+
+  // One attempt per delivery at a time, whether just emitted or polled
+  const inFlight = new Map<number, Promise<WebhookDelivery | undefined>>();
+  let cancel: (() => void) | null = null;
+  let polling: Promise<void> | null = null;
+
+  async function attempt(delivery: WebhookDelivery, webhook: Webhook | undefined) {
+    const now = clock.now();
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!webhook?.enabled) {
+      error = "Webhook is disabled";
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      try {
+        await checkWebhookTarget(webhook.url, allowPrivate, resolve);
+        const response = await fetchWebhook(webhook.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "WeightWise-Webhooks",
+            "X-WeightWise-Event": delivery.event,
+            "X-WeightWise-Delivery": String(delivery.id),
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+              decryptToken(webhook.secret),
+              Math.floor(now.getTime() / 1000),
+              body,
+            ),
+          },
+          body,
+          // A redirect could point anywhere; treat it as a failure
+          redirect: "manual",
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+          dispatcher: agent,
+        });
+        responseStatus = response.status;
+        // Only the status is kept: the body could be anything the URL serves
+        await response.body?.cancel();
+        if (!response.ok) {
+          error = `Receiver responded with ${response.status}`;
+        }
+      } catch (err: any) {
+        // fetch wraps a connection error, such as an address refused when
+        // connecting, in its `cause`
+        const reason = err?.cause instanceof ValidationError ? err.cause : err;
+        error = reason?.name === "TimeoutError" ? "Timed out" : reason?.message || "Request failed";
+      }
+    }
+
+    const succeeded = error === null;
+    const retryDelay = webhook?.enabled ? RETRY_DELAYS_MS[attempts - 1] : undefined;
+    const status = succeeded ? "succeeded" : retryDelay === undefined ? "failed" : "pending";
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status,
+      attempts,
+      responseStatus,
+      error,
+      deliveredAt: succeeded ? now : null,
+      nextAttemptAt: status === "pending" ? new Date(now.getTime() + retryDelay!) : null,
+    });
+  }
+
+  // Attempts one delivery if it is still due, resolving with its log row
+  function send(delivery: WebhookDelivery) {
+    let run = inFlight.get(delivery.id);
+    if (!run) {
+      run = (async () => {
+        // A poll may hold a row that another attempt has since updated
+        const current = await storage.getWebhookDelivery(delivery.id, delivery.userId);
+        if (current?.status !== "pending" || !current.nextAttemptAt || current.nextAttemptAt > clock.now()) {
+          return current;
+        }
+        return await attempt(current, await storage.getWebhook(current.webhookId, current.userId));
+      })().finally(() => inFlight.delete(delivery.id));
+      inFlight.set(delivery.id, run);
+    }
+    return run;
+  }
+
+  function sendInBackground(delivery: WebhookDelivery) {
+    send(delivery).catch((error) => {
+      logger.error("Error delivering webhook", { deliveryId: delivery.id, error });
+    });
+  }
+
+  // Queues `event` for each of the user's webhooks subscribed to it. Never
+  // throws, so callers can emit after their own work is done.
+  async function emit(userId: string, event: WebhookEvent, data: unknown): Promise<WebhookDelivery[]> {
+    try {
+      const subscribed = await storage.getWebhooksForEvent(userId, event);
+      const now = clock.now();
+      const payload: WebhookPayload = { event, createdAt: now.toISOString(), data };
+
+      const deliveries: WebhookDelivery[] = [];
+      for (const webhook of subscribed) {
+        const delivery = await storage.createWebhookDelivery({
+          webhookId: webhook.id,
+          userId,
+          event,
+          payload,
+          nextAttemptAt: now,
+        });
+        deliveries.push(delivery);
+        sendInBackground(delivery);
+      }
+      return deliveries;
+    } catch (error) {
+      logger.error("Error emitting webhook event", { event, error });
+      return [];
+    }
+  }
+
+  // Sends a logged delivery again as a new delivery, and waits for the attempt
+  async function replay(delivery: WebhookDelivery) {
+    const copy = await storage.createWebhookDelivery({
+      webhookId: delivery.webhookId,
+      userId: delivery.userId,
+      event: delivery.event,
+      payload: delivery.payload,
+      replayOf: delivery.id,
+      nextAttemptAt: clock.now(),
+    });
+    return (await send(copy)) ?? copy;
+  }
+
+  // Retries every delivery that has come due
+  function processDue() {
+    if (!polling) {
+      polling = (async () => {
+        const due = await storage.getDueWebhookDeliveries(clock.now(), DUE_BATCH_SIZE);
+        for (const delivery of due) {
+          await send(delivery);
+        }
+      })().finally(() => {
+        polling = null;
+      });
+    }
+    return polling;
+  }
+
+  // Waits for every attempt in progress, for tests
+  async function flush() {
+    while (inFlight.size > 0) {
+      await Promise.allSettled(Array.from(inFlight.values()));
+    }
+  }
+
+  return {
+    emit,
+    replay,
+    processDue,
+    flush,
+    start() {
+      if (cancel) return;
+      cancel = clock.every(POLL_INTERVAL_MS, () => {
+        processDue().catch((error) => {
+          logger.error("Error retrying webhooks", { error });
+        });
+      });
+    },
+    stop() {
+      cancel?.();
+      cancel = null;
+    },
+  };
+}
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;
+
+export const webhookDispatcher = createWebhookDispatcher();
@@ -0,0 +1,215 @@
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { weightEntryInsertSchema } from "@shared/schema";
+import { photoUrl } from "@shared/photos";
+import { startTestServer, TEST_USER_ID, type TestServer } from "./testing/harness";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server?.close();
+});
+
+function send(method: string, urlPath: string, body: unknown, userId?: string) {
+  return server.request(urlPath, {
+    method,
+    userId,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createEntry(body: Record<string, unknown> = { weight: "180.5" }) {
+  const res = await send("POST", "/api/weight-entries", body);
+  expect(res.status).toBe(200);
+  return res.json();
+}
+
+async function lastActivity() {
+  const { logs } = await server.storage.listActivityLogs(TEST_USER_ID, { limit: 1 });
+  return logs[0];
+}
+
+const invalidWeights: [string, unknown, string][] = [
+  ["not a number", "abc", "Weight must be a number"],
+  ["empty", "", "Weight must be positive"],
+  ["negative", "-5", "Weight must be positive"],
+  ["zero", 0, "Weight must be positive"],
+  ["too large", "100000", "Weight must be less than 1000"],
+  ["rounding up to 1000", "999.999", "Weight must be less than 1000"],
+];
+
+describe("POST /api/weight-entries", () => {
+  it("stores the weight rounded to two decimals with its canonical grams", async () => {
+    const entry = await createEntry({ weight: "180.456", unit: "lbs", notes: "Morning" });
+
+    expect(entry).toMatchObject({ userId: TEST_USER_ID, weight: "180.46", unit: "lbs", notes: "Morning" });
+    expect(entry.weightGrams).toBe(Math.round(180.46 * 453.59237));
+    expect(await server.storage.getWeightEntry(entry.id, TEST_USER_ID)).toMatchObject({ weight: "180.46" });
+  });
+
+  it("logs the new entry", async () => {
+    const entry = await createEntry({ weight: 82.3, unit: "kg" });
+
+    expect(await lastActivity()).toMatchObject({
+      action: "weight_entry",
+      description: "Manually added weight: 82.30 kg",
+      metadata: { entryId: entry.id, entryType: "manual" },
+    });
+  });
+
+  it.each(invalidWeights)("rejects a weight that is %s", async (_case, weight, message) => {
+    const res = await send("POST", "/api/weight-entries", { weight });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: "validation_error", fieldErrors: { weight: [message] } });
+  });
+
+  it("rejects a missing weight", async () => {
+    const res = await send("POST", "/api/weight-entries", { unit: "kg" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toHaveProperty("weight");
+  });
+
+  it("rejects an unknown unit", async () => {
+    const res = await send("POST", "/api/weight-entries", { weight: "180", unit: "oz" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors).toHaveProperty("unit");
+  });
+
+  it("ignores a userId in the body", async () => {
+    const entry = await createEntry({ weight: "150", userId: "someone-else" });
+
+    expect(entry.userId).toBe(TEST_USER_ID);
+  });
+
+  it("always records a manual entry without a photo", async () => {
+    const entry = await createEntry({ weight: "150", entryType: "photo", photoPath: "/uploads/abc.jpg" });
+
+    expect(entry).toMatchObject({ entryType: "manual", photoPath: null });
+  });
+
+  it("doesn't let another user claim a photo by naming it", async () => {
+    const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: "#888" } }).jpeg().toBuffer();
+    const form = new FormData();
+    form.append("image", new Blob([image], { type: "image/jpeg" }), "scale.jpg");
+    const upload = await server.request("/api/upload-weight-photo", { method: "POST", body: form });
+    const { detection } = await upload.json();
+
+    const claim = { weight: "150", photoPath: detection.photoPath, entryType: "photo" };
+    const res = await send("POST", "/api/weight-entries", claim, "intruder");
+    const photo = await server.request(photoUrl(detection.photoPath), { userId: "intruder" });
+    const signed = await server.request(`${photoUrl(detection.photoPath)}/signed-url`, {
+      method: "POST",
+      userId: "intruder",
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ photoPath: null });
+    expect(photo.status).toBe(404);
+    expect(signed.status).toBe(404);
+    expect((await server.request(photoUrl(detection.photoPath))).status).toBe(200);
+  });
+});
+
+describe("weightEntryInsertSchema", () => {
+  it("only accepts known entry types", () => {
+    const entry = { userId: TEST_USER_ID, weight: "150" };
+
+    expect(weightEntryInsertSchema.safeParse({ ...entry, entryType: "scale" }).success).toBe(true);
+    expect(weightEntryInsertSchema.safeParse({ ...entry, entryType: "whatever" }).success).toBe(false);
+  });
+});
+
+describe("PATCH /api/weight-entries/:id", () => {
+  it("updates the entry and logs what changed", async () => {
+    const entry = await createEntry({ weight: "180", unit: "lbs" });
+
+    const res = await send("PATCH", `/api/weight-entries/${entry.id}`, { weight: "178.25", notes: "After run" });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: entry.id, weight: "178.25", notes: "After run" });
+    const activity = await lastActivity();
+    expect(activity).toMatchObject({
+      action: "weight_edit",
+      description: "Edited weight entry: 178.25 lbs",
+      metadata: { entryId: entry.id },
+    });
+    expect(activity.metadata.changes).toHaveProperty("weight");
+  });
+
+  it("doesn't log an edit that changes nothing", async () => {
+    const entry = await createEntry({ weight: "175" });
+    const before = await lastActivity();
+
+    const res = await send("PATCH", `/api/weight-entries/${entry.id}`, { weight: "175.00" });
+
+    expect(res.status).toBe(200);
+    expect((await lastActivity()).id).toBe(before.id);
+  });
+
+  it.each(invalidWeights)("rejects a weight that is %s", async (_case, weight, message) => {
+    const entry = await createEntry();
+
+    const res = await send("PATCH", `/api/weight-entries/${entry.id}`, { weight });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: "validation_error", fieldErrors: { weight: [message] } });
+    expect(await server.storage.getWeightEntry(entry.id, TEST_USER_ID)).toMatchObject({ weight: entry.weight });
+  });
+
+  it("returns 404 for an entry that doesn't exist", async () => {
+    const res = await send("PATCH", "/api/weight-entries/999999", { weight: "170" });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 404 for another user's entry and leaves it alone", async () => {
+    const entry = await createEntry({ weight: "190" });
+
+    const res = await send("PATCH", `/api/weight-entries/${entry.id}`, { weight: "100" }, "intruder");
+
+    expect(res.status).toBe(404);
+    expect(await server.storage.getWeightEntry(entry.id, TEST_USER_ID)).toMatchObject({ weight: "190.00" });
+  });
+});
+
+describe("DELETE /api/weight-entries/:id", () => {
+  it("deletes the entry and logs it", async () => {
+    const entry = await createEntry({ weight: "181.2" });
+
+    const res = await server.request(`/api/weight-entries/${entry.id}`, { method: "DELETE" });
+
+    expect(res.status).toBe(200);
+    expect(await server.storage.getWeightEntry(entry.id, TEST_USER_ID)).toBeUndefined();
+    expect(await lastActivity()).toMatchObject({
+      action: "weight_delete",
+      description: "Deleted weight entry: 181.20 lbs",
+      metadata: { entryId: entry.id, deletedWeight: "181.20", deletedUnit: "lbs" },
+    });
+  });
+
+  it("returns 404 the second time", async () => {
+    const entry = await createEntry();
+    await server.request(`/api/weight-entries/${entry.id}`, { method: "DELETE" });
+
+    const res = await server.request(`/api/weight-entries/${entry.id}`, { method: "DELETE" });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 404 for another user's entry and keeps it", async () => {
+    const entry = await createEntry();
+
+    const res = await server.request(`/api/weight-entries/${entry.id}`, { method: "DELETE", userId: "intruder" });
+
+    expect(res.status).toBe(404);
+    expect(await server.storage.getWeightEntry(entry.id, TEST_USER_ID)).toBeDefined();
+  });
+});
@@ -0,0 +1,348 @@
+import {
+  weightEntryInsertSchema,
+  type InsertWeightEntry,
+  type WeightImportMapping,
+  type WeightImportRequest,
+} from "@shared/schema";
+import type { WeightUnit } from "@shared/units";
+import { BadRequestError } from "./errors";
+import { entryGrams, storage } from "./storage";
+
+export const MAX_IMPORT_ROWS = 10000;
+
+type DateOrder = "ymd" | "mdy" | "dmy";
+
+export interface ImportRowResult {
+  // 1-based data row, not counting the CSV header
+  row: number;
+  status: "imported" | "duplicate" | "invalid";
+  errors?: string[];
+  recordedAt?: string;
+  weight?: string;
+  unit?: WeightUnit;
+}
+
+export interface ImportPlan {
+  report: ImportRowResult[];
+  // Valid, non-duplicate rows ready to insert, in report order
+  entries: InsertWeightEntry[];
+}
+
+const HEADER_ALIASES: Record<keyof WeightImportMapping, string[]> = {
+  date: ["date", "datetime", "timestamp", "time", "recorded_at", "recordedat", "recorded", "day"],
+  weight: ["weight", "weight_value", "value", "mass", "body_weight", "bodyweight"],
+  unit: ["unit", "units", "weight_unit"],
+  notes: ["notes", "note", "comment", "comments", "description"],
+};
+
+const UNIT_ALIASES: Record<string, WeightUnit> = {
+  lb: "lbs",
+  lbs: "lbs",
+  pound: "lbs",
+  pounds: "lbs",
+  kg: "kg",
+  kgs: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  st: "st",
+  stone: "st",
+  stones: "st",
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF. The delimiter
+// (comma, semicolon or tab) is taken from whichever appears most in the header.
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+// Columns the request didn't map are matched by header name
+function resolveMapping(headers: string[], requested: Partial<WeightImportMapping> = {}): WeightImportMapping {
+  const find = (field: keyof WeightImportMapping) =>
+    requested[field] ?? headers.find((header) => HEADER_ALIASES[field].includes(normaliseHeader(header)));
+
+  const date = find("date");
+  const weight = find("weight");
+  if (!date || !weight) {
+    throw new BadRequestError(
+      `Couldn't find date and weight columns in: ${headers.join(", ")}. Provide a column mapping.`,
+    );
+  }
+  return { date, weight, unit: find("unit"), notes: find("notes") };
+}
+
+// Turns CSV text or a JSON array into plain records keyed by column name
+function toRecords(request: WeightImportRequest): Array<Record<string, unknown>> {
+  if (request.format === "json") {
+    let data: unknown = request.data;
+    if (typeof data === "string") {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        throw new BadRequestError("Data is not valid JSON");
+      }
+    }
+    if (!Array.isArray(data) || data.some((item) => typeof item !== "object" || item === null)) {
+      throw new BadRequestError("JSON data must be an array of objects");
+    }
+    return data as Array<Record<string, unknown>>;
+  }
+
+  if (typeof request.data !== "string") {
+    throw new BadRequestError("CSV data must be a string");
+  }
+  const [headers, ...rows] = parseCsv(request.data.replace(/^\uFEFF/, ""));
+  if (!headers) {
+    throw new BadRequestError("CSV data is empty");
+  }
+  return rows.map((values) =>
+    Object.fromEntries(headers.map((header, i) => [header, values[i]?.trim() ?? ""])),
+  );
+}
+
+const NUMERIC_DATE = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?$/i;
+
+// Picks day/month order for 'auto' from the values themselves: a first part
+// above 12 means day first, a second part above 12 means month first. Counted
+// as votes so a single garbled row can't decide it.
+function inferDateOrder(values: unknown[]): DateOrder {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  for (const value of values) {
+    const match = typeof value === "string" ? value.trim().match(NUMERIC_DATE) : null;
+    if (!match || match[1].length === 4) continue;
+    const [first, second] = [parseInt(match[1]), parseInt(match[2])];
+    if (first > 12 && second <= 12) dayFirst++;
+    if (second > 12 && first <= 12) monthFirst++;
+  }
+  return dayFirst > monthFirst ? "dmy" : "mdy";
+}
+
+// Accepts ISO 8601, year-first, month/day/year or day/month/year (per `order`),
+// Unix timestamps in seconds or milliseconds, and anything Date.parse understands
+// such as "Jan 5, 2024". Dates without a timezone are taken as server local time.
+export function parseImportDate(value: unknown, order: DateOrder): Date | null {
+  if (typeof value === "number") {
+    return new Date(value < 1e11 ? value * 1000 : value);
+  }
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const text = value.trim();
+
+  if (/^\d{9,13}$/.test(text)) {
+    const timestamp = parseInt(text);
+    return new Date(text.length <= 10 ? timestamp * 1000 : timestamp);
+  }
+
+  // Full ISO timestamps with a zone are unambiguous
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = text.match(NUMERIC_DATE);
+  if (match) {
+    const [, a, b, c, hours = "0", minutes = "0", seconds = "0", meridiem] = match;
+    let year: number, month: number, day: number;
+    if (a.length === 4) {
+      [year, month, day] = [parseInt(a), parseInt(b), parseInt(c)];
+    } else if (order === "dmy") {
+      [day, month, year] = [parseInt(a), parseInt(b), parseInt(c)];
+    } else {
+      [month, day, year] = [parseInt(a), parseInt(b), parseInt(c)];
+    }
+    if (c.length === 2 && a.length !== 4) year += 2000;
+
+    let hour = parseInt(hours);
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0);
+    }
+
+    const date = new Date(year, month - 1, day, hour, parseInt(minutes), parseInt(seconds));
+    // Reject rollovers like 31/02
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      return null;
+    }
+    return date;
+  }
+
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : new Date(parsed);
+}
+
+export function parseImportUnit(value: unknown): WeightUnit | null {
+  if (typeof value !== "string") return null;
+  return UNIT_ALIASES[value.trim().toLowerCase().replace(/\.$/, "")] ?? null;
+}
+
+// Reads "180.5", "82,4", "82.4 kg" or "12st 6lb". A unit written next to the
+// number wins over the unit column.
+export function parseImportWeight(value: unknown): { weight: number; unit: WeightUnit | null } | null {
+  if (typeof value === "number") {
+    return isFinite(value) ? { weight: value, unit: null } : null;
+  }
+  if (typeof value !== "string") return null;
+  const text = value.trim().toLowerCase();
+
+  const stonesPounds = text.match(/^(\d+)\s*(?:st|stone|stones)\s*(\d+(?:[.,]\d+)?)\s*(?:lb|lbs|pounds?)?$/);
+  if (stonesPounds) {
+    // Stored as pounds; two decimals of stones would lose precision
+    const stones = parseInt(stonesPounds[1]);
+    const pounds = parseFloat(stonesPounds[2].replace(",", "."));
+    return { weight: stones * 14 + pounds, unit: "lbs" };
+  }
+
+  const match = text.match(/^(\d+(?:[.,]\d+)?)\s*([a-z.]*)$/);
+  if (!match) return null;
+  const unit = match[2] ? parseImportUnit(match[2]) : null;
+  if (match[2] && !unit) return null;
+  return { weight: parseFloat(match[1].replace(",", ".")), unit };
+}
+
+// Flags each entry that is already stored, or repeated earlier in `entries`,
+// with the same timestamp and canonical mass
+export async function markDuplicateEntries(userId: string, entries: InsertWeightEntry[]): Promise<boolean[]> {
+  const keyOf = (time: number, grams: number) => `${time}:${grams}`;
+  const seen = new Set<string>();
+  if (entries.length > 0) {
+    const times = entries.map((entry) => entry.recordedAt!.getTime());
+    const existing = await storage.getWeightEntriesBetween(
+      userId,
+      new Date(Math.min(...times)),
+      new Date(Math.max(...times)),
+    );
+    for (const entry of existing) {
+      if (entry.recordedAt) seen.add(keyOf(entry.recordedAt.getTime(), entry.weightGrams));
+    }
+  }
+
+  return entries.map((entry) => {
+    const key = keyOf(entry.recordedAt!.getTime(), entryGrams(entry.weight, entry.unit));
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+}
+
+// Parses and validates every row, then marks rows already stored (or repeated
+// earlier in the file) with the same timestamp and weight as duplicates.
+export async function planWeightImport(userId: string, request: WeightImportRequest): Promise<ImportPlan> {
+  const records = toRecords(request);
+  if (records.length === 0) {
+    throw new BadRequestError("No rows to import");
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestError(`Imports are limited to ${MAX_IMPORT_ROWS} rows at a time`);
+  }
+
+  const mapping = resolveMapping(Object.keys(records[0]), request.mapping);
+  const order: DateOrder =
+    request.dateFormat === "auto" ? inferDateOrder(records.map((r) => r[mapping.date])) : request.dateFormat;
+
+  const report: ImportRowResult[] = [];
+  const candidates: Array<{ result: ImportRowResult; entry: InsertWeightEntry }> = [];
+
+  records.forEach((record, index) => {
+    const result: ImportRowResult = { row: index + 1, status: "invalid" };
+    report.push(result);
+    const errors: string[] = [];
+
+    const recordedAt = parseImportDate(record[mapping.date], order);
+    if (!recordedAt) errors.push(`Unrecognised date: ${String(record[mapping.date] ?? "")}`);
+
+    const parsedWeight = parseImportWeight(record[mapping.weight]);
+    if (!parsedWeight) errors.push(`Unrecognised weight: ${String(record[mapping.weight] ?? "")}`);
+
+    let columnUnit: WeightUnit | null = null;
+    const rawUnit = mapping.unit ? record[mapping.unit] : undefined;
+    if (rawUnit !== undefined && rawUnit !== "") {
+      columnUnit = parseImportUnit(rawUnit);
+      if (!columnUnit) errors.push(`Unrecognised unit: ${String(rawUnit)}`);
+    }
+
+    const unit = parsedWeight?.unit ?? columnUnit ?? request.defaultUnit;
+    if (errors.length > 0 || !recordedAt || !parsedWeight) {
+      result.errors = errors;
+      return;
+    }
+
+    const rawNotes = mapping.notes ? record[mapping.notes] : undefined;
+    const validated = weightEntryInsertSchema.safeParse({
+      userId,
+      weight: parsedWeight.weight,
+      unit,
+      notes: rawNotes === undefined || rawNotes === "" ? undefined : String(rawNotes),
+      entryType: "import",
+      recordedAt,
+    });
+    if (!validated.success) {
+      result.errors = validated.error.issues.map((issue) => issue.message);
+      return;
+    }
+
+    Object.assign(result, {
+      recordedAt: recordedAt.toISOString(),
+      weight: validated.data.weight,
+      unit,
+    });
+    candidates.push({ result, entry: validated.data });
+  });
+
+  const isDuplicate = await markDuplicateEntries(userId, candidates.map((c) => c.entry));
+  const entries: InsertWeightEntry[] = [];
+  candidates.forEach(({ result, entry }, i) => {
+    if (isDuplicate[i]) {
+      result.status = "duplicate";
+      return;
+    }
+    result.status = "imported";
+    entries.push(entry);
+  });
+
+  return { report, entries };
+}
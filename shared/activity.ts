@@ -0,0 +1,38 @@
+// Everything recorded in the activity log. Stored as the `activity_action`
+// Postgres enum, so new actions need a schema push before they can be logged.
+export const activityActions = [
+  "weight_entry",
+  "weight_edit",
+  "weight_delete",
+  "weight_import",
+  "photo_upload",
+  "scale_ingest",
+  "google_photos_import",
+  "progress_photo_upload",
+  "progress_photo_delete",
+  "goal_set",
+  "goal_achieved",
+  "data_export",
+  "api_token_created",
+  "api_token_revoked",
+  "api_token_used",
+] as const;
+export type ActivityAction = (typeof activityActions)[number];
+
+export const activityActionLabels: Record<ActivityAction, string> = {
+  weight_entry: "Weight added",
+  weight_edit: "Weight edited",
+  weight_delete: "Weight deleted",
+  weight_import: "Weights imported",
+  photo_upload: "Scale photo uploaded",
+  scale_ingest: "Smart scale reading",
+  google_photos_import: "Google Photos import",
+  progress_photo_upload: "Progress photo added",
+  progress_photo_delete: "Progress photo deleted",
+  goal_set: "Goal set",
+  goal_achieved: "Goal achieved",
+  data_export: "Data exported",
+  api_token_created: "API token created",
+  api_token_revoked: "API token revoked",
+  api_token_used: "API token used",
+};
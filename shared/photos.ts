@@ -0,0 +1,26 @@
+// Thumbnails made for every stored photo, by longest side in pixels
+export const thumbnailSizes = {
+  small: 160,
+  medium: 480,
+  large: 1024,
+} as const;
+export type ThumbnailSize = keyof typeof thumbnailSizes;
+
+export function isThumbnailSize(size: unknown): size is ThumbnailSize {
+  return typeof size === "string" && Object.prototype.hasOwnProperty.call(thumbnailSizes, size);
+}
+
+// Name of a photo's file, or of one of its thumbnails: "/uploads/abc.jpg"
+// gives "abc.jpg", or "abc-small.webp" for the small thumbnail. Photos stored
+// before thumbnails existed have no extension and get theirs made on first
+// request.
+export function photoFileName(photoPath: string, size?: ThumbnailSize) {
+  const name = photoPath.slice(photoPath.lastIndexOf("/") + 1);
+  return size ? `${name.replace(/\.jpg$/, "")}-${size}.webp` : name;
+}
+
+// Where the signed-in owner loads a photo or thumbnail from. Photos are
+// private; use a signed URL to embed one anywhere else.
+export function photoUrl(photoPath: string, size?: ThumbnailSize) {
+  return `/api/photo-files/${photoFileName(photoPath, size)}`;
+}
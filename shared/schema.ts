@@ -6,11 +6,18 @@ import {
   jsonb,
   index,
   serial,
+  integer,
+  bigint,
   decimal,
   boolean,
+  uniqueIndex,
+  pgEnum,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { displayUnits, weightUnits } from "./units";
+import { activityActions } from "./activity";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -32,6 +39,7 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  displayUnit: varchar("display_unit", { length: 6 }).notNull().default("lbs"), // 'lbs', 'kg' or 'st_lbs'
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -40,41 +48,555 @@ export const users = pgTable("users", {
 export const weightEntries = pgTable("weight_entries", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  weight: decimal("weight", { precision: 5, scale: 2 }).notNull(),
-  unit: varchar("unit", { length: 3 }).notNull().default("lbs"), // 'lbs' or 'kg'
-  entryType: varchar("entry_type", { length: 10 }).notNull().default("manual"), // 'manual' or 'photo'
+  weight: decimal("weight", { precision: 5, scale: 2 }).notNull(), // as entered, in `unit`
+  unit: varchar("unit", { length: 3 }).notNull().default("lbs"), // 'lbs', 'kg' or 'st'
+  weightGrams: integer("weight_grams").notNull(), // canonical mass, used for all maths and display
+  entryType: varchar("entry_type", { length: 10 }).notNull().default("manual"), // 'manual', 'photo', 'import' or 'scale'
   photoPath: varchar("photo_path", { length: 255 }),
   notes: text("notes"),
+  // Body composition, when a smart scale reported it
+  bodyFatPercent: decimal("body_fat_percent", { precision: 4, scale: 1 }),
+  muscleMassGrams: integer("muscle_mass_grams"),
+  waterPercent: decimal("water_percent", { precision: 4, scale: 1 }),
+  boneMassGrams: integer("bone_mass_grams"),
+  bmi: decimal("bmi", { precision: 4, scale: 1 }),
   recordedAt: timestamp("recorded_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Activity logs for tracking user actions
-export const activityLogs = pgTable("activity_logs", {
+// Scale photo readings awaiting review; confirming one creates the weight entry
+export const photoDetections = pgTable("photo_detections", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  action: varchar("action", { length: 50 }).notNull(), // 'weight_entry', 'photo_upload', 'weight_delete'
-  description: text("description"),
-  metadata: jsonb("metadata"),
+  photoPath: varchar("photo_path", { length: 255 }).notNull(),
+  detectedWeight: decimal("detected_weight", { precision: 5, scale: 2 }), // null when the display couldn't be read
+  unit: varchar("unit", { length: 3 }),
+  confidence: decimal("confidence", { precision: 3, scale: 2 }),
+  displayBox: jsonb("display_box"),
+  status: varchar("status", { length: 10 }).notNull().default("pending"), // 'pending' or 'confirmed'
+  weightEntryId: integer("weight_entry_id").references(() => weightEntries.id, { onDelete: "set null" }),
+  // Set for photos queued by background sync rather than uploaded
+  source: varchar("source", { length: 20 }), // 'google_photos'
+  mediaId: varchar("media_id", { length: 255 }),
+  takenAt: timestamp("taken_at"), // used as the entry's recordedAt on confirm
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Body progress photos, separate from scale photos. Each may be linked to the
+// weigh-in it was taken with.
+export const progressPhotos = pgTable(
+  "progress_photos",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    photoPath: varchar("photo_path", { length: 255 }).notNull(),
+    pose: varchar("pose", { length: 10 }).notNull(), // 'front', 'side' or 'back'
+    weightEntryId: integer("weight_entry_id").references(() => weightEntries.id, { onDelete: "set null" }),
+    takenAt: timestamp("taken_at").notNull(),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_progress_photo_user_taken_at").on(table.userId, table.takenAt)],
+);
+
+// Weight goals. Only one goal per user is expected to be 'active' at a time.
+export const goals = pgTable("goals", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  startWeight: decimal("start_weight", { precision: 5, scale: 2 }).notNull(),
+  targetWeight: decimal("target_weight", { precision: 5, scale: 2 }).notNull(),
+  targetDate: timestamp("target_date").notNull(),
+  unit: varchar("unit", { length: 3 }).notNull().default("lbs"),
+  status: varchar("status", { length: 10 }).notNull().default("active"), // 'active', 'achieved' or 'abandoned'
+  achievedAt: timestamp("achieved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const activityActionEnum = pgEnum("activity_action", activityActions);
+
+// Activity logs for tracking user actions
+export const activityLogs = pgTable(
+  "activity_logs",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    action: activityActionEnum("action").notNull(),
+    description: text("description"),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_activity_log_user_id").on(table.userId, table.id),
+    // Backs the full-text `q` filter
+    index("IDX_activity_log_description_search").using(
+      "gin",
+      sql`to_tsvector('english', coalesce(${table.description}, ''))`,
+    ),
+  ],
+);
+
+// OAuth accounts linked to a user, one per provider. Token columns hold
+// AES-256-GCM ciphertext (see server/tokenCrypto.ts), never plain tokens.
+export const connectedAccounts = pgTable(
+  "connected_accounts",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    provider: varchar("provider", { length: 20 }).notNull(), // 'google'
+    accessToken: text("access_token").notNull(),
+    refreshToken: text("refresh_token"),
+    scope: text("scope"),
+    expiresAt: timestamp("expires_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_connected_account_user_provider").on(table.userId, table.provider)],
+);
+
+// Password hashes for the built-in email/password provider (AUTH_PROVIDER=local),
+// kept apart from users so profile queries never load them
+export const passwordCredentials = pgTable("password_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// What a personal API token may do
+export const apiTokenScopes = ["entries:read", "entries:write"] as const;
+
+// Personal access tokens for scripts and automations. Only a SHA-256 hash of
+// each token is kept; the token itself is shown once, when it is created.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  // The first characters of the token, so the user can tell tokens apart
+  prefix: varchar("prefix", { length: 12 }).notNull(),
+  scopes: text("scopes").array().notNull(), // 'entries:read', 'entries:write'
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Events a webhook can subscribe to
+export const webhookEvents = [
+  "weight_entry.created",
+  "weight_entry.updated",
+  "weight_entry.deleted",
+  "photo.detected",
+  "goal.achieved",
+] as const;
+
+// Outbound webhook subscriptions. The signing secret is AES-256-GCM ciphertext
+// (see server/tokenCrypto.ts), since it's needed again to sign each delivery.
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events").array().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per event sent to a webhook, kept as the delivery log. Failed
+// attempts are retried with backoff until nextAttemptAt is cleared.
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    event: varchar("event", { length: 50 }).notNull(),
+    payload: jsonb("payload").notNull(),
+    status: varchar("status", { length: 10 }).notNull().default("pending"), // 'pending', 'succeeded' or 'failed'
+    attempts: integer("attempts").notNull().default(0),
+    // From the last attempt. The receiver's body isn't stored.
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    nextAttemptAt: timestamp("next_attempt_at"),
+    deliveredAt: timestamp("delivered_at"),
+    // Set on deliveries created by replaying another
+    replayOf: integer("replay_of"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_webhook_delivery_next_attempt").on(table.nextAttemptAt)],
+);
+
+// Background Google Photos sync progress, one row per user
+export const photoSyncStates = pgTable("photo_sync_states", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  enabled: boolean("enabled").notNull().default(true),
+  // Creation time of the newest photo already scanned
+  cursor: timestamp("cursor"),
+  lastRunAt: timestamp("last_run_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastError: text("last_error"),
+  // Photos scanned and detections queued by the last run, and overall
+  lastScanned: integer("last_scanned").notNull().default(0),
+  lastQueued: integer("last_queued").notNull().default(0),
+  totalScanned: integer("total_scanned").notNull().default(0),
+  totalQueued: integer("total_queued").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Photos already turned into weight entries, so the same media item is never
+// imported twice
+export const importedMedia = pgTable(
+  "imported_media",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    source: varchar("source", { length: 20 }).notNull(), // 'google_photos'
+    mediaId: varchar("media_id", { length: 255 }).notNull(),
+    weightEntryId: integer("weight_entry_id").references(() => weightEntries.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_imported_media_user_source_media").on(table.userId, table.source, table.mediaId)],
+);
+
+// Request and byte counters for rate limits and upload quotas, one row per
+// key and window (see server/rateLimit.ts)
+export const rateLimits = pgTable(
+  "rate_limits",
+  {
+    key: varchar("key", { length: 255 }).primaryKey(),
+    count: integer("count").notNull().default(0),
+    resetAt: timestamp("reset_at").notNull(),
+  },
+  (table) => [index("IDX_rate_limit_reset_at").on(table.resetAt)],
+);
+
+// One row per sweep of the photo store for files that no weight entry or
+// pending detection refers to
+export const photoCleanupRuns = pgTable("photo_cleanup_runs", {
+  id: serial("id").primaryKey(),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at"),
+  filesScanned: integer("files_scanned").notNull().default(0),
+  filesRemoved: integer("files_removed").notNull().default(0),
+  bytesReclaimed: bigint("bytes_reclaimed", { mode: "number" }).notNull().default(0),
+  error: text("error"),
 });
 
+// Numbers or numeric strings, stored to one decimal place
+const oneDecimal = (label: string, max: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} can't be negative`)
+    .max(max, `${label} must be at most ${max}`)
+    .transform((value) => value.toFixed(1));
+
+// Weights are numeric(5,2): positive and below 1000, stored to two places.
+// Numeric strings are accepted, as JSON bodies and forms send them.
+const weightOf = (label: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(0.01, `${label} must be positive`)
+    .max(999.99, `${label} must be less than 1000`)
+    .transform((value) => value.toFixed(2));
+const weightValue = weightOf("Weight");
+
+// A date string, timestamp or Date. Unlike z.coerce.date() alone, null and
+// booleans aren't turned into 1970.
+const dateValue = (label: string) =>
+  z
+    .union([z.string(), z.number(), z.date()], { errorMap: () => ({ message: `Enter a ${label.toLowerCase()}` }) })
+    .pipe(z.coerce.date({ errorMap: () => ({ message: `${label} must be a valid date` }) }));
+
+const massGrams = (label: string) =>
+  z.number().int(`${label} must be whole grams`).positive(`${label} must be positive`).max(500000);
+
+export const entryTypes = ["manual", "photo", "import", "scale"] as const;
+
 // Create insert schemas
-export const weightEntryInsertSchema = createInsertSchema(weightEntries).omit({
+export const weightEntryInsertSchema = createInsertSchema(weightEntries)
+  .omit({
+    id: true,
+    weightGrams: true,
+    createdAt: true,
+  })
+  .extend({
+    weight: weightValue,
+    unit: z.enum(weightUnits).optional(),
+    entryType: z.enum(entryTypes).optional(),
+    // Accepts ISO strings from JSON bodies; defaults to now when omitted
+    recordedAt: z.coerce
+      .date()
+      .refine((date) => date.getTime() <= Date.now() + 60 * 1000, "Recorded date can't be in the future")
+      .optional(),
+    bodyFatPercent: oneDecimal("Body fat", 100).nullish(),
+    muscleMassGrams: massGrams("Muscle mass").nullish(),
+    waterPercent: oneDecimal("Body water", 100).nullish(),
+    boneMassGrams: massGrams("Bone mass").nullish(),
+    bmi: oneDecimal("BMI", 200).nullish(),
+  });
+
+// What a client may send for a new entry. The type and photo are only ever
+// set by the server, since a photo on one of the user's entries lets them
+// read that photo file.
+export const weightEntryCreateSchema = weightEntryInsertSchema.omit({
+  entryType: true,
+  photoPath: true,
+});
+
+// Fields a user may change on an existing entry
+export const weightEntryUpdateSchema = weightEntryInsertSchema
+  .pick({
+    weight: true,
+    unit: true,
+    notes: true,
+    recordedAt: true,
+  })
+  .partial();
+
+// Body-composition readings that can be charted next to weight. Masses are in
+// grams like `weightGrams`.
+export const bodyCompositionMetrics = ["bodyFatPercent", "muscleMassGrams", "waterPercent", "boneMassGrams", "bmi"] as const;
+export const chartMetricSchema = z.object({
+  metric: z.enum(bodyCompositionMetrics),
+});
+
+// Query string for listing weight entries, newest first
+export const weightEntryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  // Opaque value from a previous page's `nextCursor`
+  cursor: z.string().min(1).optional(),
+  // Inclusive bounds on recordedAt
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  entryType: z.enum(entryTypes).optional(),
+  // Case-insensitive substring match on notes
+  q: z.string().trim().min(1).max(100).optional(),
+});
+
+export const weightImportFormats = ["csv", "json"] as const;
+export const importDateFormats = ["auto", "ymd", "mdy", "dmy"] as const;
+
+// Which column (CSV header) or key (JSON object) holds each field
+export const weightImportMappingSchema = z.object({
+  date: z.string().min(1),
+  weight: z.string().min(1),
+  unit: z.string().min(1).optional(),
+  notes: z.string().min(1).optional(),
+});
+
+export const weightImportSchema = z.object({
+  format: z.enum(weightImportFormats),
+  // CSV text, or an array of objects for JSON
+  data: z.union([z.string(), z.array(z.record(z.unknown()))]),
+  // Fields left out are guessed from the header/keys
+  mapping: weightImportMappingSchema.partial().optional(),
+  // Used for rows without a unit column or value
+  defaultUnit: z.enum(weightUnits).default("lbs"),
+  // How to read ambiguous dates like 03/04/2024; 'auto' assumes month first
+  // unless the file shows otherwise
+  dateFormat: z.enum(importDateFormats).default("auto"),
+  // Validate and report without saving anything
+  dryRun: z.boolean().default(false),
+});
+
+// Query string for smart-scale ingestion; the body is the vendor's own JSON
+export const scaleIngestQuerySchema = z.object({
+  // For vendors whose payloads don't say which unit they use
+  unit: z.enum(weightUnits).optional(),
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export const photoSyncSettingsSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const googlePhotosImportSchema = z.object({
+  mediaItemIds: z.array(z.string().min(1)).min(1).max(50),
+});
+
+export const photoDetectionInsertSchema = createInsertSchema(photoDetections).omit({
   id: true,
+  status: true,
+  weightEntryId: true,
   createdAt: true,
-  recordedAt: true,
 });
 
+export const progressPhotoPoses = ["front", "side", "back"] as const;
+
+// Form fields sent with a progress photo upload, so numbers and dates arrive
+// as strings
+export const progressPhotoInsertSchema = z.object({
+  pose: z.enum(progressPhotoPoses, { errorMap: () => ({ message: "Choose front, side or back" }) }),
+  // Defaults to now when omitted
+  takenAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() <= Date.now() + 60 * 1000, "Photo date can't be in the future")
+    .optional(),
+  weightEntryId: z.coerce.number().int().positive().optional(),
+  notes: z.string().trim().max(500).optional(),
+});
+
+export const progressPhotoUpdateSchema = progressPhotoInsertSchema
+  .extend({
+    // null unlinks the photo from its weigh-in
+    weightEntryId: z.number().int().positive().nullable(),
+    notes: z.string().trim().max(500).nullable(),
+  })
+  .partial();
+
+export const progressPhotoQuerySchema = z.object({
+  pose: z.enum(progressPhotoPoses).optional(),
+});
+
+export const apiTokenCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Choose at least one scope"),
+});
+
+export const webhookInsertSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "Webhook URLs must use http or https"),
+  events: z.array(z.enum(webhookEvents)).min(1, "Choose at least one event"),
+  enabled: z.boolean().optional(),
+});
+
+export const webhookUpdateSchema = webhookInsertSchema.partial();
+
+export const passwordLoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1).max(200),
+});
+
+export const passwordRegisterSchema = passwordLoginSchema.extend({
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
+export const userPreferencesSchema = z.object({
+  displayUnit: z.enum(displayUnits),
+});
+
+export const goalStatuses = ["active", "achieved", "abandoned"] as const;
+
+export const goalInsertSchema = createInsertSchema(goals)
+  .omit({
+    id: true,
+    achievedAt: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    startWeight: weightOf("Start weight"),
+    targetWeight: weightOf("Target weight"),
+    unit: z.enum(weightUnits).optional(),
+    // A day's leeway, as date pickers send midnight UTC of the local day
+    targetDate: dateValue("Target date").refine(
+      (date) => date.getTime() >= Date.now() - 24 * 60 * 60 * 1000,
+      "Target date can't be in the past",
+    ),
+    status: z.enum(goalStatuses).optional(),
+  });
+
+export const goalUpdateSchema = goalInsertSchema
+  .pick({
+    startWeight: true,
+    targetWeight: true,
+    targetDate: true,
+    unit: true,
+    status: true,
+  })
+  .partial();
+
 export const activityLogInsertSchema = createInsertSchema(activityLogs).omit({
   id: true,
   createdAt: true,
 });
 
+// Filters for the activity log and its CSV export
+export const activityLogFilterSchema = z.object({
+  // One action, or several separated by commas
+  action: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(activityActions, { errorMap: () => ({ message: "Unknown activity action" }) })))
+    .optional(),
+  // Inclusive bounds on createdAt
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Full-text search over descriptions
+  q: z.string().trim().min(1).max(100).optional(),
+});
+
+// Query string for listing activity, newest first
+export const activityLogQuerySchema = activityLogFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+  // Opaque value from a previous page's `nextCursor`
+  cursor: z.string().min(1).optional(),
+});
+
 // Export types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type ApiTokenScope = (typeof apiTokenScopes)[number];
+export type ApiTokenCreate = z.infer<typeof apiTokenCreateSchema>;
+export type WebhookEvent = (typeof webhookEvents)[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type UpdateWebhook = z.infer<typeof webhookUpdateSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type PasswordLogin = z.infer<typeof passwordLoginSchema>;
+export type PasswordRegistration = z.infer<typeof passwordRegisterSchema>;
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
 export type WeightEntry = typeof weightEntries.$inferSelect;
 export type InsertWeightEntry = z.infer<typeof weightEntryInsertSchema>;
+export type UpdateWeightEntry = z.infer<typeof weightEntryUpdateSchema>;
+export type WeightEntryQuery = z.infer<typeof weightEntryQuerySchema>;
+export type BodyCompositionMetric = (typeof bodyCompositionMetrics)[number];
+export type ScaleIngestQuery = z.infer<typeof scaleIngestQuerySchema>;
+export interface WeightEntryPage {
+  entries: WeightEntry[];
+  // Pass as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null;
+  // Entries matching the filters, across all pages
+  total: number;
+}
+export type WeightImportMapping = z.infer<typeof weightImportMappingSchema>;
+export type WeightImportRequest = z.infer<typeof weightImportSchema>;
+export type PhotoDetection = typeof photoDetections.$inferSelect;
+export type InsertPhotoDetection = z.infer<typeof photoDetectionInsertSchema>;
+export type Goal = typeof goals.$inferSelect;
+export type InsertGoal = z.infer<typeof goalInsertSchema>;
+export type UpdateGoal = z.infer<typeof goalUpdateSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof activityLogInsertSchema>;
+export type ActivityLogFilters = z.infer<typeof activityLogFilterSchema>;
+export type ActivityLogQuery = z.infer<typeof activityLogQuerySchema>;
+export interface ActivityLogPage {
+  logs: ActivityLog[];
+  // Pass as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null;
+  // Logs matching the filters, across all pages
+  total: number;
+}
+export type ConnectedAccount = typeof connectedAccounts.$inferSelect;
+export type UpsertConnectedAccount = typeof connectedAccounts.$inferInsert;
+export type ImportedMedia = typeof importedMedia.$inferSelect;
+export type ProgressPhoto = typeof progressPhotos.$inferSelect;
+export type InsertProgressPhoto = typeof progressPhotos.$inferInsert;
+export type UpdateProgressPhoto = z.infer<typeof progressPhotoUpdateSchema>;
+export type ProgressPhotoPose = (typeof progressPhotoPoses)[number];
+export type PhotoCleanupRun = typeof photoCleanupRuns.$inferSelect;
+export type InsertPhotoCleanupRun = typeof photoCleanupRuns.$inferInsert;
+export type PhotoSyncState = typeof photoSyncStates.$inferSelect;
+export type UpsertPhotoSyncState = typeof photoSyncStates.$inferInsert;
@@ -0,0 +1,70 @@
+// Weight units used across the app. 'st' is stones (14 lbs).
+export const weightUnits = ["lbs", "kg", "st"] as const;
+export type WeightUnit = (typeof weightUnits)[number];
+
+// How a user prefers to see weights. 'st_lbs' shows e.g. "12 st 6.2 lb".
+export const displayUnits = ["lbs", "kg", "st_lbs"] as const;
+export type DisplayUnit = (typeof displayUnits)[number];
+
+export interface DisplayWeight {
+  // Numeric value for charts and maths, in `unit`
+  value: number;
+  unit: WeightUnit;
+  label: string;
+}
+
+const KG_PER_UNIT: Record<WeightUnit, number> = {
+  kg: 1,
+  lbs: 0.45359237,
+  st: 6.35029318,
+};
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+export function isWeightUnit(unit: unknown): unit is WeightUnit {
+  return typeof unit === "string" && (weightUnits as readonly string[]).includes(unit);
+}
+
+export function isDisplayUnit(unit: unknown): unit is DisplayUnit {
+  return typeof unit === "string" && (displayUnits as readonly string[]).includes(unit);
+}
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit) {
+  if (from === to) return value;
+  return (value * KG_PER_UNIT[from]) / KG_PER_UNIT[to];
+}
+
+// Canonical stored mass
+export function toGrams(value: number, unit: WeightUnit) {
+  return Math.round(convertWeight(value, unit, "kg") * 1000);
+}
+
+export function fromGrams(grams: number, unit: WeightUnit) {
+  return convertWeight(grams / 1000, "kg", unit);
+}
+
+// Unit used for charting and arithmetic under a display preference
+export function baseUnit(displayUnit: DisplayUnit): WeightUnit {
+  return displayUnit === "st_lbs" ? "st" : displayUnit;
+}
+
+// Unit for small differences (trends, rates); "0.5 lbs/week" reads better than "0.04 st/week"
+export function deltaUnit(displayUnit: DisplayUnit): WeightUnit {
+  return displayUnit === "st_lbs" ? "lbs" : displayUnit;
+}
+
+export function formatWeight(grams: number, displayUnit: DisplayUnit): DisplayWeight {
+  if (displayUnit === "st_lbs") {
+    const totalLbs = fromGrams(grams, "lbs");
+    let stones = Math.floor(totalLbs / 14);
+    let pounds = round(totalLbs - stones * 14, 1);
+    if (pounds >= 14) {
+      stones += 1;
+      pounds = 0;
+    }
+    return { value: round(totalLbs / 14, 2), unit: "st", label: `${stones} st ${pounds} lb` };
+  }
+
+  const value = round(fromGrams(grams, displayUnit), 1);
+  return { value, unit: displayUnit, label: `${value} ${displayUnit}` };
+}